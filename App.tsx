@@ -1,29 +1,51 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { LayersIcon, DownloadIcon, SunIcon, MoonIcon, SaveIcon, FolderOpenIcon } from './components/ui/Icons';
+import { LayersIcon, DownloadIcon, SunIcon, MoonIcon, SaveIcon, FolderOpenIcon, MonitorIcon } from './components/ui/Icons';
 import AssetsPanel from './components/panels/AssetsPanel';
 import SettingsPanel from './components/panels/SettingsPanel';
 import PropertiesPanel from './components/panels/PropertiesPanel';
 import VideoPreview, { VideoPreviewHandle } from './components/preview/VideoPreview';
 import Timeline from './components/timeline/Timeline';
-import { ProjectState, Track, EditorElement, ElementType, ElementProps, Marker } from './types';
-import { DEFAULT_TRACKS, INITIAL_DURATION, PIXELS_PER_SECOND_DEFAULT } from './constants';
-import { getAssetById, getAssets, saveProjectState, loadProjectState } from './utils/db';
+import KeyframeEditor from './components/timeline/KeyframeEditor';
+import MixerPanel from './components/timeline/MixerPanel';
+import { ProjectState, Track, EditorElement, ElementType, ElementProps, Keyframe, Marker } from './types';
+import { DEFAULT_TRACKS, INITIAL_DURATION, PIXELS_PER_SECOND_DEFAULT, DEFAULT_PROJECT_SETTINGS } from './constants';
+import { getAssetById, getAssets, saveProjectState, loadProjectState, updateAssetDuration, updateAssetStabilization, getLutAssets, saveLutAsset, deleteLutAsset, LutAsset } from './utils/db';
+import { probeMediaDuration } from './utils/mediaProbe';
 import { saveProjectToFile, openProjectFilePicker } from './utils/projectFile';
 import { historyManager, HistoryState } from './utils/history';
 import KeyboardShortcutsModal from './components/ui/KeyboardShortcutsModal';
 import ExportModal from './components/ui/ExportModal';
+import ProjectSettingsModal from './components/ui/ProjectSettingsModal';
+import { applyKeyframedUpdates, getAnimatedElement } from './utils/keyframes';
+import { MaskEditState } from './utils/masks';
+import { applyEffectChanges, createEffect, getEffectChanges, migrateLegacyFilters } from './utils/effects';
+import { rippleDelete, rippleInsert, applyRipple, splitClip, DEFAULT_RIPPLE_SCOPE, RippleScope, RippleTargets, EditTool, EDIT_TOOLS, TrimPreview } from './utils/timelineEdits';
+import { updateSelection, getPrimarySelection, getElementIdsFromTime, getMixedFields, getChangedFields, SelectionMode } from './utils/selection';
+import { exportVideo, isExportSupported, ExportProgress, EncodingSettings } from './utils/exporter';
+import { parseCubeLut, registerLut, unregisterLut } from './utils/lut';
+import { analyzeStabilization, getStabilization, registerStabilization } from './utils/stabilization';
+import { bakeDucking, loadSidechainLevels, migrateLegacyDucking } from './utils/sidechain';
+import { registerWaveform } from './utils/waveform';
+import { getMaxDuration, retimeForSpeed } from './utils/timeRemap';
 
 const OLD_STORAGE_KEY = 'reactframe_project'; // For migration from localStorage
+const KEYFRAME_EDITOR_HEIGHT = 200;
+const MIXER_HEIGHT = 240;
+const TOOL_SHORTCUTS: Record<string, EditTool> = Object.fromEntries(EDIT_TOOLS.map(tool => [tool.shortcut.toLowerCase(), tool.id]));
 
 function App() {
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
   const previewRef = useRef<VideoPreviewHandle>(null);
+  const probedElementIdsRef = useRef<Set<string>>(new Set());
   const [pixelsPerSecond, setPixelsPerSecond] = useState(PIXELS_PER_SECOND_DEFAULT);
   const [isDarkMode, setIsDarkMode] = useState(() => {
     const saved = localStorage.getItem('theme');
     return saved ? saved === 'dark' : true; // Default to dark mode
   });
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isProjectSettingsOpen, setIsProjectSettingsOpen] = useState(false);
   const [isRestoring, setIsRestoring] = useState(true);
   const [timelineHeight, setTimelineHeight] = useState(300);
   const [isResizingTimeline, setIsResizingTimeline] = useState(false);
@@ -32,8 +54,19 @@ function App() {
   const [isResizingLeft, setIsResizingLeft] = useState(false);
   const [isResizingRight, setIsResizingRight] = useState(false);
   const [rippleEditMode, setRippleEditMode] = useState(false); // DaVinci-style ripple edit
+  const [rippleScope, setRippleScope] = useState<RippleScope>(DEFAULT_RIPPLE_SCOPE);
+  const [editTool, setEditTool] = useState<EditTool>('select');
+  const [trimPreview, setTrimPreview] = useState<TrimPreview | null>(null);
   const [snapEnabled, setSnapEnabled] = useState(true); // Magnetic snap toggle
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
+  const [showKeyframeEditor, setShowKeyframeEditor] = useState(false);
+  const [showMixer, setShowMixer] = useState(false);
+  const [timelineScrollLeft, setTimelineScrollLeft] = useState(0); // Keeps the keyframe editor aligned with the timeline
+  const [lutAssets, setLutAssets] = useState<LutAsset[]>([]); // Imported .cube LUT library
+  const [stabilizationProgress, setStabilizationProgress] = useState<Record<string, number>>({}); // By asset id, while analysing
+  const stabilizationAbortRef = useRef<Map<string, AbortController>>(new Map());
+  const [keyColorPickId, setKeyColorPickId] = useState<string | null>(null); // Clip picking its chroma key colour in the preview
+  const [maskEdit, setMaskEdit] = useState<MaskEditState | null>(null); // Mask being drawn or edited in the preview
 
   const [project, setProject] = useState<ProjectState>({
     currentTime: 0,
@@ -43,7 +76,8 @@ function App() {
     elements: [],
     tracks: DEFAULT_TRACKS,
     markers: [], // Timeline markers
-    selectedElementId: null,
+    settings: DEFAULT_PROJECT_SETTINGS,
+    selectedElementIds: [],
     videoSrc: null,
     isExporting: false,
   });
@@ -74,13 +108,20 @@ function App() {
           // Restore blob URLs for media elements
           const assets = await getAssets();
           const assetMap = new Map(assets.map(a => [a.id, a]));
+          assets.forEach(asset => {
+            if (asset.stabilization) registerStabilization(asset.id, asset.stabilization);
+            if (asset.waveform) registerWaveform(asset.id, asset.waveform);
+          });
 
-          const restoredElements = data.elements.map(el => {
+          const restoredElements = data.elements.map(saved => {
+            // Projects saved before effect stacks and sidechain ducking use older props
+            const el = migrateLegacyDucking(migrateLegacyFilters(saved));
             if ((el as any).assetId) {
               const asset = assetMap.get((el as any).assetId);
               if (asset) {
                 return {
                   ...el,
+                  sourceDuration: el.sourceDuration ?? asset.duration,
                   props: {
                     ...el.props,
                     src: URL.createObjectURL(asset.blob)
@@ -94,7 +135,8 @@ function App() {
           setProject(prev => ({
             ...prev,
             elements: restoredElements,
-            tracks: data.tracks.length > 0 ? data.tracks : DEFAULT_TRACKS
+            tracks: data.tracks.length > 0 ? data.tracks : DEFAULT_TRACKS,
+            settings: { ...DEFAULT_PROJECT_SETTINGS, ...data.settings }
           }));
         }
       } catch (e) {
@@ -106,15 +148,65 @@ function App() {
     loadProject();
   }, []);
 
-  // Save to IndexedDB whenever elements or tracks change
+  // Parse the imported LUT library and make it available to the preview and renderer
+  const loadLutLibrary = useCallback(async () => {
+    try {
+      const assets = await getLutAssets();
+      const loaded = assets.filter(asset => {
+        try {
+          registerLut(asset.id, parseCubeLut(asset.data, asset.name));
+          return true;
+        } catch (e) {
+          console.error(`Failed to parse LUT ${asset.name}:`, e);
+          return false;
+        }
+      });
+      setLutAssets(loaded);
+    } catch (e) {
+      console.error('Failed to load LUTs from IndexedDB:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLutLibrary();
+  }, [loadLutLibrary]);
+
+  // Save to IndexedDB whenever elements, tracks or settings change
   useEffect(() => {
     if (isRestoring) return; // Don't save while restoring
 
     // Save to IndexedDB (async, non-blocking)
-    saveProjectState(project.elements, project.tracks).catch(e => {
+    saveProjectState(project.elements, project.tracks, project.settings).catch(e => {
       console.error('Failed to save project to IndexedDB:', e);
     });
-  }, [project.elements, project.tracks, isRestoring]);
+  }, [project.elements, project.tracks, project.settings, isRestoring]);
+
+  // Probe the source length of media clips that don't know it yet (direct uploads, older projects)
+  useEffect(() => {
+    if (isRestoring) return;
+
+    project.elements.forEach(el => {
+      if (el.type !== ElementType.VIDEO && el.type !== ElementType.AUDIO) return;
+      if (el.sourceDuration !== undefined || !el.props.src || probedElementIdsRef.current.has(el.id)) return;
+      probedElementIdsRef.current.add(el.id);
+
+      probeMediaDuration(el.props.src, el.type).then(sourceDuration => {
+        if (sourceDuration === null) return;
+        if (el.assetId) {
+          updateAssetDuration(el.assetId, sourceDuration).catch(e => console.error('Failed to store asset duration:', e));
+        }
+        // Trim clips that run past the end of their media
+        setProject(prev => ({
+          ...prev,
+          elements: prev.elements.map(item => item.id === el.id ? {
+            ...item,
+            sourceDuration,
+            duration: Math.min(item.duration, Math.max(0.5, getMaxDuration({ ...item, sourceDuration })))
+          } : item)
+        }));
+      });
+    });
+  }, [project.elements, isRestoring]);
 
   // Handle Theme
   useEffect(() => {
@@ -226,7 +318,7 @@ function App() {
         elements: previousState.elements,
         tracks: previousState.tracks,
         markers: previousState.markers,
-        selectedElementId: null
+        selectedElementIds: []
       }));
     }
   }, [project.elements, project.tracks, project.markers]);
@@ -243,7 +335,7 @@ function App() {
         elements: nextState.elements,
         tracks: nextState.tracks,
         markers: nextState.markers,
-        selectedElementId: null
+        selectedElementIds: []
       }));
     }
   }, [project.elements, project.tracks, project.markers]);
@@ -274,55 +366,94 @@ function App() {
         return;
       }
 
-      // Delete element: Delete or Backspace
-      if ((e.key === 'Delete' || e.key === 'Backspace') && project.selectedElementId) {
+      // Delete selection: Delete or Backspace
+      if ((e.key === 'Delete' || e.key === 'Backspace') && project.selectedElementIds.length > 0) {
         e.preventDefault();
         saveToHistory();
-        setProject(prev => ({
-          ...prev,
-          elements: prev.elements.filter(el => el.id !== prev.selectedElementId),
-          selectedElementId: null
-        }));
+        handleDeleteElements(project.selectedElementIds);
+        return;
+      }
+
+      // Select all: Cmd+A
+      if ((e.metaKey || e.ctrlKey) && e.key === 'a') {
+        e.preventDefault();
+        handleSelectElements(project.elements.map(el => el.id));
         return;
       }
 
-      // Duplicate element: D
-      if (e.key === 'd' && project.selectedElementId && !e.metaKey && !e.ctrlKey) {
+      // Select forward from playhead: A (Shift+A adds to the selection)
+      if (e.key.toLowerCase() === 'a' && !e.metaKey && !e.ctrlKey && !e.altKey) {
+        e.preventDefault();
+        handleSelectElements(getElementIdsFromTime(project.elements, project.currentTime), e.shiftKey ? 'add' : 'replace');
+        return;
+      }
+
+      // Clear selection: Escape
+      if (e.key === 'Escape' && project.selectedElementIds.length > 0) {
+        handleSelectElements([]);
+        return;
+      }
+
+      // Timeline edit tools: V select, N roll, Y slip, U slide
+      if (!e.metaKey && !e.ctrlKey && !e.altKey) {
+        const tool = TOOL_SHORTCUTS[e.key.toLowerCase()];
+        if (tool) {
+          e.preventDefault();
+          setEditTool(tool);
+          return;
+        }
+      }
+
+      // Duplicate selection: D
+      if (e.key === 'd' && project.selectedElementIds.length > 0 && !e.metaKey && !e.ctrlKey) {
         e.preventDefault();
-        const selectedEl = project.elements.find(el => el.id === project.selectedElementId);
-        if (selectedEl) {
+        const selectedEls = project.elements.filter(el => project.selectedElementIds.includes(el.id));
+        if (selectedEls.length > 0) {
           saveToHistory();
-          const newElement: EditorElement = {
-            ...selectedEl,
-            id: `${selectedEl.type.toLowerCase()}-${Date.now()}`,
-            name: `${selectedEl.name} Copy`,
-            x: Math.min(selectedEl.x + 5, 90),
-            y: Math.min(selectedEl.y + 5, 90),
-          };
+          // Copies are offset down and right, animated positions included
+          const offset = (value: number) => Math.min(value + 5, 90);
+          const offsetTrack = (track: Keyframe[]) => track.map(k => ({ ...k, value: offset(k.value) }));
+          const newElements: EditorElement[] = selectedEls.map((selectedEl, index) => {
+            const { keyframes } = selectedEl;
+            return {
+              ...selectedEl,
+              id: `${selectedEl.type.toLowerCase()}-${Date.now()}-${index}`,
+              name: `${selectedEl.name} Copy`,
+              x: offset(selectedEl.x),
+              y: offset(selectedEl.y),
+              keyframes: keyframes && {
+                ...keyframes,
+                ...(keyframes.x && { x: offsetTrack(keyframes.x) }),
+                ...(keyframes.y && { y: offsetTrack(keyframes.y) })
+              }
+            };
+          });
           setProject(prev => ({
             ...prev,
-            elements: [...prev.elements, newElement],
-            selectedElementId: newElement.id
+            elements: [...prev.elements, ...newElements],
+            selectedElementIds: newElements.map(el => el.id)
           }));
         }
         return;
       }
 
-      // Arrow keys: Nudge position
-      if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key) && project.selectedElementId) {
+      // Arrow keys: Nudge position of the selection
+      if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key) && project.selectedElementIds.length > 0) {
         e.preventDefault();
         const nudgeAmount = e.shiftKey ? 10 : 1; // Shift for bigger nudge
+        saveToHistory();
         setProject(prev => ({
           ...prev,
           elements: prev.elements.map(el => {
-            if (el.id !== prev.selectedElementId) return el;
-            switch (e.key) {
-              case 'ArrowUp': return { ...el, y: Math.max(0, el.y - nudgeAmount) };
-              case 'ArrowDown': return { ...el, y: Math.min(100, el.y + nudgeAmount) };
-              case 'ArrowLeft': return { ...el, x: Math.max(0, el.x - nudgeAmount) };
-              case 'ArrowRight': return { ...el, x: Math.min(100, el.x + nudgeAmount) };
-              default: return el;
-            }
+            if (!prev.selectedElementIds.includes(el.id)) return el;
+            // Nudge from the position shown at the playhead; animated positions become keyframes there
+            const { x, y } = getAnimatedElement(el, prev.currentTime);
+            const updates: Partial<EditorElement> =
+              e.key === 'ArrowUp' ? { y: Math.max(0, y - nudgeAmount) } :
+              e.key === 'ArrowDown' ? { y: Math.min(100, y + nudgeAmount) } :
+              e.key === 'ArrowLeft' ? { x: Math.max(0, x - nudgeAmount) } :
+              { x: Math.min(100, x + nudgeAmount) };
+            return { ...el, ...applyKeyframedUpdates(el, updates, prev.currentTime) };
           })
         }));
         return;
@@ -365,7 +496,7 @@ function App() {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleUndo, handleRedo, project.selectedElementId, project.elements, saveToHistory]);
+  }, [handleUndo, handleRedo, project.selectedElementIds, project.elements, project.currentTime, saveToHistory, rippleEditMode, rippleScope]);
 
   const handleSeek = useCallback((time: number) => {
     setProject(prev => ({ ...prev, currentTime: time }));
@@ -384,7 +515,7 @@ function App() {
     const asset = await getAssetById(assetId);
     if (asset) {
       const url = URL.createObjectURL(asset.blob);
-      handleAddElement(asset.type, { src: url, name: asset.name, assetId }, trackId, startTime);
+      handleAddElement(asset.type, { src: url, name: asset.name, assetId, sourceDuration: asset.duration }, trackId, startTime);
     }
   };
 
@@ -417,12 +548,12 @@ function App() {
         name = customProps?.name || "Video Clip";
         defaultProps = { src: customProps?.src, volume: 1, isMuted: false };
         width = 100; height = 100;
-        duration = 10;
+        duration = customProps?.sourceDuration ?? 10;
         break;
       case ElementType.AUDIO:
         name = customProps?.name || "Audio Track";
         defaultProps = { src: customProps?.src, volume: 1, isMuted: false };
-        duration = 30;
+        duration = customProps?.sourceDuration ?? 30;
         break;
       case ElementType.IMAGE:
         name = customProps?.name || "Image";
@@ -431,7 +562,7 @@ function App() {
         break;
       case ElementType.ADJUSTMENT:
         name = "Adjustment Layer";
-        defaultProps = { opacity: 1, brightness: 1, contrast: 1, saturation: 1 };
+        defaultProps = { opacity: 1, effects: ['brightness', 'contrast', 'saturation'].map(type => createEffect(type)) };
         width = 100; height = 100; // Full frame
         duration = 10;
         break;
@@ -503,33 +634,97 @@ function App() {
       rotation: 0,
       zIndex: project.elements.length, // New elements on top
       props: defaultProps,
+      ...(customProps?.sourceDuration !== undefined && { sourceDuration: customProps.sourceDuration }),
       ...(customProps?.assetId && { assetId: customProps.assetId })
     } as EditorElement;
 
-    setProject(prev => ({
-      ...prev,
-      elements: [...prev.elements, newElement],
-      selectedElementId: id
-    }));
+    setProject(prev => {
+      if (!rippleEditMode) {
+        return { ...prev, elements: [...prev.elements, newElement], selectedElementIds: [id] };
+      }
+      // Ripple insert: later clips make room for the new one
+      const rippled = rippleInsert(prev.elements, prev.tracks, prev.markers, newElement, rippleScope);
+      return { ...prev, elements: rippled.elements, markers: rippled.markers, selectedElementIds: [id] };
+    });
   };
 
-  const handleSelectElement = (id: string | null) => {
-    setProject(prev => ({ ...prev, selectedElementId: id }));
+  const handleSelectElements = (ids: string[], mode: SelectionMode = 'replace') => {
+    setProject(prev => ({ ...prev, selectedElementIds: updateSelection(prev.selectedElementIds, ids, mode) }));
+  };
+
+  const handleSelectElement = (id: string | null, mode: SelectionMode = 'replace') => {
+    handleSelectElements(id ? [id] : [], mode);
   };
 
   const handleUpdateElement = (id: string, updates: Partial<EditorElement>) => {
     setProject(prev => ({
       ...prev,
-      elements: prev.elements.map(el => el.id === id ? { ...el, ...updates } : el)
+      // Edits to animated properties become keyframes at the playhead
+      // and speed changes rescale the clip's length
+      elements: prev.elements.map(el => el.id === id ? retimeForSpeed(el, { ...el, ...applyKeyframedUpdates(el, updates, prev.currentTime) }) : el)
     }));
   };
 
-  const handleDeleteElement = (id: string) => {
-    setProject(prev => ({
-      ...prev,
-      elements: prev.elements.filter(el => el.id !== id),
-      selectedElementId: null
-    }));
+  // Property edits apply to the whole selection when the edited clip is part of it
+  const handleUpdateSelection = (id: string, updates: Partial<EditorElement>) => {
+    const ids = project.selectedElementIds;
+    const edited = project.elements.find(el => el.id === id);
+    // Effect edits reach the other clips' effects of the same type and position
+    const effectChanges = edited && updates.props && 'effects' in updates.props
+      ? getEffectChanges(getAnimatedElement(edited, project.currentTime).props.effects, updates.props.effects)
+      : [];
+    // Keyframe and mask edits, and adding, removing or reordering effects,
+    // only make sense on the clip they were made on
+    if (ids.length < 2 || !ids.includes(id) || 'keyframes' in updates || 'masks' in updates || !effectChanges) {
+      handleUpdateElement(id, updates);
+      return;
+    }
+    setProject(prev => {
+      const source = prev.elements.find(el => el.id === id);
+      if (!source) return prev;
+      const changes = getChangedFields(getAnimatedElement(source, prev.currentTime), updates);
+      return {
+        ...prev,
+        elements: prev.elements.map(el => {
+          if (!prev.selectedElementIds.includes(el.id)) return el;
+          // Other props as they are at the playhead, so each clip's animations aren't re-keyed there
+          const props = getAnimatedElement(el, prev.currentTime).props;
+          const merged = changes.props
+            ? { ...changes, props: { ...props, ...changes.props, effects: applyEffectChanges(props.effects, effectChanges) } }
+            : changes;
+          return retimeForSpeed(el, { ...el, ...applyKeyframedUpdates(el, merged, prev.currentTime) });
+        })
+      };
+    });
+  };
+
+  const handleDeleteElements = (ids: string[]) => {
+    setProject(prev => {
+      if (!rippleEditMode) {
+        return { ...prev, elements: prev.elements.filter(el => !ids.includes(el.id)), selectedElementIds: [] };
+      }
+      // Ripple delete: close the gap left by each clip, latest first
+      const deleted = prev.elements
+        .filter(el => ids.includes(el.id))
+        .sort((a, b) => b.startTime - a.startTime);
+      const rippled = deleted.reduce(
+        (result, el) => rippleDelete(result.elements, prev.tracks, result.markers, el.id, rippleScope),
+        { elements: prev.elements, markers: prev.markers }
+      );
+      return { ...prev, elements: rippled.elements, markers: rippled.markers, selectedElementIds: [] };
+    });
+  };
+
+  // Edge trim in ripple mode: `targets` were collected when the drag started
+  const handleRippleTrim = (id: string, updates: Partial<EditorElement>, targets: RippleTargets, delta: number) => {
+    setProject(prev => {
+      const rippled = applyRipple(prev.elements, prev.markers, targets, delta);
+      return {
+        ...prev,
+        elements: rippled.elements.map(el => el.id === id ? { ...el, ...updates } : el),
+        markers: rippled.markers
+      };
+    });
   };
 
   const handleSplit = () => {
@@ -540,32 +735,115 @@ function App() {
 
       prev.elements.forEach(el => {
         if (time > el.startTime && time < el.startTime + el.duration) {
-          if (prev.selectedElementId && el.id !== prev.selectedElementId) return;
+          if (prev.selectedElementIds.length > 0 && !prev.selectedElementIds.includes(el.id)) return;
           modified = true;
-          const splitPointRelative = time - el.startTime;
-          const originalDuration = el.duration;
-          const leftDuration = splitPointRelative;
-          const rightDuration = originalDuration - leftDuration;
-          const newId = Math.random().toString(36).substr(2, 9);
-
-          const rightPart: EditorElement = {
-            ...el,
-            id: newId,
-            startTime: time,
-            duration: rightDuration,
-            mediaOffset: el.mediaOffset + leftDuration,
-            name: el.name + " (Copy)"
-          };
-
+          const [leftPart, rightPart] = splitClip(el, time, Math.random().toString(36).substr(2, 9));
           const index = newElements.findIndex(e => e.id === el.id);
-          newElements[index] = { ...el, duration: leftDuration };
+          newElements[index] = leftPart;
           newElements.push(rightPart);
         }
       });
-      return modified ? { ...prev, elements: newElements, selectedElementId: null } : prev;
+      return modified ? { ...prev, elements: newElements, selectedElementIds: [] } : prev;
     });
   };
 
+  // Add a .cube file to the LUT library
+  const handleImportLut = async (file: File): Promise<LutAsset | null> => {
+    try {
+      const text = await file.text();
+      const name = file.name.replace(/\.cube$/i, '');
+      const lut = parseCubeLut(text, name);
+      const asset = await saveLutAsset(name, text);
+      registerLut(asset.id, lut);
+      setLutAssets(prev => [...prev, asset].sort((a, b) => a.name.localeCompare(b.name)));
+      return asset;
+    } catch (e) {
+      console.error('Failed to import LUT:', e);
+      alert(`Could not import ${file.name}: ${(e as Error).message}`);
+      return null;
+    }
+  };
+
+  // Analyse the camera shake of a clip's video in the background (once per asset)
+  const handleAnalyzeStabilization = async (id: string) => {
+    const element = project.elements.find(el => el.id === id);
+    if (!element || element.type !== ElementType.VIDEO || !element.props.src) return;
+    if (!element.assetId) {
+      alert('Only clips from the media library can be stabilized.');
+      return;
+    }
+    const assetId = element.assetId;
+    if (getStabilization(assetId) || stabilizationAbortRef.current.has(assetId)) return;
+
+    const controller = new AbortController();
+    stabilizationAbortRef.current.set(assetId, controller);
+    setStabilizationProgress(prev => ({ ...prev, [assetId]: 0 }));
+    try {
+      const data = await analyzeStabilization(
+        element.props.src,
+        (progress) => setStabilizationProgress(prev => ({ ...prev, [assetId]: progress })),
+        controller.signal
+      );
+      registerStabilization(assetId, data);
+      await updateAssetStabilization(assetId, data);
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        console.error('Stabilization analysis failed:', e);
+        alert(`Stabilization failed: ${(e as Error).message}`);
+      }
+    } finally {
+      stabilizationAbortRef.current.delete(assetId);
+      setStabilizationProgress(prev => {
+        const { [assetId]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const handleCancelStabilization = (id: string) => {
+    const assetId = project.elements.find(el => el.id === id)?.assetId;
+    if (assetId) stabilizationAbortRef.current.get(assetId)?.abort();
+  };
+
+  // Write a ducking clip's effect into volume keyframes on the clips it ducks
+  const handleBakeDucking = async (id: string) => {
+    const element = project.elements.find(el => el.id === id);
+    if (!element?.props.ducking) return;
+    await loadSidechainLevels([element]);
+    saveToHistory();
+    setProject(prev => ({ ...prev, elements: bakeDucking(prev.elements, prev.tracks, id) }));
+  };
+
+  // Chroma key colour picked with the eyedropper (null when cancelled)
+  const handlePickKeyColor = (color: string | null) => {
+    const element = project.elements.find(el => el.id === keyColorPickId);
+    if (color && element) {
+      // Other props as they are at the playhead, so keyframed ones aren't re-keyed there
+      handleUpdateElement(element.id, { props: { ...getAnimatedElement(element, project.currentTime).props, chromaKeyColor: color } });
+    }
+    setKeyColorPickId(null);
+  };
+
+  // Remove a LUT from the library; clips using it go back to their preset
+  const handleDeleteLut = async (id: string) => {
+    try {
+      await deleteLutAsset(id);
+    } catch (e) {
+      console.error('Failed to delete LUT:', e);
+      return;
+    }
+    unregisterLut(id);
+    setLutAssets(prev => prev.filter(asset => asset.id !== id));
+    setProject(prev => ({
+      ...prev,
+      elements: prev.elements.map(el => {
+        if (el.props.lutId !== id) return el;
+        const { lutId, ...props } = el.props;
+        return { ...el, props };
+      })
+    }));
+  };
+
   // Split Audio from Video - extracts audio to a new track below the video
   const handleSplitAudio = (videoElementId: string) => {
     setProject(prev => {
@@ -631,11 +909,19 @@ function App() {
         height: 0,
         rotation: 0,
         zIndex: updatedElements.length, // Add zIndex
+        sourceDuration: videoElement.sourceDuration,
         props: {
           src: videoElement.props.src,
           volume: videoElement.props.volume ?? 1,
-          isMuted: false
+          isMuted: false,
+          // Keep the audio in step with the picture
+          playbackRate: videoElement.props.playbackRate,
+          isReversed: videoElement.props.isReversed,
+          isFreezeFrame: videoElement.props.isFreezeFrame,
+          preservePitch: videoElement.props.preservePitch
         },
+        // Speed ramp, if any
+        keyframes: videoElement.keyframes?.playbackRate ? { playbackRate: videoElement.keyframes.playbackRate } : undefined,
         assetId: videoElement.assetId // Preserve asset reference
       };
 
@@ -657,7 +943,7 @@ function App() {
         ...prev,
         tracks: updatedTracks,
         elements: finalElements,
-        selectedElementId: newAudioId // Select the new audio element
+        selectedElementIds: [newAudioId] // Select the new audio element
       };
     });
   };
@@ -745,11 +1031,19 @@ function App() {
         ...prev,
         tracks: updatedTracks,
         elements: updatedElements,
-        selectedElementId: null
+        selectedElementIds: []
       };
     });
   };
 
+  // Mixer settings (volume, pan, mute, solo) of a track
+  const handleUpdateTrack = (id: number, updates: Partial<Track>) => {
+    setProject(prev => ({
+      ...prev,
+      tracks: prev.tracks.map(t => t.id === id ? { ...t, ...updates } : t)
+    }));
+  };
+
   // Close all gaps between clips - slides clips left to remove empty space
   const handleCloseGaps = () => {
     saveToHistory();
@@ -835,44 +1129,57 @@ function App() {
     setIsExportModalOpen(true);
   };
 
-  const startExport = async (filename: string, fps: number) => {
-    setIsExportModalOpen(false);
-    if (!previewRef.current) return;
+  const startExport = async (filename: string, settings: EncodingSettings) => {
+    if (!previewRef.current || project.isExporting) return;
+    if (!isExportSupported()) {
+      alert("Export requires WebCodecs support (Chrome, Edge or Safari 16.4+).");
+      return;
+    }
 
-    // Safety check just in case modal didn't close or something
-    if (!confirm(`Start recording playback for "${filename}" at ${fps} FPS? The video will play from start to finish.`)) return;
+    // Pixel based styles (font sizes, borders, shadows) scale with the output resolution,
+    // fitting the stage inside the output frame so they keep their size across aspect ratios
+    const stage = previewRef.current.getStageSize();
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setProject(prev => ({ ...prev, isPlaying: false, isExporting: true }));
 
     try {
-      setProject(prev => ({ ...prev, currentTime: 0, isPlaying: true }));
-      const stream = previewRef.current.captureStream(fps);
-      const mediaRecorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
-
-      const chunks: BlobPart[] = [];
-      mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunks.push(e.data);
-      };
-
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunks, { type: 'video/webm' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${filename}.webm`;
-        a.click();
-        setProject(prev => ({ ...prev, isPlaying: false }));
-      };
-
-      mediaRecorder.start();
-      setTimeout(() => {
-        mediaRecorder.stop();
-      }, project.duration * 1000);
+      const { blob, container } = await exportVideo(
+        project.elements,
+        project.tracks,
+        project.duration,
+        {
+          ...settings,
+          pixelScale: Math.min(settings.width / stage.width, settings.height / stage.height),
+          background: project.settings.transparentBackground ? undefined : project.settings.backgroundColor
+        },
+        setExportProgress,
+        controller.signal
+      );
 
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${filename}.${container}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      setIsExportModalOpen(false);
     } catch (e) {
-      console.error(e);
-      alert("Browser does not support capturing this stream directly.");
+      if ((e as Error).name !== 'AbortError') {
+        console.error('Export failed:', e);
+        alert(`Export failed: ${(e as Error).message}`);
+      }
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+      setProject(prev => ({ ...prev, isExporting: false }));
     }
   };
 
+  const cancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
   // ==================== SAVE/LOAD PROJECT FILE HANDLERS ====================
 
   /**
@@ -885,6 +1192,7 @@ function App() {
         project.elements,
         project.tracks,
         project.markers,
+        project.settings,
         'motion-labs-project'
       );
     } catch (error) {
@@ -909,6 +1217,10 @@ function App() {
     try {
       const loadedProject = await openProjectFilePicker();
       if (loadedProject) {
+        // Pick up LUTs and stabilization analyses that came embedded in the file
+        await loadLutLibrary();
+        (await getAssets()).forEach(asset => asset.stabilization && registerStabilization(asset.id, asset.stabilization));
+
         // Save current state to history before replacing
         saveToHistory();
 
@@ -918,12 +1230,13 @@ function App() {
           elements: loadedProject.elements,
           tracks: loadedProject.tracks.length > 0 ? loadedProject.tracks : DEFAULT_TRACKS,
           markers: loadedProject.markers || [],
-          selectedElementId: null,
+          settings: { ...DEFAULT_PROJECT_SETTINGS, ...loadedProject.settings },
+          selectedElementIds: [],
           currentTime: 0
         }));
 
         // Also save to IndexedDB for persistence
-        await saveProjectState(loadedProject.elements, loadedProject.tracks);
+        await saveProjectState(loadedProject.elements, loadedProject.tracks, { ...DEFAULT_PROJECT_SETTINGS, ...loadedProject.settings });
       }
     } catch (error) {
       console.error('Failed to load project:', error);
@@ -931,7 +1244,15 @@ function App() {
     }
   };
 
-  const selectedElement = project.elements.find(el => el.id === project.selectedElementId) || null;
+  const primarySelectionId = getPrimarySelection(project.selectedElementIds);
+  const selectedElement = project.elements.find(el => el.id === primarySelectionId) || null;
+  // The properties panel shows keyframed values as they are at the playhead
+  const animatedSelectedElement = selectedElement && getAnimatedElement(selectedElement, project.currentTime);
+  const mixedFields = getMixedFields(
+    project.elements
+      .filter(el => project.selectedElementIds.includes(el.id))
+      .map(el => getAnimatedElement(el, project.currentTime))
+  );
 
   return (
     <div className="flex flex-col h-screen bg-white dark:bg-black text-gray-900 dark:text-white transition-colors duration-200">
@@ -954,6 +1275,14 @@ function App() {
           >
             <span className="text-sm">⌨️</span>
           </button>
+          <button
+            onClick={() => setIsProjectSettingsOpen(true)}
+            className="text-xs px-3 py-1.5 rounded border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors flex items-center space-x-1.5"
+            title="Canvas size, frame rate and background"
+          >
+            <MonitorIcon className="w-3.5 h-3.5" />
+            <span>{project.settings.width}×{project.settings.height} · {project.settings.fps}fps</span>
+          </button>
           <button
             onClick={() => setIsSettingsOpen(true)}
             className="text-xs px-3 py-1.5 rounded border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
@@ -1015,12 +1344,19 @@ function App() {
             currentTime={project.currentTime}
             isPlaying={project.isPlaying}
             elements={project.elements}
-            selectedElementId={project.selectedElementId}
+            tracks={project.tracks}
+            settings={project.settings}
+            selectedElementIds={project.selectedElementIds}
             onSelectElement={handleSelectElement}
             onUpdateElement={handleUpdateElement}
             onTimeUpdate={handleSeek}
             onDurationChange={handleUpdateDuration}
             togglePlay={togglePlay}
+            trimPreview={trimPreview}
+            keyColorPickId={keyColorPickId}
+            onPickKeyColor={handlePickKeyColor}
+            maskEdit={maskEdit}
+            onMaskEditChange={setMaskEdit}
           />
         </div>
 
@@ -1034,10 +1370,24 @@ function App() {
             <div className="absolute top-1/2 left-0 -translate-y-1/2 w-1 h-8 rounded-full bg-gray-300 dark:bg-gray-600 group-hover:bg-blue-500 transition-colors" />
           </div>
           <PropertiesPanel
-            element={selectedElement}
-            onUpdate={handleUpdateElement}
-            onDelete={handleDeleteElement}
+            element={animatedSelectedElement}
+            currentTime={project.currentTime}
+            selectionCount={project.selectedElementIds.length}
+            mixedFields={mixedFields}
+            onUpdate={handleUpdateSelection}
+            onDelete={(id) => handleDeleteElements(project.selectedElementIds.includes(id) ? project.selectedElementIds : [id])}
             onSplitAudio={handleSplitAudio}
+            luts={lutAssets}
+            onImportLut={handleImportLut}
+            onDeleteLut={handleDeleteLut}
+            stabilizationProgress={animatedSelectedElement?.assetId ? stabilizationProgress[animatedSelectedElement.assetId] : undefined}
+            onAnalyzeStabilization={handleAnalyzeStabilization}
+            onCancelStabilization={handleCancelStabilization}
+            onBakeDucking={handleBakeDucking}
+            isPickingKeyColor={!!animatedSelectedElement && keyColorPickId === animatedSelectedElement.id}
+            onPickKeyColor={(id) => setKeyColorPickId(keyColorPickId === id ? null : id)}
+            maskEdit={maskEdit}
+            onMaskEditChange={setMaskEdit}
             panelWidth={rightPanelWidth}
           />
         </div>
@@ -1064,7 +1414,8 @@ function App() {
           duration={project.duration}
           onSeek={handleSeek}
           onSelectElement={handleSelectElement}
-          selectedElementId={project.selectedElementId}
+          onSelectElements={handleSelectElements}
+          selectedElementIds={project.selectedElementIds}
           onUpdateElement={handleUpdateElement}
           onSplit={handleSplit}
           pixelsPerSecond={pixelsPerSecond}
@@ -1074,6 +1425,12 @@ function App() {
           onDeleteTrack={handleDeleteTrack}
           rippleEditMode={rippleEditMode}
           onToggleRippleEdit={() => setRippleEditMode(!rippleEditMode)}
+          rippleScope={rippleScope}
+          onChangeRippleScope={setRippleScope}
+          onRippleTrim={handleRippleTrim}
+          editTool={editTool}
+          onChangeEditTool={setEditTool}
+          onTrimPreview={setTrimPreview}
           snapEnabled={snapEnabled}
           onToggleSnap={() => setSnapEnabled(!snapEnabled)}
           onCloseGaps={handleCloseGaps}
@@ -1081,19 +1438,63 @@ function App() {
           onAddMarker={handleAddMarker}
           onUpdateMarker={handleUpdateMarker}
           onDeleteMarker={handleDeleteMarker}
+          settings={project.settings}
+          scrollLeft={timelineScrollLeft}
+          onScroll={setTimelineScrollLeft}
+          keyframeEditorOpen={showKeyframeEditor}
+          onToggleKeyframeEditor={() => setShowKeyframeEditor(!showKeyframeEditor)}
+          mixerOpen={showMixer}
+          onToggleMixer={() => setShowMixer(!showMixer)}
         />
       </div>
 
+      {/* Keyframe Editor: dopesheet / curves for the selected clip */}
+      {showKeyframeEditor && (
+        <div className="flex-shrink-0 z-40 relative" style={{ height: `${KEYFRAME_EDITOR_HEIGHT}px` }}>
+          <KeyframeEditor
+            element={selectedElement}
+            currentTime={project.currentTime}
+            pixelsPerSecond={pixelsPerSecond}
+            scrollLeft={timelineScrollLeft}
+            onScroll={setTimelineScrollLeft}
+            onSeek={handleSeek}
+            onUpdateElement={handleUpdateElement}
+            onClose={() => setShowKeyframeEditor(false)}
+            settings={project.settings}
+          />
+        </div>
+      )}
+
+      {/* Mixer: per-track gain, pan, mute, solo and levels */}
+      {showMixer && (
+        <div className="flex-shrink-0 z-40 relative" style={{ height: `${MIXER_HEIGHT}px` }}>
+          <MixerPanel
+            tracks={project.tracks}
+            onUpdateTrack={handleUpdateTrack}
+            onClose={() => setShowMixer(false)}
+          />
+        </div>
+      )}
+
       <KeyboardShortcutsModal
         isOpen={showKeyboardShortcuts}
         onClose={() => setShowKeyboardShortcuts(false)}
       />
       <SettingsPanel isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+      <ProjectSettingsModal
+        isOpen={isProjectSettingsOpen}
+        onClose={() => setIsProjectSettingsOpen(false)}
+        settings={project.settings}
+        onSave={(settings) => setProject(prev => ({ ...prev, settings }))}
+      />
       <ExportModal
         isOpen={isExportModalOpen}
         onClose={() => setIsExportModalOpen(false)}
         onExport={startExport}
+        onCancel={cancelExport}
+        progress={exportProgress}
         duration={project.duration}
+        projectSettings={project.settings}
       />
     </div>
   );
@@ -54,7 +54,7 @@ const AssetsPanel: React.FC<AssetsPanelProps> = ({ onAddElement, panelWidth, onO
 
   const handleAddToTimeline = (asset: MediaAsset) => {
     const url = URL.createObjectURL(asset.blob);
-    onAddElement(asset.type, { src: url, name: asset.name, assetId: asset.id });
+    onAddElement(asset.type, { src: url, name: asset.name, assetId: asset.id, sourceDuration: asset.duration });
   };
 
   const handleDragStart = (e: React.DragEvent, asset: MediaAsset) => {
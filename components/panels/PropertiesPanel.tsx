@@ -1,5 +1,13 @@
 import React from 'react';
-import { EditorElement, ElementType, TransitionType, Transition } from '../../types';
+import { EditorElement, ElementType, TransitionType, Transition, AnimatableProperty, KeyframeEasing, Mask, ElementProps, Effect } from '../../types';
+import { toggleKeyframe, clearKeyframes, findKeyframeAt, getPropertyValue, setKeyframeEasing, getPropertyLabel, EASING_LABELS } from '../../utils/keyframes';
+import { LutAsset } from '../../utils/db';
+import { getStabilization } from '../../utils/stabilization';
+import { DEFAULT_KEY_COLOR, DEFAULT_KEY_TOLERANCE, DEFAULT_KEY_SOFTNESS, DEFAULT_KEY_SPILL } from '../../utils/chromaKey';
+import { findMaskKeyframeAt, getMaskPoints, toggleMaskKeyframe, MaskEditState, MASK_SHAPE_LABELS } from '../../utils/masks';
+import { formatPan } from '../../utils/audioEngine';
+import { DEFAULT_DUCKING_THRESHOLD, DEFAULT_DUCKING_DEPTH, DEFAULT_DUCKING_ATTACK, DEFAULT_DUCKING_RELEASE, MAX_DUCKING_DEPTH } from '../../utils/sidechain';
+import { createEffect, getEffectDefinition, getEffectDefinitions, getEffectParam, getEffectParamProperty, setEffectParam, updateEffect, moveEffect, removeEffect, formatEffectParam } from '../../utils/effects';
 
 interface PropertiesPanelProps {
     element: EditorElement | null;
@@ -7,9 +15,39 @@ interface PropertiesPanelProps {
     onDelete: (id: string) => void;
     onSplitAudio?: (id: string) => void;
     panelWidth?: number;
+    currentTime?: number; // Playhead position, used for keyframing
+    selectionCount?: number; // Edits apply to every selected clip, except keyframe and mask edits and effect stack changes
+    mixedFields?: Set<string>; // Fields that differ across the selection, e.g. 'x' or 'props.opacity'
+    luts?: LutAsset[]; // Imported .cube LUT library
+    onImportLut?: (file: File) => Promise<LutAsset | null>;
+    onDeleteLut?: (id: string) => void;
+    stabilizationProgress?: number; // 0-1 while the clip's video is being analysed
+    onAnalyzeStabilization?: (id: string) => void;
+    onCancelStabilization?: (id: string) => void;
+    onBakeDucking?: (id: string) => void;
+    isPickingKeyColor?: boolean; // Chroma key eyedropper active in the preview
+    onPickKeyColor?: (id: string) => void;
+    maskEdit?: MaskEditState | null; // Mask being drawn or edited in the preview
+    onMaskEditChange?: (state: MaskEditState | null) => void;
 }
 
-const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, onDelete, onSplitAudio, panelWidth }) => {
+type KeyframeState = 'none' | 'animated' | 'keyed';
+
+// Diamond toggle next to animatable fields: hollow grey when static, blue when
+// animated, filled when a keyframe sits under the playhead
+const KeyframeButton: React.FC<{ state: KeyframeState; onToggle: () => void; onClear: () => void }> = ({ state, onToggle, onClear }) => (
+    <button
+        onClick={(e) => (e.altKey ? onClear() : onToggle())}
+        className={`w-4 h-4 flex items-center justify-center transition ${state === 'none' ? 'text-gray-400 hover:text-blue-500' : 'text-blue-500 hover:text-blue-400'}`}
+        title={state === 'keyed' ? 'Remove keyframe (Alt+click clears animation)' : 'Add keyframe at playhead (Alt+click clears animation)'}
+    >
+        <svg viewBox="0 0 10 10" className="w-2.5 h-2.5">
+            <path d="M5 0.5 L9.5 5 L5 9.5 L0.5 5 Z" fill={state === 'keyed' ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="1.2" />
+        </svg>
+    </button>
+);
+
+const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, onDelete, onSplitAudio, panelWidth, currentTime = 0, selectionCount = 1, mixedFields, luts = [], onImportLut, onDeleteLut, stabilizationProgress, onAnalyzeStabilization, onCancelStabilization, onBakeDucking, isPickingKeyColor, onPickKeyColor, maskEdit, onMaskEditChange }) => {
     if (!element) {
         return (
             <div className="bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-800 p-4 text-gray-500 text-sm flex flex-col items-center justify-center h-full transition-colors" style={{ width: panelWidth ? `${panelWidth}px` : '300px' }}>
@@ -26,12 +64,52 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
         onUpdate(element.id, { [key]: value });
     };
 
+    const isMixed = (field: string) => mixedFields?.has(field) ?? false;
+
+    const renderKeyframeButton = (property: AnimatableProperty) => {
+        const track = element.keyframes?.[property];
+        const localTime = currentTime - element.startTime;
+        const state: KeyframeState = !track?.length ? 'none' : findKeyframeAt(track, localTime) ? 'keyed' : 'animated';
+        return (
+            <KeyframeButton
+                state={state}
+                onToggle={() => onUpdate(element.id, toggleKeyframe(element, property, currentTime))}
+                onClear={() => track?.length && onUpdate(element.id, clearKeyframes(element, property, getPropertyValue(element, property)))}
+            />
+        );
+    };
+
+    // Keyframes sitting under the playhead, for editing their easing
+    const keyframesAtPlayhead = (Object.keys(element.keyframes || {}) as AnimatableProperty[])
+        .map(property => ({ property, keyframe: findKeyframeAt(element.keyframes![property], currentTime - element.startTime) }))
+        .filter(({ keyframe }) => !!keyframe);
+
     const isMedia = element.type === ElementType.VIDEO || element.type === ElementType.AUDIO;
 
+    // Effect stack edits replace the whole list; keyframed parameters are auto-keyed by the update
+    const effects: Effect[] = element.props.effects || [];
+    const updateEffects = (next: Effect[]) => handleChange('effects', next);
+
+    // Masks are edited one at a time in the preview
+    const masks = element.masks || [];
+    const maskTime = Math.min(Math.max(0, currentTime - element.startTime), element.duration);
+    const editedMaskId = maskEdit?.elementId === element.id ? maskEdit.maskId : null;
+    const drawingShape = maskEdit?.elementId === element.id ? maskEdit.drawing : null;
+    const updateMask = (mask: Mask) => {
+        onUpdate(element.id, { masks: masks.map(m => m.id === mask.id ? mask : m) });
+    };
+    const deleteMask = (id: string) => {
+        onUpdate(element.id, { masks: masks.filter(m => m.id !== id) });
+        if (editedMaskId === id) onMaskEditChange?.(null);
+    };
+
     return (
         <div className="bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-800 flex flex-col h-full overflow-y-auto transition-colors" style={{ width: panelWidth ? `${panelWidth}px` : '300px' }}>
-            <div className="h-12 border-b border-gray-200 dark:border-gray-800 flex items-center px-4 font-semibold text-sm text-gray-700 dark:text-gray-200">
-                Properties
+            <div className="h-12 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between px-4 font-semibold text-sm text-gray-700 dark:text-gray-200">
+                <span>Properties</span>
+                {selectionCount > 1 && (
+                    <span className="text-xs font-normal text-blue-500">{selectionCount} clips selected</span>
+                )}
             </div>
 
             <div className="p-4 space-y-6">
@@ -40,7 +118,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                     <label className="text-xs text-gray-500 uppercase font-bold">Layer Name</label>
                     <input
                         type="text"
-                        value={element.name}
+                        value={isMixed('name') ? '' : element.name}
+                        placeholder={isMixed('name') ? 'Mixed' : undefined}
                         onChange={(e) => onUpdate(element.id, { name: e.target.value })}
                         className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-blue-500 transition-colors"
                     />
@@ -181,6 +260,27 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                     </div>
                 )}
 
+                {/* Keyframe Easing */}
+                {keyframesAtPlayhead.length > 0 && (
+                    <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-800">
+                        <label className="text-xs text-gray-500 uppercase font-bold">◆ Keyframes at Playhead</label>
+                        {keyframesAtPlayhead.map(({ property, keyframe }) => (
+                            <div key={property} className="flex items-center justify-between gap-2">
+                                <span className="text-xs text-gray-500 dark:text-gray-400">{getPropertyLabel(element, property)}</span>
+                                <select
+                                    value={keyframe!.easing}
+                                    onChange={(e) => onUpdate(element.id, setKeyframeEasing(element, property, keyframe!.id, e.target.value as KeyframeEasing))}
+                                    className="bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white"
+                                >
+                                    {(Object.keys(EASING_LABELS) as KeyframeEasing[]).map(easing => (
+                                        <option key={easing} value={easing}>{EASING_LABELS[easing]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Media Controls (Video/Audio) */}
                 {isMedia && (
                     <div className="space-y-4 pt-4 border-t border-gray-200 dark:border-gray-800">
@@ -196,7 +296,10 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                         </div>
                         {!element.props.isMuted && (
                             <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">Volume ({Math.round((element.props.volume ?? 1) * 100)}%)</span>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Volume ({isMixed('props.volume') ? 'Mixed' : `${Math.round((element.props.volume ?? 1) * 100)}%`})</span>
+                                    {renderKeyframeButton('volume')}
+                                </div>
                                 <input
                                     type="range" min="0" max="1" step="0.05"
                                     value={element.props.volume ?? 1}
@@ -205,11 +308,30 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                 />
                             </div>
                         )}
+                        {!element.props.isMuted && (
+                            <div>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Pan ({isMixed('props.pan') ? 'Mixed' : formatPan(element.props.pan ?? 0)})</span>
+                                    {renderKeyframeButton('pan')}
+                                </div>
+                                <input
+                                    type="range" min="-1" max="1" step="0.05"
+                                    value={element.props.pan ?? 0}
+                                    onChange={(e) => handleChange('pan', Number(e.target.value))}
+                                    onDoubleClick={() => handleChange('pan', 0)}
+                                    className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
+                                    title="Double-click to centre"
+                                />
+                            </div>
+                        )}
 
                         {/* Playback Speed - Video and Audio */}
                         {(element.type === ElementType.VIDEO || element.type === ElementType.AUDIO) && (
                             <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">Speed ({element.props.playbackRate ?? 1}x)</span>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Speed ({isMixed('props.playbackRate') ? 'Mixed' : `${Number((element.props.playbackRate ?? 1).toFixed(2))}x`})</span>
+                                    {renderKeyframeButton('playbackRate')}
+                                </div>
                                 <input
                                     type="range" min="0.25" max="4" step="0.25"
                                     value={element.props.playbackRate ?? 1}
@@ -222,6 +344,11 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                     <span>2x</span>
                                     <span>4x</span>
                                 </div>
+                                <p className="text-[10px] text-gray-400 mt-1">
+                                    {element.keyframes?.playbackRate?.length
+                                        ? 'Speed ramp: the clip keeps its length and plays faster or slower between keyframes'
+                                        : 'Keyframe the speed to ramp it, e.g. slow down on a highlight'}
+                                </p>
                             </div>
                         )}
 
@@ -247,7 +374,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                             </button>
                         )}
 
-                        {/* Audio Ducking Controls */}
+                        {/* Sidechain Ducking Controls */}
                         <div className="pt-2 pb-2 border-b border-gray-100 dark:border-gray-800 mb-2">
                             <label className="flex items-center space-x-2">
                                 <input
@@ -256,26 +383,67 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                     onChange={(e) => handleChange('ducking', e.target.checked)}
                                     className="rounded bg-gray-200 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
                                 />
-                                <span className="text-xs font-semibold text-gray-600 dark:text-gray-300">Audio Ducking (Voiceover)</span>
+                                <span className="text-xs font-semibold text-gray-600 dark:text-gray-300">Duck Other Clips (Voiceover)</span>
                             </label>
                             {element.props.ducking && (
-                                <div className="mt-2 pl-4">
-                                    <span className="text-[10px] text-gray-500 dark:text-gray-400">Ducking Level ({Math.round((element.props.duckingThreshold ?? 0.2) * 100)}%)</span>
-                                    <input
-                                        type="range" min="0" max="1" step="0.05"
-                                        value={element.props.duckingThreshold ?? 0.2}
-                                        onChange={(e) => handleChange('duckingThreshold', Number(e.target.value))}
-                                        className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
-                                        title="Volume level of background tracks when this track is playing"
-                                    />
-                                    <p className="text-[9px] text-gray-400 mt-0.5">Background volume during this clip</p>
+                                <div className="mt-2 pl-4 space-y-2">
+                                    <div>
+                                        <span className="text-[10px] text-gray-500 dark:text-gray-400">Threshold ({isMixed('props.duckingThreshold') ? 'Mixed' : `${element.props.duckingThreshold ?? DEFAULT_DUCKING_THRESHOLD} dB`})</span>
+                                        <input
+                                            type="range" min="-60" max="0" step="1"
+                                            value={element.props.duckingThreshold ?? DEFAULT_DUCKING_THRESHOLD}
+                                            onChange={(e) => handleChange('duckingThreshold', Number(e.target.value))}
+                                            className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
+                                            title="Level of this clip above which other clips are ducked"
+                                        />
+                                    </div>
+                                    <div>
+                                        <span className="text-[10px] text-gray-500 dark:text-gray-400">Depth ({isMixed('props.duckingDepth') ? 'Mixed' : `-${element.props.duckingDepth ?? DEFAULT_DUCKING_DEPTH} dB`})</span>
+                                        <input
+                                            type="range" min="0" max={MAX_DUCKING_DEPTH} step="1"
+                                            value={element.props.duckingDepth ?? DEFAULT_DUCKING_DEPTH}
+                                            onChange={(e) => handleChange('duckingDepth', Number(e.target.value))}
+                                            className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
+                                            title="How far other clips are lowered"
+                                        />
+                                    </div>
+                                    <div>
+                                        <span className="text-[10px] text-gray-500 dark:text-gray-400">Attack ({isMixed('props.duckingAttack') ? 'Mixed' : `${Math.round((element.props.duckingAttack ?? DEFAULT_DUCKING_ATTACK) * 1000)} ms`})</span>
+                                        <input
+                                            type="range" min="0.005" max="0.5" step="0.005"
+                                            value={element.props.duckingAttack ?? DEFAULT_DUCKING_ATTACK}
+                                            onChange={(e) => handleChange('duckingAttack', Number(e.target.value))}
+                                            className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
+                                            title="How quickly other clips dip when this clip gets loud"
+                                        />
+                                    </div>
+                                    <div>
+                                        <span className="text-[10px] text-gray-500 dark:text-gray-400">Release ({isMixed('props.duckingRelease') ? 'Mixed' : `${Math.round((element.props.duckingRelease ?? DEFAULT_DUCKING_RELEASE) * 1000)} ms`})</span>
+                                        <input
+                                            type="range" min="0.05" max="2" step="0.05"
+                                            value={element.props.duckingRelease ?? DEFAULT_DUCKING_RELEASE}
+                                            onChange={(e) => handleChange('duckingRelease', Number(e.target.value))}
+                                            className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
+                                            title="How quickly other clips recover once this clip goes quiet"
+                                        />
+                                    </div>
+                                    {onBakeDucking && (
+                                        <button
+                                            onClick={() => onBakeDucking(element.id)}
+                                            className="w-full py-1.5 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-700 rounded text-xs transition"
+                                            title="Write the ducking into volume keyframes on the ducked clips and turn it off here"
+                                        >
+                                            Bake to Volume Keyframes
+                                        </button>
+                                    )}
+                                    <p className="text-[9px] text-gray-400">Other clips dip while this clip is above the threshold</p>
                                 </div>
                             )}
                         </div>
 
                         {/* Audio Fade Controls */}
                         <div className="space-y-2">
-                            <span className="text-xs text-gray-500 dark:text-gray-400">Fade In ({element.props.fadeIn ?? 0}s)</span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">Fade In ({isMixed('props.fadeIn') ? 'Mixed' : `${element.props.fadeIn ?? 0}s`})</span>
                             <input
                                 type="range" min="0" max="5" step="0.1"
                                 value={element.props.fadeIn ?? 0}
@@ -284,7 +452,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                             />
                         </div>
                         <div className="space-y-2">
-                            <span className="text-xs text-gray-500 dark:text-gray-400">Fade Out ({element.props.fadeOut ?? 0}s)</span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">Fade Out ({isMixed('props.fadeOut') ? 'Mixed' : `${element.props.fadeOut ?? 0}s`})</span>
                             <input
                                 type="range" min="0" max="5" step="0.1"
                                 value={element.props.fadeOut ?? 0}
@@ -309,14 +477,39 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                     <div className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-800">
                         <label className="text-xs text-gray-500 uppercase font-bold">🎬 Video Effects</label>
 
-                        {/* Stabilization Toggle */}
+                        {/* Stabilization Toggle (turning it on analyses the clip's video once) */}
                         <button
-                            onClick={() => handleChange('isStabilized', !element.props.isStabilized)}
+                            onClick={() => {
+                                handleChange('isStabilized', !element.props.isStabilized);
+                                if (!element.props.isStabilized) onAnalyzeStabilization?.(element.id);
+                            }}
                             className={`w-full py-1.5 border rounded text-xs transition flex items-center justify-center space-x-1 ${element.props.isStabilized ? 'bg-green-100 dark:bg-green-900/50 text-green-600 dark:text-green-400 border-green-200 dark:border-green-800' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
                         >
                             <span>📷</span>
                             <span>Stabilization</span>
                         </button>
+                        {stabilizationProgress !== undefined ? (
+                            <div className="space-y-1">
+                                <div className="flex justify-between text-[10px] text-gray-400">
+                                    <span>Analysing camera shake… {Math.round(stabilizationProgress * 100)}%</span>
+                                    <button onClick={() => onCancelStabilization?.(element.id)} className="hover:text-red-500">Cancel</button>
+                                </div>
+                                <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-green-500 transition-all" style={{ width: `${stabilizationProgress * 100}%` }} />
+                                </div>
+                            </div>
+                        ) : element.props.isStabilized && (
+                            getStabilization(element.assetId) ? (
+                                <p className="text-[10px] text-gray-400">Zoomed to {Math.round(getStabilization(element.assetId)!.zoom * 100)}% to hide the stabilized edges</p>
+                            ) : (
+                                <button
+                                    onClick={() => onAnalyzeStabilization?.(element.id)}
+                                    className="w-full py-1 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 border border-gray-200 dark:border-gray-700 rounded text-xs text-gray-600 dark:text-gray-400 transition"
+                                >
+                                    Analyse Camera Shake
+                                </button>
+                            )
+                        )}
 
                         {/* Freeze Frame Toggle */}
                         <button
@@ -335,24 +528,39 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                         <label className="text-xs text-gray-500 uppercase font-bold">Transform</label>
                         <div className="grid grid-cols-2 gap-2">
                             <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">X (%)</span>
-                                <input type="number" value={Math.round(element.x)} onChange={(e) => handleGeometryChange('x', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white" />
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">X (%)</span>
+                                    {renderKeyframeButton('x')}
+                                </div>
+                                <input type="number" value={isMixed('x') ? '' : Math.round(element.x)} placeholder={isMixed('x') ? 'Mixed' : undefined} onChange={(e) => handleGeometryChange('x', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white" />
                             </div>
                             <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">Y (%)</span>
-                                <input type="number" value={Math.round(element.y)} onChange={(e) => handleGeometryChange('y', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white" />
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Y (%)</span>
+                                    {renderKeyframeButton('y')}
+                                </div>
+                                <input type="number" value={isMixed('y') ? '' : Math.round(element.y)} placeholder={isMixed('y') ? 'Mixed' : undefined} onChange={(e) => handleGeometryChange('y', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white" />
                             </div>
                             <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">W (%)</span>
-                                <input type="number" value={Math.round(element.width)} onChange={(e) => handleGeometryChange('width', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white" />
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">W (%)</span>
+                                    {renderKeyframeButton('width')}
+                                </div>
+                                <input type="number" value={isMixed('width') ? '' : Math.round(element.width)} placeholder={isMixed('width') ? 'Mixed' : undefined} onChange={(e) => handleGeometryChange('width', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white" />
                             </div>
                             <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">H (%)</span>
-                                <input type="number" value={Math.round(element.height)} onChange={(e) => handleGeometryChange('height', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white" />
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">H (%)</span>
+                                    {renderKeyframeButton('height')}
+                                </div>
+                                <input type="number" value={isMixed('height') ? '' : Math.round(element.height)} placeholder={isMixed('height') ? 'Mixed' : undefined} onChange={(e) => handleGeometryChange('height', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white" />
                             </div>
                             <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">Rotation (°)</span>
-                                <input type="number" value={Math.round(element.rotation)} onChange={(e) => handleGeometryChange('rotation', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white" />
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Rotation (°)</span>
+                                    {renderKeyframeButton('rotation')}
+                                </div>
+                                <input type="number" value={isMixed('rotation') ? '' : Math.round(element.rotation)} placeholder={isMixed('rotation') ? 'Mixed' : undefined} onChange={(e) => handleGeometryChange('rotation', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white" />
                             </div>
                         </div>
 
@@ -422,7 +630,10 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                     />
                                 </div>
                                 <div>
-                                    <span className="text-[10px] text-gray-400">Blur ({element.props.shadowBlur ?? 0}px)</span>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-[10px] text-gray-400">Blur ({isMixed('props.shadowBlur') ? 'Mixed' : `${element.props.shadowBlur ?? 0}px`})</span>
+                                        {renderKeyframeButton('shadowBlur')}
+                                    </div>
                                     <input
                                         type="range" min="0" max="50" step="1"
                                         value={element.props.shadowBlur ?? 0}
@@ -431,7 +642,10 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                     />
                                 </div>
                                 <div>
-                                    <span className="text-[10px] text-gray-400">Offset X</span>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-[10px] text-gray-400">Offset X</span>
+                                        {renderKeyframeButton('shadowX')}
+                                    </div>
                                     <input
                                         type="number" step="1" min="-50" max="50"
                                         value={element.props.shadowX ?? 4}
@@ -440,7 +654,10 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                     />
                                 </div>
                                 <div>
-                                    <span className="text-[10px] text-gray-400">Offset Y</span>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-[10px] text-gray-400">Offset Y</span>
+                                        {renderKeyframeButton('shadowY')}
+                                    </div>
                                     <input
                                         type="number" step="1" min="-50" max="50"
                                         value={element.props.shadowY ?? 4}
@@ -464,13 +681,16 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                     </div>
                 )}
 
-                {/* Video Filters - DaVinci Style */}
+                {/* Effect Stack */}
                 {(element.type === ElementType.VIDEO || element.type === ElementType.IMAGE || element.type === ElementType.ADJUSTMENT) && (
                     <div className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-800">
-                        <label className="text-xs text-gray-500 uppercase font-bold">🎨 Video Filters</label>
+                        <label className="text-xs text-gray-500 uppercase font-bold">🎨 Effects</label>
 
                         <div>
-                            <span className="text-xs text-gray-500 dark:text-gray-400">Opacity ({Math.round((element.props.opacity ?? 1) * 100)}%)</span>
+                            <div className="flex items-center justify-between">
+                                <span className="text-xs text-gray-500 dark:text-gray-400">Opacity ({isMixed('props.opacity') ? 'Mixed' : `${Math.round((element.props.opacity ?? 1) * 100)}%`})</span>
+                                {renderKeyframeButton('opacity')}
+                            </div>
                             <input
                                 type="range" min="0" max="1" step="0.05"
                                 value={element.props.opacity ?? 1}
@@ -479,76 +699,77 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                             />
                         </div>
 
-                        <div>
-                            <span className="text-xs text-gray-500 dark:text-gray-400">Brightness ({Math.round((element.props.brightness ?? 1) * 100)}%)</span>
-                            <input
-                                type="range" min="0" max="2" step="0.05"
-                                value={element.props.brightness ?? 1}
-                                onChange={(e) => handleChange('brightness', Number(e.target.value))}
-                                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
-                            />
-                        </div>
-
-                        <div>
-                            <span className="text-xs text-gray-500 dark:text-gray-400">Contrast ({Math.round((element.props.contrast ?? 1) * 100)}%)</span>
-                            <input
-                                type="range" min="0" max="2" step="0.05"
-                                value={element.props.contrast ?? 1}
-                                onChange={(e) => handleChange('contrast', Number(e.target.value))}
-                                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
-                            />
-                        </div>
-
-                        <div>
-                            <span className="text-xs text-gray-500 dark:text-gray-400">Saturation ({Math.round((element.props.saturation ?? 1) * 100)}%)</span>
-                            <input
-                                type="range" min="0" max="2" step="0.05"
-                                value={element.props.saturation ?? 1}
-                                onChange={(e) => handleChange('saturation', Number(e.target.value))}
-                                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
-                            />
-                        </div>
-
-                        <div>
-                            <span className="text-xs text-gray-500 dark:text-gray-400">Blur ({element.props.blur ?? 0}px)</span>
-                            <input
-                                type="range" min="0" max="20" step="1"
-                                value={element.props.blur ?? 0}
-                                onChange={(e) => handleChange('blur', Number(e.target.value))}
-                                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
-                            />
-                        </div>
+                        {selectionCount > 1 && (
+                            <p className="text-[10px] text-gray-400">Settings apply to the same effects on every selected clip; adding, removing or reordering effects only changes this clip.</p>
+                        )}
 
-                        <div className="grid grid-cols-2 gap-2">
-                            <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">Grayscale</span>
-                                <input
-                                    type="range" min="0" max="1" step="0.1"
-                                    value={element.props.grayscale ?? 0}
-                                    onChange={(e) => handleChange('grayscale', Number(e.target.value))}
-                                    className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
-                                />
-                            </div>
-                            <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">Sepia</span>
-                                <input
-                                    type="range" min="0" max="1" step="0.1"
-                                    value={element.props.sepia ?? 0}
-                                    onChange={(e) => handleChange('sepia', Number(e.target.value))}
-                                    className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
-                                />
-                            </div>
-                        </div>
+                        {effects.map((effect, index) => {
+                            const definition = getEffectDefinition(effect.type);
+                            return (
+                                <div key={effect.id} className={`p-2 space-y-2 rounded border border-gray-200 dark:border-gray-700 transition ${effect.enabled ? '' : 'opacity-50'}`}>
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={effect.enabled}
+                                            onChange={(e) => updateEffects(updateEffect(effects, effect.id, { enabled: e.target.checked }))}
+                                            title={effect.enabled ? 'Bypass effect' : 'Enable effect'}
+                                            className="rounded bg-gray-200 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                                        />
+                                        <span className="flex-1 text-xs font-medium text-gray-700 dark:text-gray-300 truncate">{definition?.label ?? effect.type}</span>
+                                        <button
+                                            onClick={() => updateEffects(moveEffect(effects, effect.id, -1))}
+                                            disabled={index === 0}
+                                            className="text-[10px] text-gray-400 hover:text-gray-700 dark:hover:text-white disabled:opacity-30 transition"
+                                            title="Move up (apply earlier)"
+                                        >
+                                            ▲
+                                        </button>
+                                        <button
+                                            onClick={() => updateEffects(moveEffect(effects, effect.id, 1))}
+                                            disabled={index === effects.length - 1}
+                                            className="text-[10px] text-gray-400 hover:text-gray-700 dark:hover:text-white disabled:opacity-30 transition"
+                                            title="Move down (apply later)"
+                                        >
+                                            ▼
+                                        </button>
+                                        <button
+                                            onClick={() => onUpdate(element.id, removeEffect(element, effect.id))}
+                                            className="text-xs text-gray-400 hover:text-red-500 transition"
+                                            title="Remove effect"
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                    {definition ? definition.params.map(param => (
+                                        <div key={param.key}>
+                                            <div className="flex items-center justify-between">
+                                                <span className="text-xs text-gray-500 dark:text-gray-400">{param.label} ({formatEffectParam(param, getEffectParam(effect, param.key))})</span>
+                                                {renderKeyframeButton(getEffectParamProperty(effect.id, param.key))}
+                                            </div>
+                                            <input
+                                                type="range" min={param.min} max={param.max} step={param.step}
+                                                value={getEffectParam(effect, param.key)}
+                                                onChange={(e) => updateEffects(setEffectParam(effects, effect.id, param.key, Number(e.target.value)))}
+                                                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
+                                            />
+                                        </div>
+                                    )) : (
+                                        <p className="text-[10px] text-gray-400">This effect isn't available in this version and is skipped.</p>
+                                    )}
+                                </div>
+                            );
+                        })}
 
-                        <div>
-                            <span className="text-xs text-gray-500 dark:text-gray-400">Hue Rotate ({element.props.hueRotate ?? 0}°)</span>
-                            <input
-                                type="range" min="0" max="360" step="5"
-                                value={element.props.hueRotate ?? 0}
-                                onChange={(e) => handleChange('hueRotate', Number(e.target.value))}
-                                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
-                            />
-                        </div>
+                        <select
+                            value=""
+                            onChange={(e) => e.target.value && updateEffects([...effects, createEffect(e.target.value)])}
+                            className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white"
+                        >
+                            <option value="">+ Add Effect</option>
+                            {getEffectDefinitions().map(definition => (
+                                <option key={definition.type} value={definition.type}>{definition.label}</option>
+                            ))}
+                        </select>
 
                         <div>
                             <span className="text-xs text-gray-500 dark:text-gray-400">Blend Mode</span>
@@ -574,19 +795,16 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
 
                         <button
                             onClick={() => {
-                                handleChange('opacity', 1);
-                                handleChange('brightness', 1);
-                                handleChange('contrast', 1);
-                                handleChange('saturation', 1);
-                                handleChange('blur', 0);
-                                handleChange('grayscale', 0);
-                                handleChange('sepia', 0);
-                                handleChange('hueRotate', 0);
-                                handleChange('blendMode', 'normal');
+                                // Drop every effect (and its keyframes) in one update
+                                const cleared = effects.reduce<EditorElement>((el, effect) => ({ ...el, ...removeEffect(el, effect.id) }), element);
+                                onUpdate(element.id, {
+                                    props: { ...cleared.props, opacity: 1, blendMode: 'normal' },
+                                    keyframes: cleared.keyframes
+                                });
                             }}
                             className="w-full py-1 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 border border-gray-200 dark:border-gray-700 rounded text-xs text-gray-600 dark:text-gray-400 transition"
                         >
-                            Reset Filters
+                            Reset Effects
                         </button>
                     </div>
                 )}
@@ -597,7 +815,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                         <label className="text-xs text-gray-500 uppercase font-bold">✂️ Crop</label>
                         <div className="grid grid-cols-2 gap-2">
                             <div>
-                                <span className="text-[10px] text-gray-500">Left ({element.props.cropLeft ?? 0}%)</span>
+                                <span className="text-[10px] text-gray-500">Left ({isMixed('props.cropLeft') ? 'Mixed' : `${element.props.cropLeft ?? 0}%`})</span>
                                 <input
                                     type="range" min="0" max="50" step="1"
                                     value={element.props.cropLeft ?? 0}
@@ -606,7 +824,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                 />
                             </div>
                             <div>
-                                <span className="text-[10px] text-gray-500">Right ({element.props.cropRight ?? 0}%)</span>
+                                <span className="text-[10px] text-gray-500">Right ({isMixed('props.cropRight') ? 'Mixed' : `${element.props.cropRight ?? 0}%`})</span>
                                 <input
                                     type="range" min="0" max="50" step="1"
                                     value={element.props.cropRight ?? 0}
@@ -615,7 +833,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                 />
                             </div>
                             <div>
-                                <span className="text-[10px] text-gray-500">Top ({element.props.cropTop ?? 0}%)</span>
+                                <span className="text-[10px] text-gray-500">Top ({isMixed('props.cropTop') ? 'Mixed' : `${element.props.cropTop ?? 0}%`})</span>
                                 <input
                                     type="range" min="0" max="50" step="1"
                                     value={element.props.cropTop ?? 0}
@@ -624,7 +842,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                 />
                             </div>
                             <div>
-                                <span className="text-[10px] text-gray-500">Bottom ({element.props.cropBottom ?? 0}%)</span>
+                                <span className="text-[10px] text-gray-500">Bottom ({isMixed('props.cropBottom') ? 'Mixed' : `${element.props.cropBottom ?? 0}%`})</span>
                                 <input
                                     type="range" min="0" max="50" step="1"
                                     value={element.props.cropBottom ?? 0}
@@ -633,13 +851,25 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                 />
                             </div>
                         </div>
+                        <div className="flex bg-gray-100 dark:bg-gray-800 rounded p-0.5">
+                            {([
+                                { value: 'mask', label: 'Mask Edges' },
+                                { value: 'fill', label: 'Scale to Fill' }
+                            ] as const).map((mode) => (
+                                <button
+                                    key={mode.value}
+                                    onClick={() => handleChange('cropMode', mode.value)}
+                                    className={`flex-1 py-1 rounded text-[10px] font-medium transition ${(element.props.cropMode ?? 'mask') === mode.value ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'}`}
+                                >
+                                    {mode.label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-400">Double-click the clip in the preview to crop with handles</p>
                         <button
-                            onClick={() => {
-                                handleChange('cropLeft', 0);
-                                handleChange('cropRight', 0);
-                                handleChange('cropTop', 0);
-                                handleChange('cropBottom', 0);
-                            }}
+                            onClick={() => onUpdate(element.id, {
+                                props: { ...element.props, cropLeft: 0, cropRight: 0, cropTop: 0, cropBottom: 0 }
+                            })}
                             className="w-full py-1 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 border border-gray-200 dark:border-gray-700 rounded text-xs text-gray-600 dark:text-gray-400 transition"
                         >
                             Reset Crop
@@ -647,6 +877,181 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                     </div>
                 )}
 
+                {/* Chroma Key */}
+                {(element.type === ElementType.VIDEO || element.type === ElementType.IMAGE) && (
+                    <div className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-800">
+                        <label className="text-xs text-gray-500 uppercase font-bold">🟩 Chroma Key</label>
+                        <button
+                            onClick={() => handleChange('chromaKey', !element.props.chromaKey)}
+                            className={`w-full py-1.5 border rounded text-xs transition flex items-center justify-center space-x-1 ${element.props.chromaKey ? 'bg-green-100 dark:bg-green-900/50 text-green-600 dark:text-green-400 border-green-200 dark:border-green-800' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                        >
+                            <span>{element.props.chromaKey ? 'Keying On' : 'Key Out a Colour'}</span>
+                        </button>
+
+                        {element.props.chromaKey && (
+                            <>
+                                <div className="flex items-center space-x-2">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400 flex-1">Key Colour</span>
+                                    <input
+                                        type="color"
+                                        value={element.props.chromaKeyColor ?? DEFAULT_KEY_COLOR}
+                                        onChange={(e) => handleChange('chromaKeyColor', e.target.value)}
+                                        className="w-8 h-6 rounded cursor-pointer border border-gray-200 dark:border-gray-700 bg-transparent"
+                                    />
+                                    <button
+                                        onClick={() => onPickKeyColor?.(element.id)}
+                                        className={`px-2 py-1 border rounded text-xs transition ${isPickingKeyColor ? 'bg-green-500 text-white border-green-600' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                                        title="Pick the colour from the preview"
+                                    >
+                                        🎯 Pick
+                                    </button>
+                                </div>
+                                {isPickingKeyColor && (
+                                    <p className="text-[10px] text-gray-400">Click the screen in the preview (Esc to cancel)</p>
+                                )}
+
+                                <div>
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Tolerance ({isMixed('props.chromaKeyTolerance') ? 'Mixed' : `${Math.round((element.props.chromaKeyTolerance ?? DEFAULT_KEY_TOLERANCE) * 100)}%`})</span>
+                                    <input
+                                        type="range" min="0" max="1" step="0.01"
+                                        value={element.props.chromaKeyTolerance ?? DEFAULT_KEY_TOLERANCE}
+                                        onChange={(e) => handleChange('chromaKeyTolerance', Number(e.target.value))}
+                                        className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
+                                    />
+                                </div>
+                                <div>
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Softness ({isMixed('props.chromaKeySoftness') ? 'Mixed' : `${Math.round((element.props.chromaKeySoftness ?? DEFAULT_KEY_SOFTNESS) * 100)}%`})</span>
+                                    <input
+                                        type="range" min="0" max="1" step="0.01"
+                                        value={element.props.chromaKeySoftness ?? DEFAULT_KEY_SOFTNESS}
+                                        onChange={(e) => handleChange('chromaKeySoftness', Number(e.target.value))}
+                                        className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
+                                    />
+                                </div>
+                                <div>
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Spill Suppression ({isMixed('props.chromaKeySpill') ? 'Mixed' : `${Math.round((element.props.chromaKeySpill ?? DEFAULT_KEY_SPILL) * 100)}%`})</span>
+                                    <input
+                                        type="range" min="0" max="1" step="0.01"
+                                        value={element.props.chromaKeySpill ?? DEFAULT_KEY_SPILL}
+                                        onChange={(e) => handleChange('chromaKeySpill', Number(e.target.value))}
+                                        className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
+                                    />
+                                </div>
+
+                                <button
+                                    onClick={() => handleChange('chromaKeyMatte', !element.props.chromaKeyMatte)}
+                                    className={`w-full py-1 border rounded text-xs transition ${element.props.chromaKeyMatte ? 'bg-gray-900 dark:bg-white text-white dark:text-black border-gray-900 dark:border-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                                >
+                                    {element.props.chromaKeyMatte ? 'Showing Matte (exports too)' : 'Show Matte'}
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {/* Masks & Track Matte */}
+                {element.type !== ElementType.AUDIO && element.type !== ElementType.ADJUSTMENT && (
+                    <div className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-800">
+                        <label className="text-xs text-gray-500 uppercase font-bold">🎭 Masks</label>
+                        <div className="grid grid-cols-3 gap-1.5">
+                            {([
+                                { shape: 'rectangle', icon: '▭' },
+                                { shape: 'ellipse', icon: '◯' },
+                                { shape: 'bezier', icon: '✎' }
+                            ] as const).map(({ shape, icon }) => (
+                                <button
+                                    key={shape}
+                                    onClick={() => onMaskEditChange?.({ elementId: element.id, maskId: editedMaskId, drawing: drawingShape === shape ? null : shape })}
+                                    className={`py-1 border rounded text-[10px] transition ${drawingShape === shape ? 'bg-pink-500 text-white border-pink-600' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                                    title={`Draw a ${MASK_SHAPE_LABELS[shape].toLowerCase()} mask in the preview`}
+                                >
+                                    {icon} {MASK_SHAPE_LABELS[shape]}
+                                </button>
+                            ))}
+                        </div>
+                        {drawingShape && (
+                            <p className="text-[10px] text-gray-400">
+                                {drawingShape === 'bezier'
+                                    ? 'Click points in the preview, drag to curve them. Click the first point or press Enter to close (Esc to cancel)'
+                                    : 'Drag over the clip in the preview (Esc to cancel)'}
+                            </p>
+                        )}
+
+                        {masks.map(mask => {
+                            const isEdited = editedMaskId === mask.id;
+                            const keyframeState: KeyframeState = !mask.keyframes?.length ? 'none' : findMaskKeyframeAt(mask, maskTime) ? 'keyed' : 'animated';
+                            return (
+                                <div key={mask.id} className={`rounded border p-2 space-y-2 ${isEdited ? 'border-pink-500' : 'border-gray-200 dark:border-gray-700'}`}>
+                                    <div className="flex items-center space-x-1">
+                                        <button
+                                            onClick={() => onMaskEditChange?.(isEdited ? null : { elementId: element.id, maskId: mask.id, drawing: null })}
+                                            className="flex-1 text-left text-xs text-gray-700 dark:text-gray-300 truncate hover:text-pink-500"
+                                            title={isEdited ? 'Stop editing points' : 'Edit points in the preview'}
+                                        >
+                                            {mask.name}
+                                        </button>
+                                        <KeyframeButton
+                                            state={keyframeState}
+                                            onToggle={() => updateMask(toggleMaskKeyframe(mask, maskTime))}
+                                            onClear={() => mask.keyframes?.length && updateMask({ ...mask, points: getMaskPoints(mask, maskTime), keyframes: undefined })}
+                                        />
+                                        <button
+                                            onClick={() => updateMask({ ...mask, inverted: !mask.inverted })}
+                                            className={`px-1.5 py-0.5 border rounded text-[10px] transition ${mask.inverted ? 'bg-gray-900 dark:bg-white text-white dark:text-black border-gray-900 dark:border-white' : 'text-gray-500 border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                                            title="Keep what's outside the mask"
+                                        >
+                                            Invert
+                                        </button>
+                                        <button
+                                            onClick={() => deleteMask(mask.id)}
+                                            className="px-1 text-xs text-gray-400 hover:text-red-500 transition"
+                                            title="Delete mask"
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                    <div>
+                                        <span className="text-[10px] text-gray-500">Feather ({mask.feather ?? 0}px)</span>
+                                        <input
+                                            type="range" min="0" max="100" step="1"
+                                            value={mask.feather ?? 0}
+                                            onChange={(e) => updateMask({ ...mask, feather: Number(e.target.value) })}
+                                            className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                                        />
+                                    </div>
+                                    <div>
+                                        <span className="text-[10px] text-gray-500">Expansion ({mask.expansion ?? 0}px)</span>
+                                        <input
+                                            type="range" min="-50" max="50" step="1"
+                                            value={mask.expansion ?? 0}
+                                            onChange={(e) => updateMask({ ...mask, expansion: Number(e.target.value) })}
+                                            className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                                        />
+                                    </div>
+                                </div>
+                            );
+                        })}
+
+                        <div>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">Track Matte</span>
+                            <select
+                                value={element.props.trackMatte ?? 'none'}
+                                onChange={(e) => handleChange('trackMatte', e.target.value === 'none' ? undefined : e.target.value as ElementProps['trackMatte'])}
+                                className="w-full bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white mt-1"
+                            >
+                                <option value="none">None</option>
+                                <option value="alpha">Alpha Matte</option>
+                                <option value="alpha-inverted">Alpha Inverted Matte</option>
+                                <option value="luma">Luma Matte</option>
+                                <option value="luma-inverted">Luma Inverted Matte</option>
+                            </select>
+                            {element.props.trackMatte && (
+                                <p className="text-[10px] text-gray-400 mt-1">Shows this layer through the layer right above it, which is hidden</p>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {/* LUT Presets */}
                 {(element.type === ElementType.VIDEO || element.type === ElementType.IMAGE || element.type === ElementType.ADJUSTMENT) && (
                     <div className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-800">
@@ -664,8 +1069,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                             ] as const).map((lut) => (
                                 <button
                                     key={lut.value}
-                                    onClick={() => handleChange('lutPreset', lut.value)}
-                                    className={`py-1.5 px-2 rounded text-[10px] font-medium border transition ${element.props.lutPreset === lut.value || (!element.props.lutPreset && lut.value === 'none') ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200 dark:border-gray-700 hover:border-gray-400'}`}
+                                    onClick={() => onUpdate(element.id, { props: { ...element.props, lutPreset: lut.value, lutId: undefined } })}
+                                    className={`py-1.5 px-2 rounded text-[10px] font-medium border transition ${!element.props.lutId && (element.props.lutPreset === lut.value || (!element.props.lutPreset && lut.value === 'none')) ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200 dark:border-gray-700 hover:border-gray-400'}`}
                                     style={{
                                         background: lut.value === 'none' ? undefined : `linear-gradient(135deg, ${lut.colors[0]}, ${lut.colors[1]})`
                                     }}
@@ -676,6 +1081,71 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                 </button>
                             ))}
                         </div>
+
+                        {/* Imported .cube LUTs */}
+                        <div className="space-y-1.5">
+                            <div className="flex items-center justify-between">
+                                <span className="text-xs text-gray-500 dark:text-gray-400">Imported LUTs</span>
+                                {onImportLut && (
+                                    <label className="text-[10px] text-blue-500 hover:text-blue-400 cursor-pointer">
+                                        + Import .cube
+                                        <input
+                                            type="file"
+                                            accept=".cube"
+                                            className="hidden"
+                                            onChange={async (e) => {
+                                                const file = e.target.files?.[0];
+                                                e.target.value = ''; // Allow picking the same file again
+                                                if (!file) return;
+                                                const lut = await onImportLut(file);
+                                                if (lut) onUpdate(element.id, { props: { ...element.props, lutId: lut.id } });
+                                            }}
+                                        />
+                                    </label>
+                                )}
+                            </div>
+                            {luts.length === 0 ? (
+                                <p className="text-[10px] text-gray-400">No LUTs imported yet</p>
+                            ) : (
+                                <div className="space-y-1">
+                                    {luts.map((lut) => (
+                                        <div
+                                            key={lut.id}
+                                            className={`flex items-center rounded border text-[10px] transition ${element.props.lutId === lut.id ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200 dark:border-gray-700 hover:border-gray-400'}`}
+                                        >
+                                            <button
+                                                onClick={() => onUpdate(element.id, { props: { ...element.props, lutId: lut.id } })}
+                                                className="flex-1 min-w-0 px-2 py-1.5 text-left truncate text-gray-700 dark:text-gray-300"
+                                                title={lut.name}
+                                            >
+                                                {lut.name}
+                                            </button>
+                                            {onDeleteLut && (
+                                                <button
+                                                    onClick={() => onDeleteLut(lut.id)}
+                                                    className="px-2 text-gray-400 hover:text-red-500"
+                                                    title="Remove from LUT library"
+                                                >
+                                                    ×
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {(element.props.lutId || (element.props.lutPreset && element.props.lutPreset !== 'none')) && (
+                            <div>
+                                <span className="text-xs text-gray-500 dark:text-gray-400">Intensity ({isMixed('props.lutIntensity') ? 'Mixed' : `${Math.round((element.props.lutIntensity ?? 1) * 100)}%`})</span>
+                                <input
+                                    type="range" min="0" max="1" step="0.05"
+                                    value={element.props.lutIntensity ?? 1}
+                                    onChange={(e) => handleChange('lutIntensity', Number(e.target.value))}
+                                    className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mt-1"
+                                />
+                            </div>
+                        )}
                     </div>
                 )}
 
@@ -787,17 +1257,14 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                         </div>
 
                         <button
-                            onClick={() => {
-                                handleChange('liftR', 0);
-                                handleChange('liftG', 0);
-                                handleChange('liftB', 0);
-                                handleChange('gammaR', 0);
-                                handleChange('gammaG', 0);
-                                handleChange('gammaB', 0);
-                                handleChange('gainR', 0);
-                                handleChange('gainG', 0);
-                                handleChange('gainB', 0);
-                            }}
+                            onClick={() => onUpdate(element.id, {
+                                props: {
+                                    ...element.props,
+                                    liftR: 0, liftG: 0, liftB: 0,
+                                    gammaR: 0, gammaG: 0, gammaB: 0,
+                                    gainR: 0, gainG: 0, gainB: 0,
+                                }
+                            })}
                             className="w-full py-1 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 border border-gray-200 dark:border-gray-700 rounded text-xs text-gray-600 dark:text-gray-400 transition"
                         >
                             Reset Color Wheels
@@ -887,7 +1354,10 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                 {/* Letter Spacing & Line Height */}
                                 <div className="grid grid-cols-2 gap-2">
                                     <div>
-                                        <span className="text-xs text-gray-500 dark:text-gray-400">Letter Space</span>
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-xs text-gray-500 dark:text-gray-400">Letter Space</span>
+                                            {renderKeyframeButton('letterSpacing')}
+                                        </div>
                                         <input
                                             type="number" step="0.5" min="-5" max="20"
                                             value={element.props.letterSpacing ?? 0}
@@ -920,7 +1390,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                             />
                                         </div>
                                         <div>
-                                            <span className="text-[10px] text-gray-400">Blur ({element.props.textShadowBlur ?? 0}px)</span>
+                                            <span className="text-[10px] text-gray-400">Blur ({isMixed('props.textShadowBlur') ? 'Mixed' : `${element.props.textShadowBlur ?? 0}px`})</span>
                                             <input
                                                 type="range" min="0" max="20" step="1"
                                                 value={element.props.textShadowBlur ?? 0}
@@ -974,7 +1444,10 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
 
                         <div className="grid grid-cols-2 gap-2">
                             <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">Radius</span>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Radius</span>
+                                    {renderKeyframeButton('borderRadius')}
+                                </div>
                                 <input
                                     type="number"
                                     value={element.props.borderRadius || 0}
@@ -983,7 +1456,10 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ element, onUpdate, on
                                 />
                             </div>
                             <div>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">Opacity</span>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Opacity</span>
+                                    {renderKeyframeButton('opacity')}
+                                </div>
                                 <input
                                     type="range" min="0" max="1" step="0.1"
                                     value={element.props.opacity || 1}
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef } from 'react';
+import { EditorElement, ElementType } from '../../types';
+import { processMediaPixels } from '../../utils/renderer';
+
+interface ProcessedMediaProps {
+  element: EditorElement;
+  style: React.CSSProperties; // Filters, opacity and shadow of the media
+}
+
+/**
+ * Video or image shown through the clip's pixel effects (chroma key, LUT).
+ * The media element stays in the DOM (invisible) so playback sync keeps
+ * driving it, and every new frame is processed onto a canvas in its place.
+ */
+const ProcessedMedia: React.FC<ProcessedMediaProps> = ({ element, style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const propsRef = useRef(element.props);
+  const lastFrameRef = useRef<{ time: number; props: EditorElement['props'] } | null>(null);
+  propsRef.current = element.props;
+
+  useEffect(() => {
+    let frame = 0;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      const image = imageRef.current;
+      const props = propsRef.current;
+
+      let source: HTMLVideoElement | HTMLImageElement | null = null;
+      let width = 0;
+      let height = 0;
+      let time = 0;
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        source = video;
+        width = video.videoWidth;
+        height = video.videoHeight;
+        time = video.currentTime;
+      } else if (image && image.complete && image.naturalWidth > 0) {
+        source = image;
+        width = image.naturalWidth;
+        height = image.naturalHeight;
+      }
+      if (!canvas || !source) return;
+
+      // Only reprocess when the frame or the clip's props changed
+      const last = lastFrameRef.current;
+      if (last && last.time === time && last.props === props && canvas.width === width && canvas.height === height) return;
+      lastFrameRef.current = { time, props };
+
+      const processed = processMediaPixels(props, source, width, height);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(processed ?? source, 0, 0, width, height);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <>
+      {element.type === ElementType.VIDEO ? (
+        <video
+          ref={videoRef}
+          data-element-id={element.id}
+          src={element.props.src}
+          className="absolute inset-0 w-full h-full object-cover opacity-0 pointer-events-none"
+        />
+      ) : (
+        <img ref={imageRef} src={element.props.src} className="hidden" />
+      )}
+      <canvas ref={canvasRef} className="w-full h-full object-cover pointer-events-none" style={style} />
+    </>
+  );
+};
+
+export default ProcessedMedia;
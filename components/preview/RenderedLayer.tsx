@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EditorElement, Track } from '../../types';
+import { renderFrame, LiveFrameSource } from '../../utils/renderer';
+
+interface RenderedLayerProps {
+  elements: EditorElement[]; // Everything the layer composites, back to front
+  tracks: Track[];
+  time: number;
+  width: number; // Stage size in CSS pixels
+  height: number;
+  background?: string;
+  zIndex: number;
+  blendMode?: string; // Blends the canvas with the DOM layers below it
+}
+
+/**
+ * Layers the DOM can't composite, drawn by the export renderer on a canvas
+ * covering the stage so the result matches the export exactly:
+ * - an adjustment layer, given the layers below it, grades them (outside its
+ *   box the canvas shows the same composite as the DOM underneath);
+ * - a track matte pair, given the layer and its matte, shows the matted layer.
+ */
+const RenderedLayer: React.FC<RenderedLayerProps> = ({ elements, tracks, time, width, height, background, zIndex, blendMode }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sourceRef = useRef<LiveFrameSource | null>(null);
+  // Composite off-screen so a half drawn frame is never shown
+  const bufferRef = useRef<HTMLCanvasElement | null>(null);
+  const latestRef = useRef({ elements, tracks, time, width, height, background });
+  const renderingRef = useRef(false);
+  const pendingRef = useRef(false);
+  // Bumped when a media element lands on a new frame after the playhead moved
+  const [frameTick, setFrameTick] = useState(0);
+  latestRef.current = { elements, tracks, time, width, height, background };
+
+  useEffect(() => {
+    const handleFrame = () => setFrameTick(tick => tick + 1);
+    // Media events don't bubble, so listen in the capture phase
+    document.addEventListener('seeked', handleFrame, true);
+    document.addEventListener('loadeddata', handleFrame, true);
+    return () => {
+      document.removeEventListener('seeked', handleFrame, true);
+      document.removeEventListener('loadeddata', handleFrame, true);
+    };
+  }, []);
+
+  useEffect(() => {
+    // One render at a time; changes during a render trigger a single re-render
+    if (renderingRef.current) {
+      pendingRef.current = true;
+      return;
+    }
+
+    const render = async () => {
+      renderingRef.current = true;
+      if (!bufferRef.current) bufferRef.current = document.createElement('canvas');
+      const buffer = bufferRef.current;
+      try {
+        do {
+          pendingRef.current = false;
+          const canvas = canvasRef.current;
+          const latest = latestRef.current;
+          if (!canvas || latest.width <= 0 || latest.height <= 0) break;
+
+          const pixelScale = window.devicePixelRatio || 1;
+          buffer.width = Math.round(latest.width * pixelScale);
+          buffer.height = Math.round(latest.height * pixelScale);
+          if (!sourceRef.current) sourceRef.current = new LiveFrameSource();
+          await renderFrame(buffer.getContext('2d')!, latest.elements, latest.tracks, latest.time, sourceRef.current, {
+            width: buffer.width,
+            height: buffer.height,
+            pixelScale,
+            background: latest.background
+          });
+
+          if (canvas.width !== buffer.width || canvas.height !== buffer.height) {
+            canvas.width = buffer.width;
+            canvas.height = buffer.height;
+          }
+          const ctx = canvas.getContext('2d');
+          ctx?.clearRect(0, 0, canvas.width, canvas.height);
+          ctx?.drawImage(buffer, 0, 0);
+        } while (pendingRef.current);
+      } catch (e) {
+        console.error('Failed to render layer', e);
+      } finally {
+        renderingRef.current = false;
+      }
+    };
+    render();
+  }, [elements, tracks, time, width, height, background, frameTick]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" style={{ zIndex, mixBlendMode: blendMode as React.CSSProperties['mixBlendMode'] }} />;
+};
+
+export default RenderedLayer;
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import { ElementType } from '../../types';
+import { TrimFrame, TrimPreview } from '../../utils/timelineEdits';
+import { formatTimecode } from '../../utils/timecode';
+
+interface TrimPreviewOverlayProps {
+  preview: TrimPreview;
+  fps: number;
+  aspectRatio: number; // Project width / height
+}
+
+// One source frame, seeked on a paused video
+const TrimFrameView: React.FC<{ frame: TrimFrame; fps: number; aspectRatio: number }> = ({ frame, fps, aspectRatio }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { element } = frame;
+  // The out point is the end of the clip, so show the frame before it
+  const sourceTime = frame.edge === 'out' ? Math.max(0, frame.sourceTime - 1 / fps) : frame.sourceTime;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const seek = () => {
+      video.currentTime = Math.min(sourceTime, Math.max(0, video.duration - 1 / fps));
+    };
+    if (video.readyState >= 1) {
+      seek();
+    } else {
+      video.addEventListener('loadedmetadata', seek, { once: true });
+      return () => video.removeEventListener('loadedmetadata', seek);
+    }
+  }, [sourceTime, fps, element.props.src]);
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col items-center">
+      <div className="w-full bg-black border border-gray-700 rounded overflow-hidden flex items-center justify-center" style={{ aspectRatio: `${aspectRatio}` }}>
+        {element.type === ElementType.VIDEO && element.props.src ? (
+          <video ref={videoRef} src={element.props.src} muted preload="auto" className="w-full h-full object-contain" />
+        ) : element.type === ElementType.IMAGE && element.props.src ? (
+          <img src={element.props.src} className="w-full h-full object-contain" draggable={false} />
+        ) : (
+          <span className="text-xs text-gray-400 px-2 truncate">{element.name}</span>
+        )}
+      </div>
+      <div className="mt-1 text-[11px] text-gray-300 font-mono truncate max-w-full">
+        {frame.edge === 'out' ? 'OUT' : 'IN'} {formatTimecode(sourceTime, fps, 0)} · {element.name}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Two-up view shown over the preview while rolling or slipping
+ */
+const TrimPreviewOverlay: React.FC<TrimPreviewOverlayProps> = ({ preview, fps, aspectRatio }) => {
+  return (
+    <div className="absolute inset-0 z-40 bg-black/80 flex items-center justify-center p-6 pointer-events-none">
+      <div className="w-full max-w-4xl flex items-start gap-3">
+        <TrimFrameView frame={preview.before} fps={fps} aspectRatio={aspectRatio} />
+        <TrimFrameView frame={preview.after} fps={fps} aspectRatio={aspectRatio} />
+      </div>
+    </div>
+  );
+};
+
+export default TrimPreviewOverlay;
@@ -1,37 +1,89 @@
 import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
-import { EditorElement, ElementType } from '../../types';
+import { EditorElement, ElementType, Track, ProjectSettings, Mask, MaskVertex } from '../../types';
 import { PlayIcon, PauseIcon } from '../ui/Icons';
+import { getTransitionState, transitionToCss } from '../../utils/transitions';
+import { getRenderableElements, getTrackMatte, buildFilterString, getCropLayout, hasPixelEffects, renderFrame, LiveFrameSource, MIN_CROP_REMAINDER } from '../../utils/renderer';
+import { previewAudio } from '../../utils/audioEngine';
+import { formatTimecode } from '../../utils/timecode';
+import { TrimPreview } from '../../utils/timelineEdits';
+import TrimPreviewOverlay from './TrimPreviewOverlay';
+import ProcessedMedia from './ProcessedMedia';
+import RenderedLayer from './RenderedLayer';
+import { getSelectionMode, getPrimarySelection, SelectionMode } from '../../utils/selection';
+import { getAnimatedElement } from '../../utils/keyframes';
+import { getSourceTime, getPlaybackRate } from '../../utils/timeRemap';
+import { getStabilizationTransform, stabilizationToCss } from '../../utils/stabilization';
+import { rgbToHex } from '../../utils/chromaKey';
+import { buildMaskPath, createBezierMask, createShapeMask, getMaskImage, getMaskPoints, setMaskPoints, MaskEditState, MIN_MASK_SIZE } from '../../utils/masks';
 
 interface VideoPreviewProps {
   currentTime: number;
   isPlaying: boolean;
   elements: EditorElement[];
-  selectedElementId: string | null;
-  onSelectElement: (id: string | null) => void;
+  tracks: Track[];
+  settings: ProjectSettings;
+  selectedElementIds: string[];
+  onSelectElement: (id: string | null, mode?: SelectionMode) => void;
   onUpdateElement: (id: string, updates: Partial<EditorElement>) => void;
   onTimeUpdate: (time: number) => void;
   togglePlay: () => void;
+  trimPreview?: TrimPreview | null; // Frames around the cut while rolling/slipping
+  keyColorPickId?: string | null; // Clip whose chroma key colour is being picked with the eyedropper
+  onPickKeyColor?: (color: string | null) => void; // null when picking is cancelled
+  maskEdit?: MaskEditState | null; // Mask being drawn or edited on the canvas
+  onMaskEditChange?: (state: MaskEditState | null) => void;
 }
 
 export interface VideoPreviewHandle {
-  captureStream: (fps: number) => MediaStream;
+  // On-screen size of the composition, used to scale pixel based styles on export
+  getStageSize: () => { width: number; height: number };
 }
 
+// Playing media is only re-seeked once it drifts this far (seconds) from the timeline
+const DRIFT_TOLERANCE = 0.3;
+// Paused, reversed and frozen media follows the playhead this closely
+const SEEK_TOLERANCE = 0.02;
+// Playback rates browsers accept on media elements
+const MIN_MEDIA_RATE = 0.0625;
+const MAX_MEDIA_RATE = 16;
+
+// Room reserved for the transport controls below the stage
+const STAGE_VERTICAL_MARGIN = 120;
+
+// Clicking this close (pixels) to the first point of a bezier mask closes it
+const CLOSE_PATH_DISTANCE = 8;
+
+// Position on an element's own axes, as fractions of its box
+type BoxPoint = { x: number; y: number };
+
+// Transparent backgrounds are shown as a checkerboard
+const CHECKERBOARD = 'conic-gradient(#e5e7eb 25%, #ffffff 0 50%, #e5e7eb 0 75%, #ffffff 0)';
+
 const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
   currentTime,
   isPlaying,
   elements,
-  selectedElementId,
+  tracks,
+  settings,
+  selectedElementIds,
   onSelectElement,
   onUpdateElement,
   onTimeUpdate,
-  togglePlay
+  togglePlay,
+  trimPreview,
+  keyColorPickId,
+  onPickKeyColor,
+  maskEdit,
+  onMaskEditChange
 }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
 
   // Dragging State
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [dragStartPositions, setDragStartPositions] = useState<{ id: string; x: number; y: number }[]>([]);
 
   // Resizing State
   const [isResizing, setIsResizing] = useState(false);
@@ -39,18 +91,47 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
   const [initialElementState, setInitialElementState] = useState<{ x: number, y: number, w: number, h: number, r: number } | null>(null);
   const [startMousePos, setStartMousePos] = useState({ x: 0, y: 0 });
 
+  // Crop editing: the element showing crop handles instead of resize handles
+  const [cropElementId, setCropElementId] = useState<string | null>(null);
+  const [cropDrag, setCropDrag] = useState<{
+    handle: string;
+    startX: number;
+    startY: number;
+    boxWidth: number; // Element size on screen, in pixels
+    boxHeight: number;
+    crop: { left: number; right: number; top: number; bottom: number };
+  } | null>(null);
+
+  // Mask drawing: the box being dragged out, or the points of a bezier placed so far
+  const [maskBoxDraft, setMaskBoxDraft] = useState<{ start: BoxPoint; end: BoxPoint } | null>(null);
+  const [bezierDraft, setBezierDraft] = useState<MaskVertex[]>([]);
+  const [isPullingHandle, setIsPullingHandle] = useState(false);
+  // Mask editing: a point or one of its bezier handles being dragged
+  const [maskDrag, setMaskDrag] = useState<{
+    maskId: string;
+    index: number;
+    part: 'point' | 'in' | 'out';
+    start: BoxPoint;
+    points: MaskVertex[];
+  } | null>(null);
+
   useImperativeHandle(ref, () => ({
-    captureStream: (fps: number) => {
-      if (containerRef.current) {
-        const videoEl = document.querySelector('video') as HTMLVideoElement;
-        if (videoEl && (videoEl as any).captureStream) {
-          return (videoEl as any).captureStream(fps);
-        }
-      }
-      throw new Error("Export unavailable in this environment");
+    getStageSize: () => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      return { width: rect?.width || 1, height: rect?.height || 1 };
     }
   }));
 
+  // Track the space available to the stage so it can be letterboxed
+  useEffect(() => {
+    if (!viewportRef.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(viewportRef.current);
+    return () => observer.disconnect();
+  }, []);
+
   // -- Audio / Video Sync Logic --
   useEffect(() => {
     const mediaElements = document.querySelectorAll('video, audio');
@@ -59,50 +140,66 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
       const element = elements.find(e => e.id === id);
 
       if (element) {
+        // Volume, fades and ducking are mixed on the clip's gain in the audio engine
+        previewAudio.attach(element, el);
         if (currentTime >= element.startTime && currentTime <= element.startTime + element.duration) {
-          const targetTime = (currentTime - element.startTime) + element.mediaOffset;
-          if (Math.abs(el.currentTime - targetTime) > 0.3) {
+          const targetTime = getSourceTime(element, currentTime);
+          // Media elements can't play backwards or hold a frame, so those clips stay
+          // paused and are seeked to every frame instead; the audio engine plays
+          // reversed audio from a buffer
+          const isSeekedOnly = !!(element.props.isReversed || element.props.isFreezeFrame);
+          const tolerance = isSeekedOnly || !isPlaying ? SEEK_TOLERANCE : DRIFT_TOLERANCE;
+          if (Math.abs(el.currentTime - targetTime) > tolerance && !(isSeekedOnly && el.seeking)) {
             el.currentTime = targetTime;
           }
-          if (isPlaying && el.paused) {
+          if (isPlaying && el.paused && !isSeekedOnly) {
             el.play().catch(() => { });
-          } else if (!isPlaying && !el.paused) {
+          } else if ((!isPlaying || isSeekedOnly) && !el.paused) {
             el.pause();
           }
 
-          let effectiveVolume = element.props.volume ?? 1;
-
-          // Audio Ducking Logic
-          // Check if any *other* currently playing element has ducking enabled
-          const activeDuckingSource = elements.find(e =>
-            e.id !== element.id &&
-            (e.type === ElementType.VIDEO || e.type === ElementType.AUDIO) &&
-            e.props.ducking &&
-            currentTime >= e.startTime &&
-            currentTime <= e.startTime + e.duration
-          );
-
-          if (activeDuckingSource) {
-            // Apply ducking threshold (default 0.2 if not set)
-            effectiveVolume *= (activeDuckingSource.props.duckingThreshold ?? 0.2);
-          }
+          // Apply playback rate (speed control, following a speed ramp), optionally keeping the pitch
+          const rate = getPlaybackRate(element, currentTime - element.startTime);
+          el.playbackRate = Math.min(MAX_MEDIA_RATE, Math.max(MIN_MEDIA_RATE, rate));
+          el.preservesPitch = !!element.props.preservePitch;
 
-          el.volume = effectiveVolume;
-          el.muted = element.props.isMuted ?? false;
-          // Apply playback rate (speed control)
-          el.playbackRate = element.props.playbackRate ?? 1;
+          // Stabilization follows the frame the video is actually showing, which can drift from the playhead
+          const content = (el as HTMLElement).closest<HTMLElement>('[data-stabilize]');
+          if (content) {
+            const transform = getStabilizationTransform(element, el.currentTime, content.offsetWidth / Math.max(1, content.offsetHeight));
+            content.style.transform = transform ? stabilizationToCss(transform) : '';
+          }
         } else {
           if (!el.paused) el.pause();
         }
       }
     });
-  }, [currentTime, isPlaying, elements]);
+    previewAudio.sync(elements, tracks, currentTime, isPlaying);
+  }, [currentTime, isPlaying, elements, tracks]);
 
 
   const handleElementMouseDown = (e: React.MouseEvent, element: EditorElement) => {
     e.stopPropagation();
     e.preventDefault(); // Prevent default text selection
-    onSelectElement(element.id);
+
+    // Cmd/Ctrl+click only toggles the element in the selection
+    const selectionMode = getSelectionMode(e);
+    if (selectionMode === 'toggle') {
+      onSelectElement(element.id, 'toggle');
+      return;
+    }
+    // Pressing on a selected element keeps the group so it moves together
+    const keepGroup = selectionMode === 'add' || selectedElementIds.includes(element.id);
+    onSelectElement(element.id, keepGroup ? 'add' : 'replace');
+
+    const movingIds = keepGroup ? [...selectedElementIds.filter(id => id !== element.id), element.id] : [element.id];
+    setDragStartPositions(elements
+      .filter(el => movingIds.includes(el.id))
+      .map(el => {
+        // Start from the values on screen, which may be animated
+        const animated = getAnimatedElement(el, currentTime);
+        return { id: el.id, x: animated.x, y: animated.y };
+      }));
     setIsDragging(true);
     setDragOffset({
       x: e.clientX,
@@ -132,9 +229,154 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
     });
   };
 
+  const handleCropMouseDown = (e: React.MouseEvent, handle: string, element: EditorElement) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setCropDrag({
+      handle,
+      startX: e.clientX,
+      startY: e.clientY,
+      boxWidth: (element.width / 100) * rect.width,
+      boxHeight: (element.height / 100) * rect.height,
+      crop: {
+        left: element.props.cropLeft ?? 0,
+        right: element.props.cropRight ?? 0,
+        top: element.props.cropTop ?? 0,
+        bottom: element.props.cropBottom ?? 0
+      }
+    });
+  };
+
+  // Screen position on an element's own axes (rotation and flips undone)
+  const toBoxPoint = (el: EditorElement, clientX: number, clientY: number): BoxPoint | null => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const w = (el.width / 100) * rect.width;
+    const h = (el.height / 100) * rect.height;
+    if (w <= 0 || h <= 0) return null;
+    const rad = (el.rotation * Math.PI) / 180;
+    const deltaX = clientX - (rect.left + (el.x / 100) * rect.width + w / 2);
+    const deltaY = clientY - (rect.top + (el.y / 100) * rect.height + h / 2);
+    const localX = (deltaX * Math.cos(rad) + deltaY * Math.sin(rad)) * (el.flipX ? -1 : 1);
+    const localY = (deltaY * Math.cos(rad) - deltaX * Math.sin(rad)) * (el.flipY ? -1 : 1);
+    return { x: localX / w + 0.5, y: localY / h + 0.5 };
+  };
+
+  const handleMaskPointMouseDown = (e: React.MouseEvent, el: EditorElement, mask: Mask, index: number, part: 'point' | 'in' | 'out') => {
+    e.stopPropagation();
+    e.preventDefault();
+    const start = toBoxPoint(el, e.clientX, e.clientY);
+    if (!start) return;
+    setMaskDrag({ maskId: mask.id, index, part, start, points: getMaskPoints(mask, currentTime - el.startTime) });
+  };
+
+  // Escape cancels the chroma key eyedropper
+  useEffect(() => {
+    if (!keyColorPickId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onPickKeyColor?.(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keyColorPickId, onPickKeyColor]);
+
+  // Leave crop and mask editing when the element is no longer the primary selection
+  const primarySelectionId = getPrimarySelection(selectedElementIds);
+  useEffect(() => {
+    if (cropElementId && cropElementId !== primarySelectionId) setCropElementId(null);
+  }, [cropElementId, primarySelectionId]);
+  useEffect(() => {
+    if (maskEdit && maskEdit.elementId !== primarySelectionId) onMaskEditChange?.(null);
+  }, [maskEdit, primarySelectionId]);
+
+  // Start every mask drawing from scratch
   useEffect(() => {
+    setMaskBoxDraft(null);
+    setBezierDraft([]);
+    setIsPullingHandle(false);
+  }, [maskEdit?.elementId, maskEdit?.drawing]);
+
+  // Moving mask points and handles
+  useEffect(() => {
+    if (!maskDrag) return;
+    const element = elements.find(el => el.id === maskEdit?.elementId);
+
     const handleMouseMove = (e: MouseEvent) => {
-      if (!containerRef.current || !selectedElementId || !initialElementState) return;
+      if (!element?.masks) return;
+      const point = toBoxPoint(getAnimatedElement(element, currentTime), e.clientX, e.clientY);
+      if (!point) return;
+      const dx = point.x - maskDrag.start.x;
+      const dy = point.y - maskDrag.start.y;
+      const points = maskDrag.points.map((p, i) => {
+        if (i !== maskDrag.index) return p;
+        if (maskDrag.part === 'point') return { ...p, x: p.x + dx, y: p.y + dy };
+        // Handles stay mirrored so the curve runs smoothly through the point; Alt breaks the tangent
+        const handleX = (maskDrag.part === 'in' ? p.inX : p.outX) ?? 0;
+        const handleY = (maskDrag.part === 'in' ? p.inY : p.outY) ?? 0;
+        const moved = { x: handleX + dx, y: handleY + dy };
+        if (maskDrag.part === 'in') {
+          return { ...p, inX: moved.x, inY: moved.y, ...(!e.altKey && { outX: -moved.x, outY: -moved.y }) };
+        }
+        return { ...p, outX: moved.x, outY: moved.y, ...(!e.altKey && { inX: -moved.x, inY: -moved.y }) };
+      });
+      const localTime = Math.min(Math.max(0, currentTime - element.startTime), element.duration);
+      onUpdateElement(element.id, {
+        masks: element.masks.map(m => m.id === maskDrag.maskId ? setMaskPoints(m, points, localTime) : m)
+      });
+    };
+    const handleMouseUp = () => setMaskDrag(null);
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [maskDrag, maskEdit, elements, currentTime]);
+
+  useEffect(() => {
+    if (!cropDrag) return;
+    const element = elements.find(el => el.id === cropElementId);
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!element || cropDrag.boxWidth <= 0 || cropDrag.boxHeight <= 0) return;
+
+      // Screen delta on the element's own axes, as a percentage of its size
+      const rad = (element.rotation * Math.PI) / 180;
+      const deltaX = e.clientX - cropDrag.startX;
+      const deltaY = e.clientY - cropDrag.startY;
+      const localX = (deltaX * Math.cos(rad) + deltaY * Math.sin(rad)) * (element.flipX ? -1 : 1);
+      const localY = (deltaY * Math.cos(rad) - deltaX * Math.sin(rad)) * (element.flipY ? -1 : 1);
+      const dx = (localX / cropDrag.boxWidth) * 100;
+      const dy = (localY / cropDrag.boxHeight) * 100;
+
+      const maxCrop = 100 - MIN_CROP_REMAINDER * 100;
+      const clampCrop = (value: number, opposite: number) => Math.round(Math.min(Math.max(0, value), maxCrop - opposite) * 10) / 10;
+      const { handle, crop } = cropDrag;
+      const updates: Partial<EditorElement['props']> = {};
+      if (handle.includes('w')) updates.cropLeft = clampCrop(crop.left + dx, crop.right);
+      if (handle.includes('e')) updates.cropRight = clampCrop(crop.right - dx, crop.left);
+      if (handle.includes('n')) updates.cropTop = clampCrop(crop.top + dy, crop.bottom);
+      if (handle.includes('s')) updates.cropBottom = clampCrop(crop.bottom - dy, crop.top);
+      // Other props as they are at the playhead, so keyframed ones aren't re-keyed there
+      onUpdateElement(element.id, { props: { ...getAnimatedElement(element, currentTime).props, ...updates } });
+    };
+    const handleMouseUp = () => setCropDrag(null);
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [cropDrag, cropElementId, elements, currentTime]);
+
+  useEffect(() => {
+    const handleMouseMove = (e: MouseEvent) => {
+      const primaryId = getPrimarySelection(selectedElementIds);
+      if (!containerRef.current || !primaryId || !initialElementState) return;
       const rect = containerRef.current.getBoundingClientRect();
 
       if (isDragging) {
@@ -145,10 +387,10 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
         const deltaXPercent = (deltaX / rect.width) * 100;
         const deltaYPercent = (deltaY / rect.height) * 100;
 
-        onUpdateElement(selectedElementId, {
-          x: initialElementState.x + deltaXPercent,
-          y: initialElementState.y + deltaYPercent
-        });
+        dragStartPositions.forEach(start => onUpdateElement(start.id, {
+          x: start.x + deltaXPercent,
+          y: start.y + deltaYPercent
+        }));
 
       } else if (isResizing && resizeHandle) {
         // Resize Logic with Rotation Support
@@ -215,7 +457,7 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
         if (resizeHandle.includes('s')) applyYChange(ldYPercent, false);
         if (resizeHandle.includes('n')) applyYChange(ldYPercent, true);
 
-        onUpdateElement(selectedElementId, {
+        onUpdateElement(primaryId, {
           x: newX,
           y: newY,
           width: Math.max(1, newW),
@@ -238,82 +480,16 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, isResizing, selectedElementId, dragOffset, startMousePos, initialElementState]);
-
-
-  const renderVisualElement = (el: EditorElement) => {
-    if (currentTime < el.startTime || currentTime > el.startTime + el.duration) return null;
-    if (el.type === ElementType.AUDIO) return null;
-
-    const isSelected = selectedElementId === el.id;
-
-    // Calculate transition effects
-    const elapsedTime = currentTime - el.startTime;
-    const remainingTime = (el.startTime + el.duration) - currentTime;
-    let transitionOpacity = 1;
-    let transitionTransform = '';
-
-    // Transition In
-    if (el.transitionIn && el.transitionIn.type !== 'none' && elapsedTime < el.transitionIn.duration) {
-      const progress = elapsedTime / el.transitionIn.duration;
-      switch (el.transitionIn.type) {
-        case 'fade':
-        case 'dissolve':
-          transitionOpacity = progress;
-          break;
-        case 'zoom-in':
-          transitionOpacity = progress;
-          transitionTransform = `scale(${0.5 + 0.5 * progress})`;
-          break;
-        case 'zoom-out':
-          transitionOpacity = progress;
-          transitionTransform = `scale(${1.5 - 0.5 * progress})`;
-          break;
-        case 'wipe-left':
-          transitionTransform = `translateX(${(1 - progress) * 100}%)`;
-          break;
-        case 'wipe-right':
-          transitionTransform = `translateX(${(progress - 1) * 100}%)`;
-          break;
-        case 'wipe-up':
-          transitionTransform = `translateY(${(1 - progress) * 100}%)`;
-          break;
-        case 'wipe-down':
-          transitionTransform = `translateY(${(progress - 1) * 100}%)`;
-          break;
-      }
-    }
+  }, [isDragging, isResizing, selectedElementIds, dragOffset, dragStartPositions, startMousePos, initialElementState]);
 
-    // Transition Out
-    if (el.transitionOut && el.transitionOut.type !== 'none' && remainingTime < el.transitionOut.duration) {
-      const progress = remainingTime / el.transitionOut.duration;
-      switch (el.transitionOut.type) {
-        case 'fade':
-        case 'dissolve':
-          transitionOpacity = Math.min(transitionOpacity, progress);
-          break;
-        case 'zoom-in':
-          transitionOpacity = Math.min(transitionOpacity, progress);
-          transitionTransform = `scale(${1.5 - 0.5 * progress})`;
-          break;
-        case 'zoom-out':
-          transitionOpacity = Math.min(transitionOpacity, progress);
-          transitionTransform = `scale(${0.5 + 0.5 * progress})`;
-          break;
-        case 'wipe-left':
-          transitionTransform = `translateX(${(progress - 1) * 100}%)`;
-          break;
-        case 'wipe-right':
-          transitionTransform = `translateX(${(1 - progress) * 100}%)`;
-          break;
-        case 'wipe-up':
-          transitionTransform = `translateY(${(progress - 1) * 100}%)`;
-          break;
-        case 'wipe-down':
-          transitionTransform = `translateY(${(1 - progress) * 100}%)`;
-          break;
-      }
-    }
+
+  const renderVisualElement = (el: EditorElement, order: number, isComposited: boolean) => {
+    const isSelected = selectedElementIds.includes(el.id);
+    const isPrimary = getPrimarySelection(selectedElementIds) === el.id;
+    const localTime = currentTime - el.startTime;
+
+    // Calculate transition effects (shared with the export renderer)
+    const transition = getTransitionState(el, currentTime);
 
     const style: React.CSSProperties = {
       position: 'absolute',
@@ -323,18 +499,20 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
       height: `${el.height}%`,
       transform: [
         `rotate(${el.rotation}deg)`,
-        transitionTransform,
+        transitionToCss(transition),
         el.flipX ? 'scaleX(-1)' : '',
         el.flipY ? 'scaleY(-1)' : ''
       ].filter(Boolean).join(' '),
       cursor: isSelected ? 'move' : 'default',
-      zIndex: 10 + (el.zIndex ?? 0),
+      zIndex: 10 + order,
       border: isSelected ? '2px solid #3b82f6' : 'none',
       display: 'flex',
       alignItems: 'center',
       justifyContent: 'center',
       boxSizing: 'border-box',
-      opacity: transitionOpacity,
+      opacity: transition.opacity,
+      // Blend Mode (on the positioned wrapper so it blends with the layers below)
+      mixBlendMode: el.props.blendMode as React.CSSProperties['mixBlendMode'] || undefined,
     };
 
     const contentStyle: React.CSSProperties = {
@@ -363,18 +541,51 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
       // Drop shadow (box-shadow)
       boxShadow: el.props.shadowColor ?
         `${el.props.shadowX ?? 4}px ${el.props.shadowY ?? 4}px ${el.props.shadowBlur ?? 10}px ${el.props.shadowColor}` : undefined,
-      // DaVinci-style CSS Filters
-      filter: (el.type === ElementType.VIDEO || el.type === ElementType.IMAGE) ? [
-        el.props.blur ? `blur(${el.props.blur}px)` : '',
-        el.props.brightness !== undefined && el.props.brightness !== 1 ? `brightness(${el.props.brightness})` : '',
-        el.props.contrast !== undefined && el.props.contrast !== 1 ? `contrast(${el.props.contrast})` : '',
-        el.props.saturation !== undefined && el.props.saturation !== 1 ? `saturate(${el.props.saturation})` : '',
-        el.props.grayscale ? `grayscale(${el.props.grayscale})` : '',
-        el.props.sepia ? `sepia(${el.props.sepia})` : '',
-        el.props.hueRotate ? `hue-rotate(${el.props.hueRotate}deg)` : '',
-      ].filter(Boolean).join(' ') || undefined : undefined,
-      // Blend Mode
-      mixBlendMode: el.props.blendMode as React.CSSProperties['mixBlendMode'] || undefined,
+    };
+
+    // Media (video/image) sits in a frame cut to the crop, with the full picture positioned inside it.
+    // While its crop is being edited, the picture is shown uncropped around the crop box.
+    const isMedia = (el.type === ElementType.VIDEO || el.type === ElementType.IMAGE) && !!el.props.src;
+    const isCropping = isPrimary && cropElementId === el.id;
+    const crop = getCropLayout(el.props, isCropping ? 'mask' : undefined);
+    const mediaFrameStyle: React.CSSProperties = {
+      position: 'absolute',
+      left: `${crop.frame.x * 100}%`,
+      top: `${crop.frame.y * 100}%`,
+      width: `${crop.frame.width * 100}%`,
+      height: `${crop.frame.height * 100}%`,
+      overflow: 'hidden',
+      borderRadius: contentStyle.borderRadius,
+      opacity: el.props.opacity ?? 1,
+      boxShadow: contentStyle.boxShadow,
+    };
+    const mediaContentStyle: React.CSSProperties = {
+      position: 'absolute',
+      left: `${((crop.content.x - crop.frame.x) / crop.frame.width) * 100}%`,
+      top: `${((crop.content.y - crop.frame.y) / crop.frame.height) * 100}%`,
+      width: `${(crop.content.width / crop.frame.width) * 100}%`,
+      height: `${(crop.content.height / crop.frame.height) * 100}%`,
+    };
+    // Effect stack and color grade, as CSS / SVG filters on the media element
+    const mediaStyle: React.CSSProperties = {
+      filter: buildFilterString(el.props, 1, localTime) || undefined,
+    };
+
+    // Media with a chroma key or LUT is processed onto a canvas
+    const isProcessed = isMedia && hasPixelEffects(el.props);
+
+    // Masks cut the content (not the handles); layers a RenderedLayer draws are hidden here
+    const maskImage = getMaskImage(el.masks, localTime, (el.width / 100) * stageWidth, (el.height / 100) * stageHeight);
+    const layerStyle: React.CSSProperties = {
+      position: 'absolute',
+      inset: 0,
+      maskImage,
+      WebkitMaskImage: maskImage,
+      maskSize: '100% 100%',
+      WebkitMaskSize: '100% 100%',
+      maskRepeat: 'no-repeat',
+      WebkitMaskRepeat: 'no-repeat',
+      opacity: isComposited ? 0 : undefined,
     };
 
     // AI Generated Custom HTML
@@ -383,9 +594,122 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
       ? el.props.customCss.replace(/\.root/g, `.gen-${el.id}`)
       : '';
 
+    // Crop handles: bars on the edges and corners of the crop box
+    const renderCropHandles = () => {
+      const left = el.props.cropLeft ?? 0;
+      const right = el.props.cropRight ?? 0;
+      const top = el.props.cropTop ?? 0;
+      const bottom = el.props.cropBottom ?? 0;
+      const midX = left + (100 - left - right) / 2;
+      const midY = top + (100 - top - bottom) / 2;
+      const hStyle = "absolute bg-white border border-amber-500 rounded-sm z-20 pointer-events-auto -translate-x-1/2 -translate-y-1/2 hover:bg-amber-100";
+      const handles: { handle: string; x: number; y: number; className: string }[] = [
+        { handle: 'nw', x: left, y: top, className: 'w-3 h-3 cursor-nw-resize' },
+        { handle: 'n', x: midX, y: top, className: 'w-6 h-1.5 cursor-n-resize' },
+        { handle: 'ne', x: 100 - right, y: top, className: 'w-3 h-3 cursor-ne-resize' },
+        { handle: 'e', x: 100 - right, y: midY, className: 'w-1.5 h-6 cursor-e-resize' },
+        { handle: 'se', x: 100 - right, y: 100 - bottom, className: 'w-3 h-3 cursor-se-resize' },
+        { handle: 's', x: midX, y: 100 - bottom, className: 'w-6 h-1.5 cursor-s-resize' },
+        { handle: 'sw', x: left, y: 100 - bottom, className: 'w-3 h-3 cursor-sw-resize' },
+        { handle: 'w', x: left, y: midY, className: 'w-1.5 h-6 cursor-w-resize' },
+      ];
+      return (
+        <>
+          <div className="absolute inset-0 border border-dashed border-amber-400/70 pointer-events-none z-20" />
+          <div
+            className="absolute border-2 border-amber-500 pointer-events-none z-20"
+            style={{ left: `${left}%`, top: `${top}%`, right: `${right}%`, bottom: `${bottom}%` }}
+          />
+          {handles.map(({ handle, x, y, className }) => (
+            <div
+              key={handle}
+              className={`${hStyle} ${className}`}
+              style={{ left: `${x}%`, top: `${y}%` }}
+              onMouseDown={(e) => handleCropMouseDown(e, handle, el)}
+            />
+          ))}
+        </>
+      );
+    };
+
+    // Mask paths over the box: the shape being drawn, or the masks with the edited one's points
+    const renderMaskOverlay = () => {
+      const svgClass = "absolute inset-0 w-full h-full overflow-visible pointer-events-none z-20";
+      const pointClass = "absolute w-2.5 h-2.5 bg-white border border-pink-500 z-20 pointer-events-auto cursor-move -translate-x-1/2 -translate-y-1/2 hover:bg-pink-100";
+      const handleClass = "absolute w-2 h-2 bg-pink-500 rounded-full z-20 pointer-events-auto cursor-pointer -translate-x-1/2 -translate-y-1/2";
+      const at = (x: number, y: number): React.CSSProperties => ({ left: `${x * 100}%`, top: `${y * 100}%` });
+
+      if (maskEdit?.drawing) {
+        let draft = '';
+        if (maskBoxDraft && maskEdit.drawing !== 'bezier') {
+          const { start, end } = maskBoxDraft;
+          const bounds = { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y), width: Math.abs(end.x - start.x), height: Math.abs(end.y - start.y) };
+          draft = buildMaskPath(createShapeMask(el, maskEdit.drawing === 'ellipse' ? 'ellipse' : 'rectangle', bounds).points, 100, 100);
+        } else if (bezierDraft.length > 0) {
+          draft = buildMaskPath(bezierDraft, 100, 100, false);
+        }
+        return (
+          <>
+            <svg className={svgClass} viewBox="0 0 100 100" preserveAspectRatio="none">
+              {draft && <path d={draft} fill="rgba(236, 72, 153, 0.15)" stroke="#ec4899" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />}
+            </svg>
+            {bezierDraft.map((p, i) => (
+              <div key={i} className={`${pointClass} ${i === 0 ? 'rounded-full' : ''}`} style={at(p.x, p.y)} />
+            ))}
+          </>
+        );
+      }
+
+      const masks = el.masks || [];
+      const active = masks.find(m => m.id === maskEdit?.maskId);
+      const points = active ? getMaskPoints(active, localTime) : [];
+      const hasHandles = (p: MaskVertex) => !!(p.inX || p.inY || p.outX || p.outY);
+      return (
+        <>
+          <svg className={svgClass} viewBox="0 0 100 100" preserveAspectRatio="none">
+            {masks.map(mask => (
+              <path
+                key={mask.id}
+                d={buildMaskPath(getMaskPoints(mask, localTime), 100, 100)}
+                fill="none"
+                stroke="#ec4899"
+                strokeOpacity={mask === active ? 1 : 0.5}
+                strokeWidth={mask === active ? 1.5 : 1}
+                strokeDasharray={mask === active ? undefined : '4 3'}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {points.filter(hasHandles).map((p, i) => (
+              <path
+                key={i}
+                d={`M ${(p.x + (p.inX ?? 0)) * 100} ${(p.y + (p.inY ?? 0)) * 100} L ${p.x * 100} ${p.y * 100} L ${(p.x + (p.outX ?? 0)) * 100} ${(p.y + (p.outY ?? 0)) * 100}`}
+                fill="none"
+                stroke="#ec4899"
+                strokeWidth={1}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+          {active && points.map((p, i) => (
+            <React.Fragment key={i}>
+              {hasHandles(p) && (
+                <>
+                  <div className={handleClass} style={at(p.x + (p.inX ?? 0), p.y + (p.inY ?? 0))} onMouseDown={(e) => handleMaskPointMouseDown(e, el, active, i, 'in')} title="Drag to curve (Alt: this side only)" />
+                  <div className={handleClass} style={at(p.x + (p.outX ?? 0), p.y + (p.outY ?? 0))} onMouseDown={(e) => handleMaskPointMouseDown(e, el, active, i, 'out')} title="Drag to curve (Alt: this side only)" />
+                </>
+              )}
+              <div className={pointClass} style={at(p.x, p.y)} onMouseDown={(e) => handleMaskPointMouseDown(e, el, active, i, 'point')} />
+            </React.Fragment>
+          ))}
+        </>
+      );
+    };
+
     // Render Resize Handles
     const renderHandles = () => {
-      if (!isSelected) return null;
+      if (!isPrimary) return null;
+      if (isCropping) return renderCropHandles();
+      if (maskEdit?.elementId === el.id) return renderMaskOverlay();
       const hStyle = "absolute w-3 h-3 bg-white border border-blue-500 rounded-full z-20 pointer-events-auto hover:bg-blue-100 hover:scale-125 transition-transform";
       return (
         <>
@@ -402,62 +726,283 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
     }
 
     return (
-      <div key={el.id} style={style} onMouseDown={(e) => handleElementMouseDown(e, el)}>
-
-        {el.type === ElementType.VIDEO && el.props.src && (
-          <video
-            data-element-id={el.id}
-            src={el.props.src}
-            className="w-full h-full object-cover pointer-events-none"
-            style={{ borderRadius: contentStyle.borderRadius }}
-          />
-        )}
-
-        {el.type === ElementType.IMAGE && el.props.src && (
-          <img src={el.props.src} className="w-full h-full object-cover pointer-events-none" style={{ borderRadius: contentStyle.borderRadius }} />
-        )}
+      <div
+        key={el.id}
+        style={style}
+        onMouseDown={(e) => handleElementMouseDown(e, el)}
+        onDoubleClick={() => isMedia && setCropElementId(el.id)}
+      >
+        <div style={layerStyle} className="pointer-events-none">
+          {isMedia && (
+            <div style={mediaFrameStyle} className="pointer-events-none">
+              <div style={mediaContentStyle} data-stabilize={el.type === ElementType.VIDEO || undefined}>
+                {isProcessed ? (
+                  <ProcessedMedia element={el} style={mediaStyle} />
+                ) : el.type === ElementType.VIDEO ? (
+                  <video
+                    data-element-id={el.id}
+                    src={el.props.src}
+                    className="w-full h-full object-cover pointer-events-none"
+                    style={mediaStyle}
+                  />
+                ) : (
+                  <img src={el.props.src} className="w-full h-full object-cover pointer-events-none" style={mediaStyle} />
+                )}
+              </div>
+            </div>
+          )}
 
-        {(el.type === ElementType.TEXT || el.type === ElementType.SHAPE) && (
-          <div style={contentStyle} className="p-2 whitespace-pre-wrap text-center">
-            {el.props.text}
-          </div>
-        )}
+          {(el.type === ElementType.TEXT || el.type === ElementType.SHAPE) && (
+            <div style={contentStyle} className="p-2 whitespace-pre-wrap text-center">
+              {el.props.text}
+            </div>
+          )}
 
-        {/* Custom AI Component Rendering */}
-        {el.type === ElementType.AI_GENERATED && (
-          <div className={`w-full h-full gen-${el.id} relative pointer-events-none`}>
-            {scopedCss && <style>{scopedCss}</style>}
-            {/* Dangerously Set HTML - in production would need sanitization */}
-            {el.props.html ? (
-              <div className="w-full h-full" dangerouslySetInnerHTML={{ __html: el.props.html }} />
-            ) : (
-              <div style={contentStyle} className="p-2 text-center text-xs">AI Generating...</div>
-            )}
-          </div>
-        )}
+          {/* Custom AI Component Rendering */}
+          {el.type === ElementType.AI_GENERATED && (
+            <div className={`w-full h-full gen-${el.id} relative pointer-events-none`}>
+              {scopedCss && <style>{scopedCss}</style>}
+              {/* Dangerously Set HTML - in production would need sanitization */}
+              {el.props.html ? (
+                <div className="w-full h-full" dangerouslySetInnerHTML={{ __html: el.props.html }} />
+              ) : (
+                <div style={contentStyle} className="p-2 text-center text-xs">AI Generating...</div>
+              )}
+            </div>
+          )}
+        </div>
 
         {renderHandles()}
       </div>
     );
   };
 
+  const renderable = getRenderableElements(elements, tracks, currentTime);
+
+  // Chroma key eyedropper: the clip's own source colour under the cursor, before any key, LUT or filter
+  const handlePickKeyColor = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const el = renderable.find(item => item.id === keyColorPickId);
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!el || !rect) return;
+    const x = Math.floor(e.clientX - rect.left);
+    const y = Math.floor(e.clientY - rect.top);
+
+    // Render just the clip's geometry (already animated, so without its keyframes)
+    const { src, cropLeft, cropRight, cropTop, cropBottom, cropMode, isStabilized } = el.props;
+    const plain: EditorElement = {
+      ...el,
+      keyframes: undefined,
+      masks: undefined,
+      transitionIn: undefined,
+      transitionOut: undefined,
+      props: { src, cropLeft, cropRight, cropTop, cropBottom, cropMode, isStabilized }
+    };
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(rect.width));
+    canvas.height = Math.max(1, Math.round(rect.height));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    try {
+      await renderFrame(ctx, [plain], tracks, currentTime, new LiveFrameSource(), { width: canvas.width, height: canvas.height, pixelScale: 1 });
+      const [r, g, b, a] = ctx.getImageData(x, y, 1, 1).data;
+      if (a > 0) onPickKeyColor?.(rgbToHex(r, g, b)); // Clicks outside the clip keep picking
+    } catch (err) {
+      console.error('Failed to pick key colour:', err);
+      alert('Could not read the colour of this clip.');
+      onPickKeyColor?.(null);
+    }
+  };
+
+  // Track matte pairs, found the same way as the export renderer does
+  const trackMattes = new Map<string, EditorElement>(); // Layer id -> the layer above it used as its matte
+  const matteLayerIds = new Set<string>();
+  for (let i = 0; i < renderable.length; i++) {
+    const matte = getTrackMatte(renderable, i);
+    if (!matte) continue;
+    trackMattes.set(renderable[i].id, matte);
+    matteLayerIds.add(matte.id);
+    i++;
+  }
+
+  // Mask drawing happens on the element as it is on screen
+  const drawingElement = maskEdit?.drawing ? renderable.find(item => item.id === maskEdit.elementId) : undefined;
+
+  const addMask = (create: (source: EditorElement) => Mask) => {
+    const source = elements.find(el => el.id === maskEdit?.elementId);
+    if (!source) return;
+    const mask = create(source);
+    onUpdateElement(source.id, { masks: [...(source.masks || []), mask] });
+    onMaskEditChange?.({ elementId: source.id, maskId: mask.id, drawing: null });
+  };
+
+  const finishBezierMask = () => {
+    if (bezierDraft.length >= 3) addMask(source => createBezierMask(source, bezierDraft));
+    setBezierDraft([]);
+  };
+
+  const handleMaskDrawMouseDown = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!drawingElement || !maskEdit?.drawing || !rect) return;
+    const point = toBoxPoint(drawingElement, e.clientX, e.clientY);
+    if (!point) return;
+    if (maskEdit.drawing !== 'bezier') {
+      setMaskBoxDraft({ start: point, end: point });
+      return;
+    }
+
+    // Clicking the first point again closes the path
+    const first = bezierDraft[0];
+    const distanceToFirst = first ? Math.hypot(
+      (first.x - point.x) * (drawingElement.width / 100) * rect.width,
+      (first.y - point.y) * (drawingElement.height / 100) * rect.height
+    ) : Infinity;
+    if (bezierDraft.length >= 3 && distanceToFirst <= CLOSE_PATH_DISTANCE) {
+      finishBezierMask();
+      return;
+    }
+    setBezierDraft([...bezierDraft, point]);
+    setIsPullingHandle(true);
+  };
+
+  // Dragging out a rectangle/ellipse, or pulling the handles of the bezier point just placed
+  useEffect(() => {
+    if (!drawingElement || (!maskBoxDraft && !isPullingHandle)) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const point = toBoxPoint(drawingElement, e.clientX, e.clientY);
+      if (!point) return;
+      if (maskBoxDraft) {
+        setMaskBoxDraft({ ...maskBoxDraft, end: point });
+        return;
+      }
+      setBezierDraft(points => {
+        const last = points[points.length - 1];
+        if (!last) return points;
+        const outX = point.x - last.x;
+        const outY = point.y - last.y;
+        return [...points.slice(0, -1), { x: last.x, y: last.y, inX: -outX, inY: -outY, outX, outY }];
+      });
+    };
+    const handleMouseUp = () => {
+      setIsPullingHandle(false);
+      if (!maskBoxDraft) return;
+      setMaskBoxDraft(null);
+      const { start, end } = maskBoxDraft;
+      const bounds = { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y), width: Math.abs(end.x - start.x), height: Math.abs(end.y - start.y) };
+      if (bounds.width < MIN_MASK_SIZE || bounds.height < MIN_MASK_SIZE) return; // A click, not a drag
+      addMask(source => createShapeMask(source, maskEdit?.drawing === 'ellipse' ? 'ellipse' : 'rectangle', bounds));
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drawingElement, maskBoxDraft, isPullingHandle]);
+
+  // Escape stops drawing a mask, Enter closes a bezier path
+  useEffect(() => {
+    if (!maskEdit?.drawing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onMaskEditChange?.({ ...maskEdit, drawing: null });
+      else if (e.key === 'Enter') finishBezierMask();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [maskEdit, bezierDraft]);
+
+  // Selected video/image that can be cropped on canvas
+  const primaryMedia = elements.find(el => el.id === primarySelectionId && (el.type === ElementType.VIDEO || el.type === ElementType.IMAGE) && el.props.src);
+
+  // Largest box with the project's aspect ratio that fits above the transport controls
+  const availableWidth = viewportSize.width * 0.9;
+  const availableHeight = Math.max(0, viewportSize.height - STAGE_VERTICAL_MARGIN);
+  const stageScale = Math.min(availableWidth / settings.width, availableHeight / settings.height);
+  const stageWidth = Math.max(0, settings.width * stageScale);
+  const stageHeight = Math.max(0, settings.height * stageScale);
+  const stageStyle: React.CSSProperties = {
+    width: stageWidth,
+    height: stageHeight,
+    marginBottom: STAGE_VERTICAL_MARGIN, // Centres the stage in the space above the controls
+    ...(settings.transparentBackground
+      ? { backgroundImage: CHECKERBOARD, backgroundSize: '16px 16px', backgroundColor: '#ffffff' }
+      : { backgroundColor: settings.backgroundColor })
+  };
+
   return (
-    <div className="flex-1 flex flex-col items-center justify-center bg-gray-100 dark:bg-black relative overflow-hidden transition-colors">
+    <div ref={viewportRef} className="flex-1 flex flex-col items-center justify-center bg-gray-100 dark:bg-black relative overflow-hidden transition-colors">
 
       <div
         ref={containerRef}
-        className="relative shadow-2xl bg-white dark:bg-gray-900 overflow-hidden transition-colors group"
-        style={{ width: '80%', aspectRatio: '16/9' }}
+        className="relative shadow-2xl overflow-hidden transition-colors group"
+        style={stageStyle}
         onClick={() => onSelectElement(null)}
       >
         {elements.filter(e => e.type === ElementType.AUDIO && e.props.src).map(el => (
           <audio key={el.id} data-element-id={el.id} src={el.props.src} />
         ))}
 
-        {/* Sort by zIndex for proper layering */}
-        {[...elements].sort((a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0)).map(renderVisualElement)}
+        {/* Eyedropper overlay while picking a chroma key colour */}
+        {keyColorPickId && (
+          <div
+            className="absolute inset-0 z-[1000] cursor-crosshair ring-2 ring-inset ring-green-500/70"
+            onClick={handlePickKeyColor}
+            onMouseDown={(e) => e.stopPropagation()}
+            title="Click the screen colour to key out (Esc to cancel)"
+          />
+        )}
+
+        {/* Mask drawing overlay */}
+        {maskEdit?.drawing && (
+          <div
+            className="absolute inset-0 z-[1000] cursor-crosshair ring-2 ring-inset ring-pink-500/70"
+            onMouseDown={handleMaskDrawMouseDown}
+            onClick={(e) => e.stopPropagation()}
+            title={maskEdit.drawing === 'bezier'
+              ? 'Click to add points, drag to curve them; click the first point or press Enter to close (Esc to cancel)'
+              : 'Drag over the clip to draw the mask (Esc to cancel)'}
+          />
+        )}
+
+        {/* Same back-to-front order as the export renderer */}
+        {renderable.map((el, order) => (
+          <React.Fragment key={el.id}>
+            {/* Adjustment layers grade the layers below them on a canvas */}
+            {el.type === ElementType.ADJUSTMENT && (
+              <RenderedLayer
+                elements={renderable.slice(0, order + 1)}
+                tracks={tracks}
+                time={currentTime}
+                width={stageWidth}
+                height={stageHeight}
+                background={settings.transparentBackground ? undefined : settings.backgroundColor}
+                zIndex={10 + order}
+              />
+            )}
+            {/* Track mattes show the layer through the one above it on a canvas */}
+            {trackMattes.has(el.id) && (
+              <RenderedLayer
+                elements={[el, trackMattes.get(el.id)!]}
+                tracks={tracks}
+                time={currentTime}
+                width={stageWidth}
+                height={stageHeight}
+                zIndex={10 + order}
+                blendMode={el.props.blendMode}
+              />
+            )}
+            {renderVisualElement(el, order, trackMattes.has(el.id) || matteLayerIds.has(el.id))}
+          </React.Fragment>
+        ))}
       </div>
 
+      {trimPreview && (
+        <TrimPreviewOverlay preview={trimPreview} fps={settings.fps} aspectRatio={settings.width / settings.height} />
+      )}
+
       {/* Transport Controls */}
       <div className="absolute bottom-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md rounded-full px-6 py-3 flex items-center space-x-6 z-50 shadow-lg border border-gray-200 dark:border-gray-700 transition-colors">
         <button className="text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white transition" onClick={() => onTimeUpdate(0)}>
@@ -470,8 +1015,17 @@ const VideoPreview = forwardRef<VideoPreviewHandle, VideoPreviewProps>(({
           {isPlaying ? <PauseIcon /> : <PlayIcon className="ml-1" />}
         </button>
         <div className="text-xs font-mono text-gray-700 dark:text-gray-300">
-          {Math.floor(currentTime / 60)}:{Math.floor(currentTime % 60).toString().padStart(2, '0')}
+          {formatTimecode(currentTime, settings.fps, settings.timecodeStart)}
         </div>
+        {primaryMedia && (
+          <button
+            onClick={() => setCropElementId(cropElementId === primaryMedia.id ? null : primaryMedia.id)}
+            className={`text-xs font-medium transition ${cropElementId === primaryMedia.id ? 'text-amber-500 hover:text-amber-400' : 'text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white'}`}
+            title="Crop on canvas (or double-click a clip)"
+          >
+            Crop
+          </button>
+        )}
       </div>
     </div>
   );
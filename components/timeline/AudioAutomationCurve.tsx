@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EditorElement, Keyframe } from '../../types';
+import { clearKeyframes, getAnimatedElement, interpolateKeyframes, upsertKeyframe, KEYFRAME_TIME_EPSILON } from '../../utils/keyframes';
+import { formatPan } from '../../utils/audioEngine';
+
+// Clip property drawn as a rubber band on audio and video clips
+export type AutomationProperty = 'volume' | 'pan';
+
+interface AudioAutomationCurveProps {
+  element: EditorElement;
+  property: AutomationProperty;
+  pixelsPerSecond: number;
+  currentTime: number; // Playhead, where keyframed props are read
+  onUpdateElement: (id: string, updates: Partial<EditorElement>) => void;
+}
+
+// Inner height of a timeline clip
+const CURVE_HEIGHT = 38;
+const CURVE_PADDING = 4;
+// Horizontal resolution of the drawn curve
+const SAMPLE_SPACING = 4;
+
+// Value range of each property (same as the properties panel), bottom to top
+const RANGES: Record<AutomationProperty, [number, number]> = {
+  volume: [0, 1],
+  pan: [-1, 1]
+};
+const DEFAULTS: Record<AutomationProperty, number> = {
+  volume: 1,
+  pan: 0
+};
+
+const formatValue = (property: AutomationProperty, value: number) => {
+  return property === 'volume' ? `${Math.round(value * 100)}%` : formatPan(value);
+};
+
+interface DragState {
+  keyframeId: string;
+  startX: number;
+  startY: number;
+  startTime: number;
+  startValue: number;
+  baseTrack: Keyframe[];
+}
+
+/**
+ * Volume or pan automation of a clip drawn over it on the timeline (rubber
+ * band): click the line to add a point, drag points to move them,
+ * Alt+click or double-click a point to remove it.
+ */
+const AudioAutomationCurve: React.FC<AudioAutomationCurveProps> = ({ element, property, pixelsPerSecond, currentTime, onUpdateElement }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const track = element.keyframes?.[property] || [];
+  const width = Math.max(1, element.duration * pixelsPerSecond);
+  const [min, max] = RANGES[property];
+
+  const valueToY = (value: number) => {
+    const t = (Math.min(Math.max(value, min), max) - min) / (max - min);
+    return CURVE_PADDING + (1 - t) * (CURVE_HEIGHT - CURVE_PADDING * 2);
+  };
+  const yToValue = (y: number) => {
+    const t = 1 - (y - CURVE_PADDING) / (CURVE_HEIGHT - CURVE_PADDING * 2);
+    return Math.round(Math.min(Math.max(min + t * (max - min), min), max) * 100) / 100;
+  };
+  const valueAt = (localTime: number) => {
+    return interpolateKeyframes(track, localTime) ?? element.props[property] ?? DEFAULTS[property];
+  };
+
+  const updateTrack = (keyframes: Keyframe[]) => {
+    onUpdateElement(element.id, { keyframes: { ...element.keyframes, [property]: keyframes } });
+  };
+
+  useEffect(() => {
+    if (!dragState) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      const index = dragState.baseTrack.findIndex(k => k.id === dragState.keyframeId);
+      // Points stay between their neighbours
+      const earliest = index > 0 ? dragState.baseTrack[index - 1].time + KEYFRAME_TIME_EPSILON : 0;
+      const latest = index < dragState.baseTrack.length - 1 ? dragState.baseTrack[index + 1].time - KEYFRAME_TIME_EPSILON : element.duration;
+      const time = Math.min(Math.max(dragState.startTime + (e.clientX - dragState.startX) / pixelsPerSecond, earliest), latest);
+      const value = yToValue(valueToY(dragState.startValue) + e.clientY - dragState.startY);
+      updateTrack(dragState.baseTrack.map(k => k.id === dragState.keyframeId ? { ...k, time, value } : k));
+    };
+    const handleMouseUp = () => setDragState(null);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragState, element]);
+
+  const startDrag = (e: React.MouseEvent, keyframe: Keyframe, baseTrack: Keyframe[]) => {
+    setDragState({ keyframeId: keyframe.id, startX: e.clientX, startY: e.clientY, startTime: keyframe.time, startValue: keyframe.value, baseTrack });
+  };
+
+  const removeKeyframe = (keyframe: Keyframe) => {
+    const remaining = track.filter(k => k.id !== keyframe.id);
+    if (remaining.length > 0) {
+      updateTrack(remaining);
+    } else {
+      // Other props as they are at the playhead, so keyframed ones aren't re-keyed there
+      onUpdateElement(element.id, clearKeyframes(getAnimatedElement(element, currentTime), property, keyframe.value));
+    }
+  };
+
+  const handleKeyframeMouseDown = (e: React.MouseEvent, keyframe: Keyframe) => {
+    // Don't start moving the clip
+    e.stopPropagation();
+    e.preventDefault();
+    if (e.altKey) {
+      removeKeyframe(keyframe);
+      return;
+    }
+    startDrag(e, keyframe, track);
+  };
+
+  // Clicking the line adds a point on it and starts dragging that point
+  const handleLineMouseDown = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const localTime = Math.min(Math.max(0, (e.clientX - rect.left) / pixelsPerSecond), element.duration);
+    const nextTrack = upsertKeyframe(track, localTime, Number(valueAt(localTime).toFixed(2)));
+    const added = nextTrack.find(k => Math.abs(k.time - localTime) < KEYFRAME_TIME_EPSILON)!;
+    updateTrack(nextTrack);
+    startDrag(e, added, nextTrack);
+  };
+
+  const points: string[] = [];
+  for (let x = 0; x <= width; x += SAMPLE_SPACING) {
+    points.push(`${x},${valueToY(valueAt(x / pixelsPerSecond))}`);
+  }
+  points.push(`${width},${valueToY(valueAt(element.duration))}`);
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute left-0 top-0 pointer-events-none"
+      width={width}
+      height={CURVE_HEIGHT}
+    >
+      {/* Centre for pan */}
+      {property === 'pan' && (
+        <line x1={0} x2={width} y1={valueToY(0)} y2={valueToY(0)} stroke="currentColor" strokeOpacity={0.3} strokeDasharray="2 3" />
+      )}
+      <polyline points={points.join(' ')} fill="none" stroke="#22c55e" strokeWidth={1.5} />
+      {/* Wider invisible stroke to make the line easy to click */}
+      <polyline
+        points={points.join(' ')}
+        fill="none"
+        stroke="transparent"
+        strokeWidth={8}
+        className="pointer-events-auto cursor-copy"
+        onMouseDown={handleLineMouseDown}
+      >
+        <title>{`${property === 'volume' ? 'Volume' : 'Pan'}: click to add a point`}</title>
+      </polyline>
+      {track.map(keyframe => (
+        <circle
+          key={keyframe.id}
+          cx={keyframe.time * pixelsPerSecond}
+          cy={valueToY(keyframe.value)}
+          r={3.5}
+          fill={dragState?.keyframeId === keyframe.id ? '#4ade80' : '#22c55e'}
+          stroke="white"
+          strokeWidth={1}
+          className="pointer-events-auto cursor-move"
+          onMouseDown={(e) => handleKeyframeMouseDown(e, keyframe)}
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            removeKeyframe(keyframe);
+          }}
+        >
+          <title>{`${formatValue(property, keyframe.value)} (Alt+click or double-click to remove)`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default AudioAutomationCurve;
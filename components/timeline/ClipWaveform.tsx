@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EditorElement } from '../../types';
+import { getClipGain } from '../../utils/audioEngine';
+import { getSourceTimeAt } from '../../utils/timeRemap';
+import { getPeak, getWaveform, loadWaveform, WaveformData } from '../../utils/waveform';
+
+interface ClipWaveformProps {
+  element: EditorElement;
+  pixelsPerSecond: number;
+  isSelected: boolean;
+}
+
+// Inner height of a timeline clip
+const WAVEFORM_HEIGHT = 38;
+// Long clips are drawn on several canvases, as canvases have a maximum size
+const TILE_WIDTH = 2048;
+
+const WaveformTile: React.FC<{ element: EditorElement; waveform: WaveformData; pixelsPerSecond: number; left: number; width: number; color: string }> = ({ element, waveform, pixelsPerSecond, left, width, color }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.ceil(width * ratio);
+    canvas.height = Math.ceil(WAVEFORM_HEIGHT * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, WAVEFORM_HEIGHT);
+    ctx.fillStyle = color;
+
+    // One bar per pixel: the loudest source peak under it, scaled by the clip's volume and fades
+    const middle = WAVEFORM_HEIGHT / 2;
+    const clip = [element];
+    for (let x = 0; x < width; x++) {
+      const from = (left + x) / pixelsPerSecond;
+      const to = (left + x + 1) / pixelsPerSecond;
+      const peak = getPeak(waveform, getSourceTimeAt(element, from), getSourceTimeAt(element, to));
+      const gain = getClipGain(element, clip, [], element.startTime + (from + to) / 2);
+      const half = Math.min(1, peak * gain) * (middle - 1);
+      if (half > 0) ctx.fillRect(x, middle - half, 1, half * 2);
+    }
+  }, [element, waveform, pixelsPerSecond, left, width, color]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute top-0"
+      style={{ left: `${left}px`, width: `${width}px`, height: `${WAVEFORM_HEIGHT}px` }}
+    />
+  );
+};
+
+/**
+ * Audio waveform of a clip's media, drawn behind the clip's name and curves.
+ * Follows the clip's trims, speed, reverse, volume and fades.
+ */
+const ClipWaveform: React.FC<ClipWaveformProps> = ({ element, pixelsPerSecond, isSelected }) => {
+  const [waveform, setWaveform] = useState(() => getWaveform(element));
+
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(getWaveform(element));
+    loadWaveform(element).then(data => {
+      if (!cancelled) setWaveform(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [element.assetId, element.props.src]);
+
+  if (!waveform) return null;
+
+  const width = Math.max(1, Math.floor(element.duration * pixelsPerSecond));
+  const color = isSelected ? 'rgba(255, 255, 255, 0.45)' : 'rgba(59, 130, 246, 0.55)';
+  const tiles: number[] = [];
+  for (let left = 0; left < width; left += TILE_WIDTH) tiles.push(left);
+
+  return (
+    <div className="absolute left-0 top-0 pointer-events-none" style={{ width: `${width}px`, height: `${WAVEFORM_HEIGHT}px` }}>
+      {tiles.map(left => (
+        <WaveformTile
+          key={left}
+          element={element}
+          waveform={waveform}
+          pixelsPerSecond={pixelsPerSecond}
+          left={left}
+          width={Math.min(TILE_WIDTH, width - left)}
+          color={color}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ClipWaveform;
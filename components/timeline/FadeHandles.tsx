@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { EditorElement } from '../../types';
+import { getAnimatedElement } from '../../utils/keyframes';
+
+interface FadeHandlesProps {
+  element: EditorElement;
+  pixelsPerSecond: number;
+  currentTime: number; // Playhead, where keyframed props are read
+  showHandles: boolean; // Handles are only draggable on selected clips
+  onUpdateElement: (id: string, updates: Partial<EditorElement>) => void;
+}
+
+// Inner height of a timeline clip
+const CLIP_HEIGHT = 38;
+const HANDLE_SIZE = 8;
+
+type FadeSide = 'fadeIn' | 'fadeOut';
+
+interface DragState {
+  side: FadeSide;
+  startX: number;
+  startLength: number;
+}
+
+/**
+ * Audio fades of a clip drawn as ramps in its top corners, with a handle at
+ * the end of each ramp to drag the fade length.
+ */
+const FadeHandles: React.FC<FadeHandlesProps> = ({ element, pixelsPerSecond, currentTime, showHandles, onUpdateElement }) => {
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const width = Math.max(1, element.duration * pixelsPerSecond);
+  const fadeIn = element.props.fadeIn ?? 0;
+  const fadeOut = element.props.fadeOut ?? 0;
+  const fadeInX = Math.min(width, fadeIn * pixelsPerSecond);
+  const fadeOutX = Math.max(0, width - fadeOut * pixelsPerSecond);
+
+  useEffect(() => {
+    if (!dragState) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      const delta = (e.clientX - dragState.startX) / pixelsPerSecond;
+      // Fades grow inwards from their corner and can't overlap
+      const other = dragState.side === 'fadeIn' ? fadeOut : fadeIn;
+      const length = dragState.startLength + (dragState.side === 'fadeIn' ? delta : -delta);
+      const clamped = Math.round(Math.min(Math.max(0, length), element.duration - other) * 100) / 100;
+      // Other props are sent as they are at the playhead, so keyframed ones aren't re-keyed there
+      onUpdateElement(element.id, { props: { ...getAnimatedElement(element, currentTime).props, [dragState.side]: clamped } });
+    };
+    const handleMouseUp = () => setDragState(null);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragState, element, currentTime]);
+
+  const handleMouseDown = (e: React.MouseEvent, side: FadeSide) => {
+    // Don't start moving or trimming the clip
+    e.stopPropagation();
+    e.preventDefault();
+    setDragState({ side, startX: e.clientX, startLength: side === 'fadeIn' ? fadeIn : fadeOut });
+  };
+
+  const renderHandle = (side: FadeSide, x: number) => (
+    <rect
+      x={Math.min(Math.max(0, x - HANDLE_SIZE / 2), width - HANDLE_SIZE)}
+      y={0}
+      width={HANDLE_SIZE}
+      height={HANDLE_SIZE}
+      rx={1}
+      fill={dragState?.side === side ? '#e5e7eb' : 'white'}
+      stroke="#1f2937"
+      strokeWidth={1}
+      className="pointer-events-auto cursor-ew-resize"
+      onMouseDown={(e) => handleMouseDown(e, side)}
+    >
+      <title>{`${side === 'fadeIn' ? 'Fade in' : 'Fade out'}: ${Number((side === 'fadeIn' ? fadeIn : fadeOut).toFixed(2))}s (drag to change)`}</title>
+    </rect>
+  );
+
+  return (
+    <svg className="absolute left-0 top-0 pointer-events-none" width={width} height={CLIP_HEIGHT}>
+      {fadeIn > 0 && (
+        <polygon points={`0,0 ${fadeInX},0 0,${CLIP_HEIGHT}`} fill="black" fillOpacity={0.25} />
+      )}
+      {fadeOut > 0 && (
+        <polygon points={`${fadeOutX},0 ${width},0 ${width},${CLIP_HEIGHT}`} fill="black" fillOpacity={0.25} />
+      )}
+      {showHandles && renderHandle('fadeIn', fadeInX)}
+      {showHandles && renderHandle('fadeOut', fadeOutX)}
+    </svg>
+  );
+};
+
+export default FadeHandles;
@@ -0,0 +1,510 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { EditorElement, AnimatableProperty, Keyframe, KeyframeTracks, ProjectSettings } from '../../types';
+import { getAnimatedElement, getBezierPoints, interpolateKeyframes, upsertKeyframe, findKeyframeAt, clearKeyframes, getKeyframedProperties, getPropertyLabel } from '../../utils/keyframes';
+import { snapTimeToFrame } from '../../utils/timecode';
+
+interface KeyframeEditorProps {
+  element: EditorElement | null;
+  currentTime: number;
+  pixelsPerSecond: number; // Shared with Timeline so keyframes line up with clips
+  scrollLeft: number; // Horizontal scroll of the Timeline tracks
+  onScroll: (scrollLeft: number) => void;
+  onSeek: (time: number) => void;
+  onUpdateElement: (id: string, updates: Partial<EditorElement>) => void;
+  onClose?: () => void;
+  settings?: ProjectSettings;
+}
+
+type EditorMode = 'DOPESHEET' | 'CURVES';
+
+type DragState =
+  | { kind: 'KEYS'; startX: number; startY: number; baseTracks: KeyframeTracks; range: ValueRange }
+  | { kind: 'HANDLE'; property: AnimatableProperty; keyframeId: string; handle: 1 | 2; range: ValueRange }
+  | { kind: 'BOX'; x0: number; y0: number; x1: number; y1: number; additive: boolean };
+
+interface ValueRange {
+  min: number;
+  max: number;
+}
+
+interface ClipboardKeyframe {
+  time: number; // Relative to the earliest copied keyframe
+  value: number;
+  easing: Keyframe['easing'];
+  bezier?: Keyframe['bezier'];
+}
+
+// Same width as the Timeline track headers
+const HEADER_WIDTH = 96;
+const RULER_HEIGHT = 16;
+const ROW_HEIGHT = 20;
+const CURVE_PADDING = 12;
+const CURVE_SAMPLES = 24;
+
+const keyOf = (property: AnimatableProperty, id: string) => `${property}:${id}`;
+
+const KeyframeEditor: React.FC<KeyframeEditorProps> = ({
+  element,
+  currentTime,
+  pixelsPerSecond,
+  scrollLeft,
+  onScroll,
+  onSeek,
+  onUpdateElement,
+  onClose,
+  settings
+}) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+  const [areaSize, setAreaSize] = useState({ width: 0, height: 0 });
+  const [mode, setMode] = useState<EditorMode>('DOPESHEET');
+  const [activeProperty, setActiveProperty] = useState<AnimatableProperty | null>(null);
+  const [selection, setSelection] = useState<Set<string>>(new Set());
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const clipboardRef = useRef<ClipboardKeyframe[]>([]);
+
+  useEffect(() => {
+    if (!areaRef.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setAreaSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(areaRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // Selection belongs to one element
+  useEffect(() => {
+    setSelection(new Set());
+  }, [element?.id]);
+
+  const tracks: KeyframeTracks = element?.keyframes || {};
+  const properties = element ? getKeyframedProperties(element) : [];
+  const curveProperty = activeProperty && properties.includes(activeProperty) ? activeProperty : properties[0] ?? null;
+
+  // -- Coordinate helpers (area relative) --
+  const timeToX = (localTime: number) => ((element?.startTime ?? 0) + localTime) * pixelsPerSecond - scrollLeft;
+  const xToLocalTime = (x: number) => (x + scrollLeft) / pixelsPerSecond - (element?.startTime ?? 0);
+
+  // Vertical extent of the curve view, frozen while dragging so the graph doesn't rescale under the cursor
+  const getValueRange = (property: AnimatableProperty | null): ValueRange => {
+    const values = property ? (tracks[property] || []).map(k => k.value) : [];
+    if (values.length === 0) return { min: 0, max: 1 };
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const pad = max - min > 0 ? (max - min) * 0.1 : Math.max(1, Math.abs(max) * 0.1);
+    return { min: min - pad, max: max + pad };
+  };
+
+  const range = dragState && dragState.kind !== 'BOX' ? dragState.range : getValueRange(curveProperty);
+  const graphHeight = Math.max(1, areaSize.height - RULER_HEIGHT - CURVE_PADDING * 2);
+  const valueToY = (value: number) => RULER_HEIGHT + CURVE_PADDING + (1 - (value - range.min) / (range.max - range.min)) * graphHeight;
+  const yToValue = (y: number) => range.min + (1 - (y - RULER_HEIGHT - CURVE_PADDING) / graphHeight) * (range.max - range.min);
+  const rowY = (index: number) => RULER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  const quantize = (localTime: number) => {
+    if (!element) return localTime;
+    const clamped = Math.min(Math.max(0, localTime), element.duration);
+    if (!settings?.snapToFrames) return clamped;
+    // Snap in timeline time so keys land on project frames
+    return snapTimeToFrame(element.startTime + clamped, settings.fps) - element.startTime;
+  };
+
+  // Screen position of every keyframe currently drawn
+  const getKeyframePoints = () => {
+    const points: { property: AnimatableProperty; keyframe: Keyframe; x: number; y: number }[] = [];
+    if (mode === 'DOPESHEET') {
+      properties.forEach((property, index) => {
+        tracks[property]!.forEach(keyframe => points.push({ property, keyframe, x: timeToX(keyframe.time), y: rowY(index) }));
+      });
+    } else if (curveProperty) {
+      tracks[curveProperty]!.forEach(keyframe => points.push({ property: curveProperty, keyframe, x: timeToX(keyframe.time), y: valueToY(keyframe.value) }));
+    }
+    return points;
+  };
+
+  const getLocalPoint = (e: MouseEvent | React.MouseEvent) => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // -- Mouse interaction --
+  const handleKeyframeMouseDown = (e: React.MouseEvent, property: AnimatableProperty, keyframe: Keyframe) => {
+    e.stopPropagation();
+    e.preventDefault();
+    rootRef.current?.focus();
+    setActiveProperty(property);
+
+    const key = keyOf(property, keyframe.id);
+    let next = selection;
+    if (e.shiftKey) {
+      next = new Set(selection);
+      if (next.has(key)) next.delete(key); else next.add(key);
+    } else if (!selection.has(key)) {
+      next = new Set([key]);
+    }
+    setSelection(next);
+
+    const { x, y } = getLocalPoint(e);
+    setDragState({ kind: 'KEYS', startX: x, startY: y, baseTracks: tracks, range: getValueRange(curveProperty) });
+  };
+
+  const handleHandleMouseDown = (e: React.MouseEvent, property: AnimatableProperty, keyframe: Keyframe, handle: 1 | 2) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setDragState({ kind: 'HANDLE', property, keyframeId: keyframe.id, handle, range: getValueRange(property) });
+  };
+
+  const handleAreaMouseDown = (e: React.MouseEvent) => {
+    if (!element) return;
+    rootRef.current?.focus();
+    const { x, y } = getLocalPoint(e);
+    if (y < RULER_HEIGHT) {
+      setIsScrubbing(true);
+      onSeek(Math.max(0, (x + scrollLeft) / pixelsPerSecond));
+      return;
+    }
+    setDragState({ kind: 'BOX', x0: x, y0: y, x1: x, y1: y, additive: e.shiftKey });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const delta = e.shiftKey ? e.deltaY : e.deltaX;
+    if (delta !== 0) onScroll(Math.max(0, scrollLeft + delta));
+  };
+
+  // Re-subscribed on every render so the handlers always see the latest keyframes
+  useEffect(() => {
+    if (!element || (!dragState && !isScrubbing)) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const { x, y } = getLocalPoint(e);
+
+      if (isScrubbing) {
+        onSeek(Math.max(0, (x + scrollLeft) / pixelsPerSecond));
+        return;
+      }
+      if (!dragState) return;
+
+      if (dragState.kind === 'BOX') {
+        setDragState({ ...dragState, x1: x, y1: y });
+        return;
+      }
+
+      if (dragState.kind === 'KEYS') {
+        const deltaTime = (x - dragState.startX) / pixelsPerSecond;
+        const valuePerPixel = (dragState.range.max - dragState.range.min) / graphHeight;
+        const deltaValue = mode === 'CURVES' ? -(y - dragState.startY) * valuePerPixel : 0;
+
+        const nextTracks: KeyframeTracks = { ...dragState.baseTracks };
+        (Object.keys(dragState.baseTracks) as AnimatableProperty[]).forEach(property => {
+          const base = dragState.baseTracks[property] || [];
+          if (!base.some(k => selection.has(keyOf(property, k.id)))) return;
+          nextTracks[property] = base
+            .map(k => selection.has(keyOf(property, k.id))
+              ? { ...k, time: quantize(k.time + deltaTime), value: property === curveProperty && !e.altKey ? k.value + deltaValue : k.value }
+              : k)
+            .sort((a, b) => a.time - b.time);
+        });
+        onUpdateElement(element.id, { keyframes: nextTracks });
+        return;
+      }
+
+      // Bezier handle: position inside the segment sets the control point
+      const track = tracks[dragState.property] || [];
+      const index = track.findIndex(k => k.id === dragState.keyframeId);
+      const from = track[index];
+      const to = track[index + 1];
+      if (!from || !to) return;
+      const points = getBezierPoints(from) ?? [1 / 3, 1 / 3, 2 / 3, 2 / 3];
+      const span = to.time - from.time;
+      const valueSpan = to.value - from.value;
+      const px = span > 0 ? Math.min(1, Math.max(0, (xToLocalTime(x) - from.time) / span)) : 0;
+      const py = valueSpan !== 0 ? (yToValue(y) - from.value) / valueSpan : points[dragState.handle === 1 ? 1 : 3];
+      const bezier: [number, number, number, number] = dragState.handle === 1
+        ? [px, py, points[2], points[3]]
+        : [points[0], points[1], px, py];
+      onUpdateElement(element.id, {
+        keyframes: {
+          ...tracks,
+          [dragState.property]: track.map(k => k.id === from.id ? { ...k, easing: 'bezier', bezier } : k)
+        }
+      });
+    };
+
+    const handleMouseUp = () => {
+      if (dragState?.kind === 'BOX') {
+        const left = Math.min(dragState.x0, dragState.x1);
+        const right = Math.max(dragState.x0, dragState.x1);
+        const top = Math.min(dragState.y0, dragState.y1);
+        const bottom = Math.max(dragState.y0, dragState.y1);
+        const next = new Set(dragState.additive ? selection : []);
+        getKeyframePoints().forEach(({ property, keyframe, x, y }) => {
+          if (x >= left && x <= right && y >= top && y <= bottom) next.add(keyOf(property, keyframe.id));
+        });
+        setSelection(next);
+      }
+      setDragState(null);
+      setIsScrubbing(false);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  });
+
+  // -- Keyboard: copy / paste / delete --
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!element) return;
+
+    if ((e.metaKey || e.ctrlKey) && e.key === 'c') {
+      const copied = properties.flatMap(property =>
+        (tracks[property] || []).filter(k => selection.has(keyOf(property, k.id)))
+      );
+      if (copied.length === 0) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const earliest = Math.min(...copied.map(k => k.time));
+      clipboardRef.current = copied.map(k => ({ time: k.time - earliest, value: k.value, easing: k.easing, bezier: k.bezier }));
+      return;
+    }
+
+    if ((e.metaKey || e.ctrlKey) && e.key === 'v') {
+      // Paste into the active property, starting at the playhead
+      const target = activeProperty ?? curveProperty;
+      if (!target || clipboardRef.current.length === 0) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const start = currentTime - element.startTime;
+      let track = tracks[target];
+      const pasted = new Set<string>();
+      clipboardRef.current.forEach(item => {
+        const time = quantize(start + item.time);
+        track = upsertKeyframe(track, time, item.value);
+        const placed = findKeyframeAt(track, time)!;
+        track = track.map(k => k.id === placed.id ? { ...k, easing: item.easing, bezier: item.bezier } : k);
+        pasted.add(keyOf(target, placed.id));
+      });
+      onUpdateElement(element.id, { keyframes: { ...tracks, [target]: track } });
+      setSelection(pasted);
+      return;
+    }
+
+    if ((e.key === 'Delete' || e.key === 'Backspace') && selection.size > 0) {
+      e.preventDefault();
+      e.stopPropagation();
+      const nextTracks: KeyframeTracks = {};
+      properties.forEach(property => {
+        const remaining = tracks[property]!.filter(k => !selection.has(keyOf(property, k.id)));
+        if (remaining.length > 0) nextTracks[property] = remaining;
+      });
+      // Properties that lose all keyframes keep their current animated value
+      const updates: Partial<EditorElement> = { keyframes: Object.keys(nextTracks).length > 0 ? nextTracks : undefined };
+      const localTime = currentTime - element.startTime;
+      properties.filter(p => !nextTracks[p]).forEach(property => {
+        const value = interpolateKeyframes(tracks[property]!, localTime)!;
+        // Start from the props at the playhead, so properties still animated aren't re-keyed there
+        Object.assign(updates, clearKeyframes({ ...getAnimatedElement(element, currentTime), ...updates }, property, value));
+      });
+      onUpdateElement(element.id, updates);
+      setSelection(new Set());
+    }
+  };
+
+  // -- Rendering --
+  const playheadX = currentTime * pixelsPerSecond - scrollLeft;
+  const clipLeft = element ? timeToX(0) : 0;
+  const clipRight = element ? timeToX(element.duration) : 0;
+
+  const renderDiamond = (property: AnimatableProperty, keyframe: Keyframe, x: number, y: number) => {
+    const selected = selection.has(keyOf(property, keyframe.id));
+    return (
+      <div
+        key={keyOf(property, keyframe.id)}
+        className={`absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rotate-45 border cursor-pointer z-20 ${selected ? 'bg-yellow-400 border-yellow-600' : 'bg-blue-500 border-blue-700 hover:bg-blue-400'} ${keyframe.easing === 'hold' ? 'rounded-none' : 'rounded-[1px]'}`}
+        style={{ left: x, top: y }}
+        title={`${getPropertyLabel(element!, property)}: ${Math.round(keyframe.value * 100) / 100} @ ${(element!.startTime + keyframe.time).toFixed(2)}s`}
+        onMouseDown={(e) => handleKeyframeMouseDown(e, property, keyframe)}
+      />
+    );
+  };
+
+  const renderCurves = () => {
+    if (!curveProperty) return null;
+    const track = tracks[curveProperty]!;
+    const first = track[0];
+    const last = track[track.length - 1];
+
+    // Flat lines before the first and after the last keyframe
+    let path = `M ${Math.min(clipLeft, timeToX(first.time))} ${valueToY(first.value)} L ${timeToX(first.time)} ${valueToY(first.value)}`;
+    for (let i = 0; i < track.length - 1; i++) {
+      const from = track[i];
+      const to = track[i + 1];
+      for (let s = 1; s <= CURVE_SAMPLES; s++) {
+        const t = from.time + ((to.time - from.time) * s) / CURVE_SAMPLES;
+        const value = s === CURVE_SAMPLES ? to.value : interpolateKeyframes(track, t)!;
+        path += ` L ${timeToX(t)} ${valueToY(value)}`;
+      }
+    }
+    path += ` L ${Math.max(clipRight, timeToX(last.time))} ${valueToY(last.value)}`;
+
+    // Tangent handles for segments leaving a selected keyframe
+    const handles: React.ReactNode[] = [];
+    track.forEach((from, i) => {
+      const to = track[i + 1];
+      const points = getBezierPoints(from);
+      if (!to || !points || !selection.has(keyOf(curveProperty, from.id))) return;
+      const span = to.time - from.time;
+      const valueSpan = to.value - from.value;
+      const handlePoint = (px: number, py: number) => ({ x: timeToX(from.time + px * span), y: valueToY(from.value + py * valueSpan) });
+      const h1 = handlePoint(points[0], points[1]);
+      const h2 = handlePoint(points[2], points[3]);
+      handles.push(
+        <g key={from.id}>
+          <line x1={timeToX(from.time)} y1={valueToY(from.value)} x2={h1.x} y2={h1.y} className="stroke-gray-400" strokeWidth={1} />
+          <line x1={timeToX(to.time)} y1={valueToY(to.value)} x2={h2.x} y2={h2.y} className="stroke-gray-400" strokeWidth={1} />
+          <circle cx={h1.x} cy={h1.y} r={4} className="fill-white stroke-blue-500 cursor-move" strokeWidth={1.5} onMouseDown={(e) => handleHandleMouseDown(e, curveProperty, from, 1)} />
+          <circle cx={h2.x} cy={h2.y} r={4} className="fill-white stroke-blue-500 cursor-move" strokeWidth={1.5} onMouseDown={(e) => handleHandleMouseDown(e, curveProperty, from, 2)} />
+        </g>
+      );
+    });
+
+    return (
+      <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+        <path d={path} fill="none" className="stroke-blue-500" strokeWidth={1.5} />
+        <g className="pointer-events-auto">{handles}</g>
+      </svg>
+    );
+  };
+
+  const rulerTicks = [];
+  const firstSecond = Math.floor(scrollLeft / pixelsPerSecond);
+  const lastSecond = Math.ceil((scrollLeft + areaSize.width) / pixelsPerSecond);
+  for (let i = firstSecond; i <= lastSecond; i++) {
+    rulerTicks.push(
+      <div key={i} className="absolute top-0 bottom-0 border-l border-gray-300 dark:border-gray-700 text-[9px] text-gray-500 pl-0.5" style={{ left: i * pixelsPerSecond - scrollLeft }}>
+        {i % 5 === 0 ? `${i}s` : ''}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={rootRef}
+      className="flex flex-col h-full bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-800 text-gray-800 dark:text-gray-200 select-none outline-none transition-colors"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
+      {/* Header */}
+      <div className="h-8 border-b border-gray-200 dark:border-gray-800 flex items-center px-4 justify-between text-xs">
+        <div className="flex items-center space-x-3">
+          <span className="font-semibold">◆ Keyframes</span>
+          {element && <span className="text-gray-500 truncate max-w-[200px]">{element.name}</span>}
+          <div className="flex rounded border border-gray-200 dark:border-gray-700 overflow-hidden">
+            {(['DOPESHEET', 'CURVES'] as EditorMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-2 py-0.5 transition ${mode === m ? 'bg-blue-600 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-600 dark:text-gray-300'}`}
+              >
+                {m === 'DOPESHEET' ? 'Dopesheet' : 'Curves'}
+              </button>
+            ))}
+          </div>
+          <span className="text-[10px] text-gray-400">Drag to box-select · Ctrl+C / Ctrl+V to copy between properties · Alt locks value</span>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="px-2 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 transition" title="Close keyframe editor">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Property list */}
+        <div className="flex-shrink-0 border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 overflow-hidden" style={{ width: HEADER_WIDTH, paddingTop: RULER_HEIGHT }}>
+          {properties.map(property => (
+            <div
+              key={property}
+              onClick={() => setActiveProperty(property)}
+              className={`px-2 text-[10px] truncate cursor-pointer transition ${property === (activeProperty ?? curveProperty) ? 'text-blue-600 dark:text-blue-400 font-semibold' : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'}`}
+              style={{ height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}
+            >
+              {getPropertyLabel(element!, property)}
+            </div>
+          ))}
+        </div>
+
+        {/* Keyframe area */}
+        <div
+          ref={areaRef}
+          className="flex-1 relative overflow-hidden"
+          onMouseDown={handleAreaMouseDown}
+          onWheel={handleWheel}
+        >
+          {/* Ruler */}
+          <div className="absolute left-0 right-0 top-0 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 cursor-pointer" style={{ height: RULER_HEIGHT }}>
+            {rulerTicks}
+          </div>
+
+          {!element ? (
+            <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">Select a clip to edit its keyframes</div>
+          ) : properties.length === 0 ? (
+            <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">
+              No animated properties. Use the ◆ buttons in the Properties panel to add keyframes.
+            </div>
+          ) : null}
+
+          {element && (
+            <>
+              {/* Clip extent */}
+              <div
+                className="absolute bottom-0 bg-blue-500/5 border-x border-blue-500/30 pointer-events-none"
+                style={{ left: clipLeft, width: clipRight - clipLeft, top: RULER_HEIGHT }}
+              />
+
+              {mode === 'DOPESHEET'
+                ? properties.map((property, index) => (
+                  <React.Fragment key={property}>
+                    <div
+                      className={`absolute left-0 right-0 border-b border-gray-100 dark:border-gray-800 pointer-events-none ${property === activeProperty ? 'bg-blue-500/5' : ''}`}
+                      style={{ top: RULER_HEIGHT + index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                    />
+                    {tracks[property]!.map(keyframe => renderDiamond(property, keyframe, timeToX(keyframe.time), rowY(index)))}
+                  </React.Fragment>
+                ))
+                : curveProperty && (
+                  <>
+                    {renderCurves()}
+                    {tracks[curveProperty]!.map(keyframe => renderDiamond(curveProperty, keyframe, timeToX(keyframe.time), valueToY(keyframe.value)))}
+                    <div className="absolute right-2 text-[9px] text-gray-400 pointer-events-none" style={{ top: RULER_HEIGHT + 2 }}>{Math.round(range.max * 100) / 100}</div>
+                    <div className="absolute right-2 bottom-1 text-[9px] text-gray-400 pointer-events-none">{Math.round(range.min * 100) / 100}</div>
+                  </>
+                )}
+            </>
+          )}
+
+          {/* Box selection */}
+          {dragState?.kind === 'BOX' && (
+            <div
+              className="absolute border border-blue-500 bg-blue-500/10 pointer-events-none z-30"
+              style={{
+                left: Math.min(dragState.x0, dragState.x1),
+                top: Math.min(dragState.y0, dragState.y1),
+                width: Math.abs(dragState.x1 - dragState.x0),
+                height: Math.abs(dragState.y1 - dragState.y0)
+              }}
+            />
+          )}
+
+          {/* Playhead */}
+          <div className="absolute top-0 bottom-0 w-px bg-red-500 z-30 pointer-events-none" style={{ left: playheadX }} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyframeEditor;
@@ -0,0 +1,202 @@
+import React, { useEffect, useRef } from 'react';
+import { Track } from '../../types';
+import { formatPan, previewAudio } from '../../utils/audioEngine';
+
+interface MixerPanelProps {
+  tracks: Track[];
+  onUpdateTrack: (id: number, updates: Partial<Track>) => void;
+  onClose?: () => void;
+}
+
+// Meter scale and ballistics
+const METER_MIN_DB = -60;
+const METER_MAX_DB = 6;
+const PEAK_HOLD_MS = 1000;
+const PEAK_FALL_DB_PER_SECOND = 20;
+const MAX_FADER_GAIN = 2;
+
+type MeterKey = number | 'master';
+
+interface MeterNodes {
+  rms: HTMLDivElement | null;
+  peak: HTMLDivElement | null;
+  clip: HTMLDivElement | null;
+}
+
+const toDb = (gain: number) => (gain > 0 ? 20 * Math.log10(gain) : -Infinity);
+
+const formatGain = (gain: number) => {
+  if (gain <= 0) return '-∞ dB';
+  const db = toDb(gain);
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+};
+
+// Height of a level on the meter (0-1)
+const meterPosition = (db: number) => Math.min(1, Math.max(0, (db - METER_MIN_DB) / (METER_MAX_DB - METER_MIN_DB)));
+
+// Knob dragged up/down; double-click centres it
+const PanKnob: React.FC<{ value: number; onChange: (value: number) => void }> = ({ value, onChange }) => {
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const startY = e.clientY;
+    const startValue = value;
+    const handleMove = (ev: MouseEvent) => {
+      const next = Math.min(1, Math.max(-1, startValue + (startY - ev.clientY) / 100));
+      onChange(Math.abs(next) < 0.02 ? 0 : Math.round(next * 100) / 100);
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  return (
+    <div
+      className="w-7 h-7 cursor-ns-resize text-gray-400 hover:text-blue-500 transition-colors"
+      onMouseDown={handleMouseDown}
+      onDoubleClick={() => onChange(0)}
+      title={`Pan ${formatPan(value)} (drag up/down, double-click to centre)`}
+    >
+      <svg viewBox="0 0 28 28" className="w-full h-full">
+        <circle cx="14" cy="14" r="11" fill="none" stroke="currentColor" strokeWidth="2" />
+        <line x1="14" y1="14" x2="14" y2="5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" transform={`rotate(${value * 135} 14 14)`} />
+      </svg>
+    </div>
+  );
+};
+
+const MixerPanel: React.FC<MixerPanelProps> = ({ tracks, onUpdateTrack, onClose }) => {
+  const metersRef = useRef(new Map<MeterKey, MeterNodes>());
+
+  // Meters read the live graph every frame, straight into the DOM
+  useEffect(() => {
+    const holds = new Map<MeterKey, { db: number; time: number }>();
+    let frame = 0;
+    let last = performance.now();
+    const update = (now: number) => {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      metersRef.current.forEach((nodes, key) => {
+        const level = previewAudio.getLevel(key === 'master' ? undefined : key);
+        const peakDb = toDb(level.peak);
+        const hold = holds.get(key) ?? { db: -Infinity, time: now };
+        if (peakDb >= hold.db) {
+          hold.db = peakDb;
+          hold.time = now;
+        } else if (now - hold.time > PEAK_HOLD_MS) {
+          hold.db -= PEAK_FALL_DB_PER_SECOND * elapsed;
+        }
+        holds.set(key, hold);
+
+        if (nodes.rms) nodes.rms.style.height = `${meterPosition(toDb(level.rms)) * 100}%`;
+        if (nodes.peak) {
+          nodes.peak.style.bottom = `${meterPosition(hold.db) * 100}%`;
+          nodes.peak.style.opacity = hold.db > METER_MIN_DB ? '1' : '0';
+        }
+        if (nodes.clip) nodes.clip.style.opacity = hold.db >= 0 ? '1' : '0.2';
+      });
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const meterRef = (key: MeterKey, part: keyof MeterNodes) => (node: HTMLDivElement | null) => {
+    const nodes = metersRef.current.get(key) ?? { rms: null, peak: null, clip: null };
+    nodes[part] = node;
+    if (nodes.rms || nodes.peak || nodes.clip) {
+      metersRef.current.set(key, nodes);
+    } else {
+      metersRef.current.delete(key);
+    }
+  };
+
+  const renderMeter = (key: MeterKey) => (
+    <div className="w-2.5 h-full flex flex-col" title="Peak (line) and RMS (bar) level">
+      <div ref={meterRef(key, 'clip')} className="h-1 mb-0.5 rounded-sm bg-red-500" style={{ opacity: 0.2 }} />
+      <div className="relative flex-1 rounded-sm bg-gray-200 dark:bg-gray-800 overflow-hidden">
+        <div ref={meterRef(key, 'rms')} className="absolute bottom-0 inset-x-0 bg-gradient-to-t from-green-500 via-yellow-400 to-red-500" style={{ height: '0%' }} />
+        <div ref={meterRef(key, 'peak')} className="absolute inset-x-0 h-0.5 bg-gray-900 dark:bg-white" style={{ bottom: '0%', opacity: 0 }} />
+      </div>
+    </div>
+  );
+
+  const isAnySoloed = tracks.some(t => t.isSoloed);
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-800 text-gray-800 dark:text-gray-200 select-none transition-colors">
+      {/* Header */}
+      <div className="h-8 border-b border-gray-200 dark:border-gray-800 flex items-center px-4 justify-between text-xs">
+        <div className="flex items-center space-x-3">
+          <span className="font-semibold">🎚 Mixer</span>
+          <span className="text-[10px] text-gray-400">Double-click a fader for 0 dB · Solo silences every other track in preview and export</span>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="px-2 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 transition" title="Close mixer">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 flex min-h-0 overflow-x-auto">
+        {tracks.map(track => {
+          const volume = track.volume ?? 1;
+          const isSilenced = !!track.isMuted || (isAnySoloed && !track.isSoloed);
+          return (
+            <div
+              key={track.id}
+              className={`w-24 flex-shrink-0 flex flex-col items-center gap-1 px-2 py-2 border-r border-gray-200 dark:border-gray-800 transition-opacity ${isSilenced ? 'opacity-50' : ''}`}
+            >
+              <span className="w-full text-[10px] font-semibold text-center truncate" title={track.name}>{track.name}</span>
+              <div className="flex items-center gap-1">
+                <PanKnob value={track.pan ?? 0} onChange={(pan) => onUpdateTrack(track.id, { pan })} />
+                <span className="w-7 text-[10px] text-gray-500 tabular-nums">{formatPan(track.pan ?? 0)}</span>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => onUpdateTrack(track.id, { isMuted: !track.isMuted })}
+                  className={`w-6 h-5 rounded text-[10px] font-bold transition ${track.isMuted ? 'bg-red-500 text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                  title="Mute track"
+                >
+                  M
+                </button>
+                <button
+                  onClick={() => onUpdateTrack(track.id, { isSoloed: !track.isSoloed })}
+                  className={`w-6 h-5 rounded text-[10px] font-bold transition ${track.isSoloed ? 'bg-yellow-400 text-gray-900' : 'bg-gray-100 dark:bg-gray-800 text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                  title="Solo track"
+                >
+                  S
+                </button>
+              </div>
+              <div className="flex-1 min-h-0 flex items-stretch gap-2 py-1">
+                <input
+                  type="range" min="0" max={MAX_FADER_GAIN} step="0.01"
+                  value={volume}
+                  onChange={(e) => onUpdateTrack(track.id, { volume: Number(e.target.value) })}
+                  onDoubleClick={() => onUpdateTrack(track.id, { volume: 1 })}
+                  className="h-full w-3 cursor-pointer accent-blue-600"
+                  style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                  title="Track volume"
+                />
+                {renderMeter(track.id)}
+              </div>
+              <span className="text-[10px] text-gray-500 tabular-nums">{formatGain(volume)}</span>
+            </div>
+          );
+        })}
+
+        {/* Master: level of the whole mix */}
+        <div className="w-20 flex-shrink-0 flex flex-col items-center gap-1 px-2 py-2 bg-gray-50 dark:bg-gray-800/50">
+          <span className="text-[10px] font-semibold">Master</span>
+          <div className="flex-1 min-h-0 py-1">
+            {renderMeter('master')}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MixerPanel;
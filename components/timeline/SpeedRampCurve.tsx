@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EditorElement, Keyframe } from '../../types';
+import { upsertKeyframe } from '../../utils/keyframes';
+import { getPlaybackRate } from '../../utils/timeRemap';
+
+interface SpeedRampCurveProps {
+  element: EditorElement;
+  pixelsPerSecond: number;
+  onUpdateElement: (id: string, updates: Partial<EditorElement>) => void;
+}
+
+// Inner height of a timeline clip
+const CURVE_HEIGHT = 38;
+const CURVE_PADDING = 4;
+// Same range as the Speed slider in the properties panel, shown on a log scale
+const MIN_RATE = 0.25;
+const MAX_RATE = 4;
+// Horizontal resolution of the drawn curve
+const SAMPLE_SPACING = 4;
+
+const rateToY = (rate: number) => {
+  const t = (Math.log2(rate) - Math.log2(MIN_RATE)) / (Math.log2(MAX_RATE) - Math.log2(MIN_RATE));
+  return CURVE_PADDING + (1 - Math.min(Math.max(t, 0), 1)) * (CURVE_HEIGHT - CURVE_PADDING * 2);
+};
+
+const yToRate = (y: number) => {
+  const t = 1 - (y - CURVE_PADDING) / (CURVE_HEIGHT - CURVE_PADDING * 2);
+  const rate = Math.pow(2, Math.log2(MIN_RATE) + t * (Math.log2(MAX_RATE) - Math.log2(MIN_RATE)));
+  return Math.round(Math.min(Math.max(rate, MIN_RATE), MAX_RATE) * 20) / 20;
+};
+
+interface DragState {
+  keyframeId: string;
+  startY: number;
+  startValue: number;
+  baseTrack: Keyframe[];
+}
+
+/**
+ * Speed ramp of a clip drawn over it on the timeline: drag a keyframe up or
+ * down to change its speed, double-click the curve to add a keyframe.
+ */
+const SpeedRampCurve: React.FC<SpeedRampCurveProps> = ({ element, pixelsPerSecond, onUpdateElement }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const track = element.keyframes?.playbackRate || [];
+  const width = Math.max(1, element.duration * pixelsPerSecond);
+
+  const updateTrack = (keyframes: Keyframe[]) => {
+    onUpdateElement(element.id, { keyframes: { ...element.keyframes, playbackRate: keyframes } });
+  };
+
+  useEffect(() => {
+    if (!dragState) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      const value = yToRate(rateToY(dragState.startValue) + e.clientY - dragState.startY);
+      updateTrack(dragState.baseTrack.map(k => k.id === dragState.keyframeId ? { ...k, value } : k));
+    };
+    const handleMouseUp = () => setDragState(null);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragState, element]);
+
+  const handleKeyframeMouseDown = (e: React.MouseEvent, keyframe: Keyframe) => {
+    // Don't start moving the clip
+    e.stopPropagation();
+    e.preventDefault();
+    setDragState({ keyframeId: keyframe.id, startY: e.clientY, startValue: keyframe.value, baseTrack: track });
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const localTime = Math.min(Math.max(0, (e.clientX - rect.left) / pixelsPerSecond), element.duration);
+    updateTrack(upsertKeyframe(track, localTime, Number(getPlaybackRate(element, localTime).toFixed(2))));
+  };
+
+  const points: string[] = [];
+  for (let x = 0; x <= width; x += SAMPLE_SPACING) {
+    points.push(`${x},${rateToY(getPlaybackRate(element, x / pixelsPerSecond))}`);
+  }
+  points.push(`${width},${rateToY(getPlaybackRate(element, element.duration))}`);
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute left-0 top-0 pointer-events-none"
+      width={width}
+      height={CURVE_HEIGHT}
+    >
+      {/* Normal speed */}
+      <line x1={0} x2={width} y1={rateToY(1)} y2={rateToY(1)} stroke="currentColor" strokeOpacity={0.3} strokeDasharray="2 3" />
+      <polyline points={points.join(' ')} fill="none" stroke="#f59e0b" strokeWidth={1.5} />
+      {/* Wider invisible stroke to make the curve easy to double-click */}
+      <polyline
+        points={points.join(' ')}
+        fill="none"
+        stroke="transparent"
+        strokeWidth={8}
+        className="pointer-events-auto cursor-copy"
+        onMouseDown={(e) => e.stopPropagation()}
+        onDoubleClick={handleDoubleClick}
+      />
+      {track.map(keyframe => (
+        <circle
+          key={keyframe.id}
+          cx={keyframe.time * pixelsPerSecond}
+          cy={rateToY(keyframe.value)}
+          r={3.5}
+          fill={dragState?.keyframeId === keyframe.id ? '#fbbf24' : '#f59e0b'}
+          stroke="white"
+          strokeWidth={1}
+          className="pointer-events-auto cursor-ns-resize"
+          onMouseDown={(e) => handleKeyframeMouseDown(e, keyframe)}
+        >
+          <title>{`${Number(keyframe.value.toFixed(2))}x`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default SpeedRampCurve;
@@ -1,7 +1,13 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { Track, EditorElement, Marker } from '../../types';
+import { Track, EditorElement, Marker, ProjectSettings, ElementType } from '../../types';
 import TimelineTrack from './TimelineTrack';
+import { AutomationProperty } from './AudioAutomationCurve';
 import { ScissorsIcon, ZoomInIcon, ZoomOutIcon, MagnetIcon, CompressIcon, FitIcon } from '../ui/Icons';
+import { snapTimeToFrame, formatTimecode } from '../../utils/timecode';
+import { DEFAULT_PROJECT_SETTINGS } from '../../constants';
+import { getSelectionMode, updateSelection, getElementIdsFromTime, getElementIdsInRange, getTrackElementIds, SelectionMode } from '../../utils/selection';
+import { collectRippleTargets, clampRippleDelta, DEFAULT_RIPPLE_SCOPE, RippleScope, RippleTargets, EditTool, EDIT_TOOLS, TrimPreview, TrimResult, rollEdit, slipEdit, slideEdit, trimStart, findAdjacentClips } from '../../utils/timelineEdits';
+import { getHeadRoom, getTailRoom, getOffsetForEndTrim } from '../../utils/timeRemap';
 
 interface TimelineProps {
   tracks: Track[];
@@ -9,8 +15,9 @@ interface TimelineProps {
   currentTime: number;
   duration: number;
   onSeek: (time: number) => void;
-  onSelectElement: (id: string) => void;
-  selectedElementId: string | null;
+  onSelectElement: (id: string, mode?: SelectionMode) => void;
+  onSelectElements?: (ids: string[], mode?: SelectionMode) => void;
+  selectedElementIds: string[];
   onUpdateElement: (id: string, updates: Partial<EditorElement>) => void;
   onSplit: () => void;
   pixelsPerSecond: number;
@@ -20,6 +27,12 @@ interface TimelineProps {
   onDeleteTrack?: (trackId: number) => void;
   rippleEditMode?: boolean;
   onToggleRippleEdit?: () => void;
+  rippleScope?: RippleScope;
+  onChangeRippleScope?: (scope: RippleScope) => void;
+  onRippleTrim?: (id: string, updates: Partial<EditorElement>, targets: RippleTargets, delta: number) => void;
+  editTool?: EditTool;
+  onChangeEditTool?: (tool: EditTool) => void;
+  onTrimPreview?: (preview: TrimPreview | null) => void; // Frames around the cut while rolling/slipping
   snapEnabled?: boolean;
   onToggleSnap?: () => void;
   onCloseGaps?: () => void;
@@ -27,9 +40,17 @@ interface TimelineProps {
   onAddMarker?: (time: number) => void;
   onUpdateMarker?: (id: string, updates: Partial<Marker>) => void;
   onDeleteMarker?: (id: string) => void;
+  settings?: ProjectSettings; // Frame rate, frame snapping and timecode display
+  scrollLeft?: number; // Horizontal scroll shared with the keyframe editor
+  onScroll?: (scrollLeft: number) => void;
+  keyframeEditorOpen?: boolean;
+  onToggleKeyframeEditor?: () => void;
+  mixerOpen?: boolean;
+  onToggleMixer?: () => void;
 }
 
-type DragMode = 'MOVE' | 'RESIZE_L' | 'RESIZE_R';
+type ClipHandle = 'MOVE' | 'RESIZE_L' | 'RESIZE_R';
+type DragMode = ClipHandle | 'ROLL' | 'SLIP' | 'SLIDE';
 
 // Magnetic snap threshold in pixels
 const SNAP_THRESHOLD_PX = 10;
@@ -41,7 +62,8 @@ const Timeline: React.FC<TimelineProps> = ({
   duration,
   onSeek,
   onSelectElement,
-  selectedElementId,
+  onSelectElements,
+  selectedElementIds,
   onUpdateElement,
   onSplit,
   pixelsPerSecond,
@@ -51,16 +73,38 @@ const Timeline: React.FC<TimelineProps> = ({
   onDeleteTrack,
   rippleEditMode = false,
   onToggleRippleEdit,
+  rippleScope = DEFAULT_RIPPLE_SCOPE,
+  onChangeRippleScope,
+  onRippleTrim,
+  editTool = 'select',
+  onChangeEditTool,
+  onTrimPreview,
   snapEnabled = true,
   onToggleSnap,
   onCloseGaps,
   markers = [],
   onAddMarker,
   onUpdateMarker,
-  onDeleteMarker
+  onDeleteMarker,
+  settings = DEFAULT_PROJECT_SETTINGS,
+  scrollLeft,
+  onScroll,
+  keyframeEditorOpen = false,
+  onToggleKeyframeEditor,
+  mixerOpen = false,
+  onToggleMixer
 }) => {
   const rulerRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Follow scrolling driven from outside (keyframe editor)
+  useEffect(() => {
+    if (scrollLeft === undefined || !scrollRef.current) return;
+    if (Math.abs(scrollRef.current.scrollLeft - scrollLeft) > 1) {
+      scrollRef.current.scrollLeft = scrollLeft;
+    }
+  }, [scrollLeft]);
 
   // Playhead Drag State
   const [isDraggingPlayhead, setIsDraggingPlayhead] = useState(false);
@@ -72,10 +116,32 @@ const Timeline: React.FC<TimelineProps> = ({
     startX: number;
     originalStartTime: number;
     originalDuration: number;
-    originalMediaOffset: number;
     originalTrackId: number;
+    headRoom: number; // Seconds the clip can extend before / after itself before running out of source
+    tailRoom: number;
+    rippleTargets?: RippleTargets; // Clips after the edited one, when ripple editing an edge
+    rollEdge?: 'start' | 'end';
+    originalElements: EditorElement[]; // Timeline as it was when the drag started (roll/slip/slide)
+    groupStarts?: { id: string; startTime: number }[]; // Other selected clips moving along, at their original start
+  } | null>(null);
+
+  // Marquee (box) selection, in client coordinates
+  const [marquee, setMarquee] = useState<{
+    startX: number;
+    startY: number;
+    x: number;
+    y: number;
+    baseSelection: string[]; // Selection kept when Shift/Cmd is held
   } | null>(null);
 
+  // Quantize a time to whole project frames when frame snapping is on
+  const toFrame = useCallback((time: number) => {
+    return settings.snapToFrames ? snapTimeToFrame(time, settings.fps) : time;
+  }, [settings.snapToFrames, settings.fps]);
+
+  // Rubber band shown on audio and video clips (cycled from the toolbar)
+  const [automationProperty, setAutomationProperty] = useState<AutomationProperty | null>(null);
+
   // Snap indicator state
   const [snapIndicator, setSnapIndicator] = useState<{ time: number; trackId: number } | null>(null);
 
@@ -118,31 +184,133 @@ const Timeline: React.FC<TimelineProps> = ({
     updateTimeFromMouse(e);
   };
 
+  const getTimeFromMouse = (e: { clientX: number }) => {
+    if (!rulerRef.current) return 0;
+    const rect = rulerRef.current.getBoundingClientRect();
+    return (e.clientX - rect.left - 96) / pixelsPerSecond;
+  };
+
   const updateTimeFromMouse = (e: MouseEvent | React.MouseEvent) => {
     if (!rulerRef.current) return;
-    const rect = rulerRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left - 96;
-    const newTime = Math.max(0, x / pixelsPerSecond);
+    const newTime = Math.max(0, toFrame(getTimeFromMouse(e)));
     onSeek(newTime);
   };
 
   // -- Element Interaction Logic --
-  const handleElementInteraction = (e: React.MouseEvent, type: DragMode, elementId: string, trackId: number, startTime: number, duration: number, mediaOffset: number) => {
+  const handleElementInteraction = (e: React.MouseEvent, type: ClipHandle, elementId: string, trackId: number, startTime: number, duration: number, mediaOffset: number) => {
     e.stopPropagation();
     e.preventDefault();
-    onSelectElement(elementId);
+
+    // Cmd/Ctrl+click only toggles the clip in the selection
+    const selectionMode = getSelectionMode(e);
+    if (selectionMode === 'toggle') {
+      onSelectElement(elementId, 'toggle');
+      return;
+    }
+    // Pressing on a clip that's already selected keeps the group so it can be dragged together
+    const keepGroup = selectionMode === 'add' || selectedElementIds.includes(elementId);
+    const selection = updateSelection(selectedElementIds, [elementId], keepGroup ? 'add' : 'replace');
+    onSelectElement(elementId, keepGroup ? 'add' : 'replace');
+    const element = elements.find(el => el.id === elementId);
+
+    // The active tool decides what dragging a clip does; Alt+drag always slips
+    let mode: DragMode = type;
+    let rollEdge: 'start' | 'end' | undefined;
+    if (editTool === 'slip' || (e.altKey && type === 'MOVE')) {
+      mode = 'SLIP';
+    } else if (editTool === 'slide') {
+      mode = 'SLIDE';
+    } else if (editTool === 'roll' && element) {
+      // Roll the cut at the handle, or the one nearest the click
+      rollEdge = type === 'RESIZE_L' ? 'start'
+        : type === 'RESIZE_R' ? 'end'
+        : getTimeFromMouse(e) < startTime + duration / 2 ? 'start' : 'end';
+      const adjacent = findAdjacentClips(elements, element);
+      // Without a neighbour there's nothing to roll against, so trim the edge
+      mode = (rollEdge === 'start' ? adjacent.before : adjacent.after) ? 'ROLL' : rollEdge === 'start' ? 'RESIZE_L' : 'RESIZE_R';
+    }
+
+    const groupStarts = mode === 'MOVE' && selection.length > 1
+      ? elements.filter(el => el.id !== elementId && selection.includes(el.id)).map(el => ({ id: el.id, startTime: el.startTime }))
+      : undefined;
+
+    const rippleTargets = rippleEditMode && onRippleTrim && (mode === 'RESIZE_L' || mode === 'RESIZE_R')
+      ? collectRippleTargets(elements, tracks, markers, trackId, startTime + duration, rippleScope, elementId)
+      : undefined;
 
     setDragState({
-      mode: type,
+      mode,
       elementId,
       startX: e.clientX,
       originalStartTime: startTime,
       originalDuration: duration,
-      originalMediaOffset: mediaOffset,
-      originalTrackId: trackId
+      originalTrackId: trackId,
+      headRoom: element ? getHeadRoom(element) : Infinity,
+      tailRoom: element ? getTailRoom(element) : Infinity,
+      rippleTargets,
+      rollEdge,
+      originalElements: elements,
+      groupStarts
     });
   };
 
+  // -- Marquee Selection Logic --
+  const handleMarqueeMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || !rulerRef.current) return;
+    // Leave the track headers to their own buttons
+    if (e.clientX - rulerRef.current.getBoundingClientRect().left < 96) return;
+    if ((e.target as HTMLElement).closest('button')) return;
+    e.preventDefault();
+    setMarquee({
+      startX: e.clientX,
+      startY: e.clientY,
+      x: e.clientX,
+      y: e.clientY,
+      baseSelection: getSelectionMode(e) === 'replace' ? [] : selectedElementIds
+    });
+  };
+
+  useEffect(() => {
+    if (!marquee) return;
+
+    // Clips overlapping the box in time, on the track rows it covers
+    const getMarqueeSelection = (box: NonNullable<typeof marquee>) => {
+      const startTime = getTimeFromMouse({ clientX: Math.min(box.startX, box.x) });
+      const endTime = getTimeFromMouse({ clientX: Math.max(box.startX, box.x) });
+      const top = Math.min(box.startY, box.y);
+      const bottom = Math.max(box.startY, box.y);
+      const rows: HTMLElement[] = scrollRef.current ? Array.from(scrollRef.current.querySelectorAll<HTMLElement>('[data-track-id]')) : [];
+      const trackIds = rows
+        .filter(row => {
+          const rect = row.getBoundingClientRect();
+          return rect.bottom > top && rect.top < bottom;
+        })
+        .map(row => Number(row.dataset.trackId));
+      return updateSelection(box.baseSelection, getElementIdsInRange(elements, startTime, endTime, trackIds), 'add');
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const box = { ...marquee, x: e.clientX, y: e.clientY };
+      setMarquee(box);
+      onSelectElements?.(getMarqueeSelection(box));
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      // A click on empty timeline space clears the selection
+      if (Math.abs(e.clientX - marquee.startX) < 3 && Math.abs(e.clientY - marquee.startY) < 3) {
+        onSelectElements?.(marquee.baseSelection);
+      }
+      setMarquee(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [marquee, elements, pixelsPerSecond, onSelectElements]);
+
   // Global Mouse Move / Up for dragging
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -155,6 +323,8 @@ const Timeline: React.FC<TimelineProps> = ({
         const deltaX = e.clientX - dragState.startX;
         const deltaTime = deltaX / pixelsPerSecond;
         const shiftPressed = e.shiftKey;
+        // The clip as it was when the drag started
+        const clip = dragState.originalElements.find(el => el.id === dragState.elementId);
 
         if (dragState.mode === 'MOVE') {
           let newStartTime = Math.max(0, dragState.originalStartTime + deltaTime);
@@ -175,6 +345,9 @@ const Timeline: React.FC<TimelineProps> = ({
             }
           }
 
+          // Groups keep their tracks
+          if (dragState.groupStarts) newTrackId = dragState.originalTrackId;
+
           // Apply magnetic snapping for start edge
           const snapPoints = findSnapPoints(newTrackId, dragState.elementId);
           const startSnap = snapToNearestPoint(newStartTime, snapPoints, shiftPressed);
@@ -194,8 +367,17 @@ const Timeline: React.FC<TimelineProps> = ({
             setSnapIndicator(null);
           }
 
+          if (dragState.groupStarts) {
+            // Group move: every selected clip shifts by the same amount, none before 0
+            const earliestStart = Math.min(dragState.originalStartTime, ...dragState.groupStarts.map(g => g.startTime));
+            const delta = Math.max(-earliestStart, toFrame(newStartTime) - dragState.originalStartTime);
+            onUpdateElement(dragState.elementId, { startTime: dragState.originalStartTime + delta });
+            dragState.groupStarts.forEach(g => onUpdateElement(g.id, { startTime: g.startTime + delta }));
+            return;
+          }
+
           onUpdateElement(dragState.elementId, {
-            startTime: Math.max(0, newStartTime),
+            startTime: Math.max(0, toFrame(newStartTime)),
             trackId: newTrackId
           });
 
@@ -212,10 +394,24 @@ const Timeline: React.FC<TimelineProps> = ({
             setSnapIndicator(null);
           }
 
-          const newDuration = Math.max(0.5, newEndTime - dragState.originalStartTime);
-          onUpdateElement(dragState.elementId, {
-            duration: newDuration
-          });
+          let newDuration = Math.max(0.5, toFrame(newEndTime) - dragState.originalStartTime);
+
+          // Media can't extend past the end of its source
+          newDuration = Math.min(newDuration, dragState.originalDuration + dragState.tailRoom);
+
+          if (dragState.rippleTargets && onRippleTrim) {
+            // Ripple: later clips follow the end edge
+            const delta = clampRippleDelta(elements, dragState.rippleTargets, newDuration - dragState.originalDuration, dragState.elementId);
+            onRippleTrim(dragState.elementId, {
+              duration: dragState.originalDuration + delta,
+              ...(clip && { mediaOffset: getOffsetForEndTrim(clip, delta) })
+            }, dragState.rippleTargets, delta);
+          } else {
+            onUpdateElement(dragState.elementId, {
+              duration: newDuration,
+              ...(clip && { mediaOffset: getOffsetForEndTrim(clip, newDuration - dragState.originalDuration) })
+            });
+          }
 
         } else if (dragState.mode === 'RESIZE_L') {
           // Resize Left Edge: Changes StartTime, Duration, and MediaOffset
@@ -232,23 +428,66 @@ const Timeline: React.FC<TimelineProps> = ({
             setSnapIndicator(null);
           }
 
-          // Clamp to 0
-          if (newStartTime < 0) newStartTime = 0;
+          // Clamp to 0, and for media to the first frame of the source
+          newStartTime = toFrame(newStartTime);
+          const minStartTime = Math.max(0, dragState.originalStartTime - dragState.headRoom);
+          if (newStartTime < minStartTime) newStartTime = minStartTime;
+
+          // If duration hits min, stop moving start time
+          let newDuration = dragState.originalDuration - (newStartTime - dragState.originalStartTime);
+          if (newDuration < 0.5) {
+            newDuration = 0.5;
+            newStartTime = dragState.originalStartTime + (dragState.originalDuration - 0.5);
+          }
 
           // Calculate effective delta after clamping
           const effectiveDelta = newStartTime - dragState.originalStartTime;
-          const newDuration = Math.max(0.5, dragState.originalDuration - effectiveDelta);
 
-          // If duration hit min, stop moving start time
-          if (newDuration === 0.5) {
-            newStartTime = dragState.originalStartTime + (dragState.originalDuration - 0.5);
+          if (dragState.rippleTargets && onRippleTrim) {
+            // Ripple: the clip keeps its start and later clips take up the length change
+            const delta = clampRippleDelta(elements, dragState.rippleTargets, -effectiveDelta, dragState.elementId);
+            // The clip's start stays put, so its content moves by the trimmed amount
+            const trimmed = clip && trimStart(clip, -delta);
+            onRippleTrim(dragState.elementId, {
+              startTime: dragState.originalStartTime,
+              duration: dragState.originalDuration + delta,
+              ...(trimmed && { mediaOffset: trimmed.mediaOffset, keyframes: trimmed.keyframes, masks: trimmed.masks })
+            }, dragState.rippleTargets, delta);
+          } else {
+            const trimmed = clip && trimStart(clip, effectiveDelta);
+            onUpdateElement(dragState.elementId, {
+              startTime: newStartTime,
+              duration: newDuration,
+              ...(trimmed && { mediaOffset: trimmed.mediaOffset, keyframes: trimmed.keyframes, masks: trimmed.masks })
+            });
           }
 
-          onUpdateElement(dragState.elementId, {
-            startTime: newStartTime,
-            duration: newDuration,
-            mediaOffset: dragState.originalMediaOffset + effectiveDelta
-          });
+        } else {
+          // Roll / Slip / Slide: computed from the clips as they were at drag start
+          if (!clip) return;
+
+          let result: TrimResult | null = null;
+          if (dragState.mode === 'SLIP') {
+            result = slipEdit(clip, toFrame(deltaTime));
+          } else {
+            // Snap the cut (roll) or the clip start (slide)
+            const edgeTime = dragState.mode === 'ROLL' && dragState.rollEdge === 'end'
+              ? clip.startTime + clip.duration
+              : clip.startTime;
+            const snapPoints = findSnapPoints(dragState.originalTrackId, dragState.elementId);
+            const snap = snapToNearestPoint(edgeTime + deltaTime, snapPoints, shiftPressed);
+            setSnapIndicator(snap.didSnap ? { time: snap.snapped, trackId: dragState.originalTrackId } : null);
+            const delta = toFrame(snap.snapped) - edgeTime;
+
+            result = dragState.mode === 'ROLL'
+              ? rollEdit(dragState.originalElements, clip, dragState.rollEdge!, delta)
+              : slideEdit(dragState.originalElements, clip, delta);
+          }
+
+          if (result) {
+            result.updates.forEach(({ id, updates }) => onUpdateElement(id, updates));
+            onTrimPreview?.(result.preview);
+          }
         }
       }
     };
@@ -257,6 +496,7 @@ const Timeline: React.FC<TimelineProps> = ({
       setIsDraggingPlayhead(false);
       setDragState(null);
       setSnapIndicator(null); // Clear snap indicator on release
+      onTrimPreview?.(null);
     };
 
     if (isDraggingPlayhead || dragState) {
@@ -267,7 +507,7 @@ const Timeline: React.FC<TimelineProps> = ({
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDraggingPlayhead, dragState, pixelsPerSecond, onSeek, onUpdateElement, findSnapPoints, snapToNearestPoint]);
+  }, [isDraggingPlayhead, dragState, elements, pixelsPerSecond, onSeek, onUpdateElement, onRippleTrim, onTrimPreview, findSnapPoints, snapToNearestPoint, toFrame]);
 
 
   // -- Library Asset Drop Logic --
@@ -285,7 +525,7 @@ const Timeline: React.FC<TimelineProps> = ({
       // Calculate time from drop position relative to the track container
       const rect = e.currentTarget.getBoundingClientRect();
       const x = e.clientX - rect.left - 96;
-      const dropTime = Math.max(0, x / pixelsPerSecond);
+      const dropTime = Math.max(0, toFrame(x / pixelsPerSecond));
 
       onAddAsset(assetId, trackId, dropTime);
     }
@@ -313,9 +553,25 @@ const Timeline: React.FC<TimelineProps> = ({
       {/* Tools / Header */}
       <div className="h-10 border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 flex items-center px-4 justify-between transition-colors">
         <div className="flex space-x-4 text-xs items-center">
-          <span className="font-mono text-blue-600 dark:text-blue-400">{formatTime(currentTime)}</span>
+          <span className="font-mono text-blue-600 dark:text-blue-400">{formatTimecode(currentTime, settings.fps, settings.timecodeStart)}</span>
           <div className="h-4 w-px bg-gray-300 dark:bg-gray-700"></div>
 
+          {/* Edit Tool Selector */}
+          {onChangeEditTool && (
+            <div className="flex items-center rounded border border-gray-200 dark:border-gray-700 overflow-hidden">
+              {EDIT_TOOLS.map(tool => (
+                <button
+                  key={tool.id}
+                  onClick={() => onChangeEditTool(tool.id)}
+                  className={`px-2 py-1 transition ${editTool === tool.id ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-600 dark:text-gray-300'}`}
+                  title={`${tool.label} (${tool.shortcut}) - ${tool.description}`}
+                >
+                  {tool.label}
+                </button>
+              ))}
+            </div>
+          )}
+
           <button
             onClick={onSplit}
             className="flex items-center space-x-1 hover:bg-gray-100 dark:hover:bg-gray-800 px-2 py-1 rounded transition text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white"
@@ -325,17 +581,40 @@ const Timeline: React.FC<TimelineProps> = ({
             <span>Split</span>
           </button>
 
+          {/* Select Forward */}
+          {onSelectElements && (
+            <button
+              onClick={(e) => onSelectElements(getElementIdsFromTime(elements, currentTime), e.shiftKey ? 'add' : 'replace')}
+              className="flex items-center space-x-1 hover:bg-gray-100 dark:hover:bg-gray-800 px-2 py-1 rounded transition text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white"
+              title="Select all clips from the playhead forward (A)"
+            >
+              <span>⇥</span>
+              <span>Select Forward</span>
+            </button>
+          )}
+
           {onToggleRippleEdit && (
             <button
               onClick={onToggleRippleEdit}
               className={`flex items-center space-x-1 px-2 py-1 rounded transition ${rippleEditMode ? 'bg-orange-100 dark:bg-orange-900/50 text-orange-600 dark:text-orange-400' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-600 dark:text-gray-300'}`}
-              title="Ripple Edit Mode - shifts subsequent clips when trimming/deleting"
+              title="Ripple Edit Mode - shifts subsequent clips when trimming, inserting or deleting"
             >
               <span>⟷</span>
               <span>Ripple</span>
             </button>
           )}
 
+          {/* Ripple Scope - which clips follow a ripple edit */}
+          {rippleEditMode && onChangeRippleScope && (
+            <button
+              onClick={() => onChangeRippleScope(rippleScope === 'track' ? 'all' : 'track')}
+              className="flex items-center px-2 py-1 rounded transition bg-orange-50 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400 hover:bg-orange-100 dark:hover:bg-orange-900/50"
+              title={rippleScope === 'track' ? "Ripple this track only (click to ripple all unlocked tracks)" : "Ripple all unlocked tracks (click to ripple this track only)"}
+            >
+              <span>{rippleScope === 'track' ? 'Track' : 'All Tracks'}</span>
+            </button>
+          )}
+
           {/* Snap Toggle */}
           {onToggleSnap && (
             <button
@@ -348,6 +627,40 @@ const Timeline: React.FC<TimelineProps> = ({
             </button>
           )}
 
+          {/* Audio Automation: off -> volume -> pan */}
+          <button
+            onClick={() => setAutomationProperty(automationProperty === null ? 'volume' : automationProperty === 'volume' ? 'pan' : null)}
+            className={`flex items-center space-x-1 px-2 py-1 rounded transition ${automationProperty ? 'bg-green-100 dark:bg-green-900/50 text-green-600 dark:text-green-400' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-600 dark:text-gray-300'}`}
+            title="Show volume or pan automation on audio and video clips (click to cycle)"
+          >
+            <span>〰</span>
+            <span>{automationProperty === 'volume' ? 'Volume' : automationProperty === 'pan' ? 'Pan' : 'Automation'}</span>
+          </button>
+
+          {/* Keyframe Editor Toggle */}
+          {onToggleKeyframeEditor && (
+            <button
+              onClick={onToggleKeyframeEditor}
+              className={`flex items-center space-x-1 px-2 py-1 rounded transition ${keyframeEditorOpen ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-600 dark:text-gray-300'}`}
+              title="Show keyframes of the selected clip as a dopesheet and curves"
+            >
+              <span>◆</span>
+              <span>Keyframes</span>
+            </button>
+          )}
+
+          {/* Mixer Toggle */}
+          {onToggleMixer && (
+            <button
+              onClick={onToggleMixer}
+              className={`flex items-center space-x-1 px-2 py-1 rounded transition ${mixerOpen ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-600 dark:text-gray-300'}`}
+              title="Show the track mixer: volume, pan, mute, solo and levels"
+            >
+              <span>🎚</span>
+              <span>Mixer</span>
+            </button>
+          )}
+
           {/* Close Gaps */}
           {onCloseGaps && (
             <button
@@ -402,7 +715,11 @@ const Timeline: React.FC<TimelineProps> = ({
         </div>
       </div>
 
-      <div className="flex-grow relative overflow-x-auto overflow-y-auto custom-scrollbar">
+      <div
+        ref={scrollRef}
+        className="flex-grow relative overflow-x-auto overflow-y-auto custom-scrollbar"
+        onScroll={(e) => onScroll?.(e.currentTarget.scrollLeft)}
+      >
         <div className="relative min-w-full" style={{ width: `${totalWidth + 96}px` }}>
 
           {/* Ruler */}
@@ -458,7 +775,7 @@ const Timeline: React.FC<TimelineProps> = ({
           </div>
 
           {/* Tracks */}
-          <div className="relative">
+          <div className="relative" onMouseDown={handleMarqueeMouseDown}>
             {/* Playhead */}
             <div
               className="absolute top-0 w-px bg-red-500 z-30 pointer-events-none"
@@ -467,6 +784,18 @@ const Timeline: React.FC<TimelineProps> = ({
               <div className="w-3 h-3 bg-red-500 transform -translate-x-1/2 -translate-y-1/2 rotate-45 absolute top-0"></div>
             </div>
 
+            {marquee && (
+              <div
+                className="fixed border border-blue-500 bg-blue-500/10 z-50 pointer-events-none"
+                style={{
+                  left: Math.min(marquee.startX, marquee.x),
+                  top: Math.min(marquee.startY, marquee.y),
+                  width: Math.abs(marquee.x - marquee.startX),
+                  height: Math.abs(marquee.y - marquee.startY)
+                }}
+              />
+            )}
+
             {snapIndicator && (
               <div
                 className="absolute top-0 w-0.5 bg-green-500 z-40 pointer-events-none animate-pulse"
@@ -489,12 +818,16 @@ const Timeline: React.FC<TimelineProps> = ({
                     currentTime={currentTime}
                     pixelsPerSecond={pixelsPerSecond}
                     onSelectElement={onSelectElement}
-                    selectedElementId={selectedElementId}
+                    selectedElementIds={selectedElementIds}
+                    onSelectTrack={onSelectElements && ((trackId, mode) => onSelectElements(getTrackElementIds(elements, trackId), mode))}
                     onUpdateElement={onUpdateElement}
                     onElementInteraction={handleElementInteraction}
+                    trimmingElementId={dragState && dragState.mode !== 'MOVE' && dragState.mode !== 'SLIDE' ? dragState.elementId : null}
+                    editTool={editTool}
                     onInsertTrack={onInsertTrack}
                     onDeleteTrack={onDeleteTrack}
                     trackCount={tracks.length}
+                    automationProperty={automationProperty}
                   />
                 </div>
 
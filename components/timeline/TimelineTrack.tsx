@@ -1,31 +1,55 @@
 import React from 'react';
-import { EditorElement, Track, ElementType } from '../../types';
+import { EditorElement, ElementType, Track } from '../../types';
+import { EditTool } from '../../utils/timelineEdits';
+import { getHeadRoom, getTailRoom, hasSpeedRamp } from '../../utils/timeRemap';
+import { SelectionMode } from '../../utils/selection';
+import SpeedRampCurve from './SpeedRampCurve';
+import AudioAutomationCurve, { AutomationProperty } from './AudioAutomationCurve';
+import FadeHandles from './FadeHandles';
+import ClipWaveform from './ClipWaveform';
 
 interface TimelineTrackProps {
   track: Track;
   elements: EditorElement[];
   currentTime: number;
   pixelsPerSecond: number;
-  onSelectElement: (id: string) => void;
-  selectedElementId: string | null;
+  onSelectElement: (id: string, mode?: SelectionMode) => void;
+  selectedElementIds: string[];
+  onSelectTrack?: (trackId: number, mode?: SelectionMode) => void;
   onUpdateElement: (id: string, updates: Partial<EditorElement>) => void;
   onElementInteraction: (e: React.MouseEvent, type: 'MOVE' | 'RESIZE_L' | 'RESIZE_R', elementId: string, trackId: number, startTime: number, duration: number, mediaOffset: number) => void;
+  trimmingElementId?: string | null; // Element whose edge is being dragged
+  editTool?: EditTool;
   onInsertTrack?: (afterTrackId: number) => void;
   onDeleteTrack?: (trackId: number) => void;
   trackCount?: number;
+  automationProperty?: AutomationProperty | null; // Rubber band shown on audio and video clips
 }
 
+// Clip cursor for each timeline edit tool
+const TOOL_CURSORS: Record<EditTool, string> = {
+  select: 'cursor-grab active:cursor-grabbing',
+  roll: 'cursor-col-resize',
+  slip: 'cursor-ew-resize',
+  slide: 'cursor-move'
+};
+
 const TimelineTrack: React.FC<TimelineTrackProps> = ({
   track,
   elements,
+  currentTime,
   pixelsPerSecond,
   onSelectElement,
-  selectedElementId,
+  selectedElementIds,
+  onSelectTrack,
   onUpdateElement,
   onElementInteraction,
+  trimmingElementId,
+  editTool,
   onInsertTrack,
   onDeleteTrack,
-  trackCount = 1
+  trackCount = 1,
+  automationProperty
 }) => {
   return (
     <div className="flex h-12 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 relative group/track transition-colors">
@@ -36,6 +60,17 @@ const TimelineTrack: React.FC<TimelineTrackProps> = ({
 
         {/* Track Control Buttons - overlay on hover */}
         <div className="absolute right-1 top-1/2 -translate-y-1/2 flex items-center space-x-0.5 opacity-0 group-hover/header:opacity-100 transition-opacity bg-gray-50 dark:bg-gray-800 rounded pl-1">
+          {/* Select Layer Clips Button */}
+          {onSelectTrack && (
+            <button
+              onClick={(e) => onSelectTrack(track.id, e.shiftKey ? 'add' : 'replace')}
+              className="w-5 h-5 flex items-center justify-center rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 transition-colors"
+              title="Select all clips on this layer (Shift adds to selection)"
+            >
+              <span className="text-xs">⇉</span>
+            </button>
+          )}
+
           {/* Add Layer Button */}
           {onInsertTrack && (
             <button
@@ -62,15 +97,34 @@ const TimelineTrack: React.FC<TimelineTrackProps> = ({
 
       {/* Track Content (Timeline) */}
       <div className="flex-grow relative h-full overflow-hidden">
+        {/* Unused head and tail of the source media while trimming */}
+        {elements
+          .filter(el => el.id === trimmingElementId && el.trackId === track.id && Number.isFinite(getHeadRoom(el)))
+          .map((el) => {
+            // Unknown source length: show only the head
+            const tailRoom = Number.isFinite(getTailRoom(el)) ? getTailRoom(el) : 0;
+            return (
+              <div
+                key={`${el.id}-source`}
+                className="absolute top-1 bottom-1 rounded-sm border border-dashed border-blue-400/70 bg-blue-400/10 pointer-events-none"
+                style={{
+                  left: `${(el.startTime - getHeadRoom(el)) * pixelsPerSecond}px`,
+                  width: `${(getHeadRoom(el) + el.duration + tailRoom) * pixelsPerSecond}px`
+                }}
+              ></div>
+            );
+          })}
+
         {elements.filter(el => el.trackId === track.id).map((el) => {
           const left = el.startTime * pixelsPerSecond;
           const width = el.duration * pixelsPerSecond;
-          const isSelected = selectedElementId === el.id;
+          const isSelected = selectedElementIds.includes(el.id);
+          const hasAudio = el.type === ElementType.VIDEO || el.type === ElementType.AUDIO;
 
           return (
             <div
               key={el.id}
-              className={`absolute top-1 bottom-1 rounded-sm cursor-grab active:cursor-grabbing select-none overflow-hidden text-xs flex items-center px-2 whitespace-nowrap transition-colors
+              className={`absolute top-1 bottom-1 rounded-sm ${TOOL_CURSORS[editTool ?? 'select']} select-none overflow-hidden text-xs flex items-center px-2 whitespace-nowrap transition-colors
                 ${isSelected
                   ? 'bg-blue-500 border border-blue-600 z-10 text-white'
                   : 'bg-blue-100 dark:bg-blue-900/60 border border-blue-200 dark:border-blue-800 hover:bg-blue-200 dark:hover:bg-blue-800/80 text-blue-900 dark:text-blue-100'}
@@ -78,25 +132,39 @@ const TimelineTrack: React.FC<TimelineTrackProps> = ({
               style={{ left: `${left}px`, width: `${width}px` }}
               onMouseDown={(e) => onElementInteraction(e, 'MOVE', el.id, el.trackId, el.startTime, el.duration, el.mediaOffset)}
             >
-              <span className="truncate drop-shadow-sm pointer-events-none">{el.name}</span>
+              {/* Waveform of the clip's sound, under its name */}
+              {hasAudio && (
+                <ClipWaveform element={el} pixelsPerSecond={pixelsPerSecond} isSelected={isSelected} />
+              )}
+
+              <span className="relative truncate drop-shadow-sm pointer-events-none">{el.name}</span>
+
+              {/* Keyframed speed, editable on the clip */}
+              {hasSpeedRamp(el) && (
+                <SpeedRampCurve element={el} pixelsPerSecond={pixelsPerSecond} onUpdateElement={onUpdateElement} />
+              )}
 
               {isSelected && (
                 <>
-                  {/* Only show resize handles for stretchable elements (not video/audio) */}
-                  {el.type !== ElementType.VIDEO && el.type !== ElementType.AUDIO && (
-                    <>
-                      <div
-                        className="absolute left-0 top-0 bottom-0 w-2 bg-white/30 hover:bg-white/50 cursor-ew-resize"
-                        onMouseDown={(e) => onElementInteraction(e, 'RESIZE_L', el.id, el.trackId, el.startTime, el.duration, el.mediaOffset)}
-                      ></div>
-                      <div
-                        className="absolute right-0 top-0 bottom-0 w-2 bg-white/30 hover:bg-white/50 cursor-ew-resize"
-                        onMouseDown={(e) => onElementInteraction(e, 'RESIZE_R', el.id, el.trackId, el.startTime, el.duration, el.mediaOffset)}
-                      ></div>
-                    </>
-                  )}
+                  {/* Resize handles; on video/audio these trim the source media */}
+                  <div
+                    className="absolute left-0 top-0 bottom-0 w-2 bg-white/30 hover:bg-white/50 cursor-ew-resize"
+                    onMouseDown={(e) => onElementInteraction(e, 'RESIZE_L', el.id, el.trackId, el.startTime, el.duration, el.mediaOffset)}
+                  ></div>
+                  <div
+                    className="absolute right-0 top-0 bottom-0 w-2 bg-white/30 hover:bg-white/50 cursor-ew-resize"
+                    onMouseDown={(e) => onElementInteraction(e, 'RESIZE_R', el.id, el.trackId, el.startTime, el.duration, el.mediaOffset)}
+                  ></div>
                 </>
               )}
+
+              {/* Audio fades, and volume/pan automation when shown */}
+              {hasAudio && (
+                <FadeHandles element={el} pixelsPerSecond={pixelsPerSecond} currentTime={currentTime} showHandles={isSelected} onUpdateElement={onUpdateElement} />
+              )}
+              {hasAudio && automationProperty && (
+                <AudioAutomationCurve element={el} property={automationProperty} pixelsPerSecond={pixelsPerSecond} currentTime={currentTime} onUpdateElement={onUpdateElement} />
+              )}
             </div>
           );
         })}
@@ -1,30 +1,83 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { DownloadIcon } from './Icons';
+import { EXPORT_PRESETS, EXPORT_QUALITY_PRESETS, MAX_EXPORT_DIMENSION, DEFAULT_PROJECT_SETTINGS } from '../../constants';
+import { ProjectSettings } from '../../types';
+import { ExportProgress, EncodingSettings, ExportContainer, CONTAINER_LABELS, isContainerSupported } from '../../utils/exporter';
 
 interface ExportModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onExport: (filename: string, fps: number) => void;
+    onExport: (filename: string, settings: EncodingSettings) => void;
+    onCancel?: () => void;
+    progress?: ExportProgress | null; // Set while an export is running
     duration: number;
+    projectSettings?: ProjectSettings; // Output size and frame rate default to the project canvas
 }
 
-const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, duration }) => {
+const PHASE_LABELS: Record<ExportProgress['phase'], string> = {
+    audio: 'Mixing audio...',
+    video: 'Rendering frames...',
+    finalizing: 'Finalizing file...'
+};
+
+// Encoders (H.264 in particular) require even frame dimensions
+const clampDimension = (value: number) => Math.min(MAX_EXPORT_DIMENSION, Math.max(16, Math.round(value / 2) * 2));
+
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, onCancel, progress, duration, projectSettings = DEFAULT_PROJECT_SETTINGS }) => {
     const [filename, setFilename] = useState(`project_${new Date().toISOString().slice(0, 10)}`);
     const [fps, setFps] = useState(30);
-    const [isExporting, setIsExporting] = useState(false);
+    const [container, setContainer] = useState<ExportContainer>('mp4');
+    const [presetId, setPresetId] = useState<string>(EXPORT_PRESETS[0].id); // 'custom' for a free size
+    const [width, setWidth] = useState(EXPORT_PRESETS[0].width);
+    const [height, setHeight] = useState(EXPORT_PRESETS[0].height);
+    const [qualityId, setQualityId] = useState<string>('standard'); // 'custom' uses the bitrate slider
+    const [customBitrateMbps, setCustomBitrateMbps] = useState(8);
+    const [keyframeInterval, setKeyframeInterval] = useState(2);
+    const [supported, setSupported] = useState<Record<ExportContainer, boolean>>({ mp4: true, webm: true });
+
+    // Default to the project canvas each time the dialog opens
+    useEffect(() => {
+        if (!isOpen) return;
+        const preset = EXPORT_PRESETS.find(p => p.width === projectSettings.width && p.height === projectSettings.height);
+        setPresetId(preset ? preset.id : 'custom');
+        setWidth(projectSettings.width);
+        setHeight(projectSettings.height);
+        setFps(projectSettings.fps);
+    }, [isOpen, projectSettings]);
+
+    // Probe codec support so unsupported formats can be flagged before exporting
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        Promise.all([isContainerSupported('mp4', width, height), isContainerSupported('webm', width, height)]).then(([mp4, webm]) => {
+            if (!cancelled) setSupported({ mp4, webm });
+        });
+        return () => { cancelled = true; };
+    }, [isOpen, width, height]);
 
     if (!isOpen) return null;
 
+    const isExporting = !!progress;
+    const quality = EXPORT_QUALITY_PRESETS.find(q => q.id === qualityId);
+    const bitrateMbps = quality
+        ? Math.max(1, Math.round((width * height * fps * quality.bitsPerPixel) / 1_000_000))
+        : customBitrateMbps;
+
+    const handlePresetClick = (preset: typeof EXPORT_PRESETS[number]) => {
+        setPresetId(preset.id);
+        setWidth(preset.width);
+        setHeight(preset.height);
+    };
+
     const handleExportClick = () => {
-        setIsExporting(true);
-        onExport(filename, fps);
+        onExport(filename, { container, width: clampDimension(width), height: clampDimension(height), fps, videoBitrate: bitrateMbps * 1_000_000, keyframeInterval });
         // We don't close immediately, the parent handles the export process
     };
 
     return (
         <div className="fixed inset-0 z-[60] flex items-center justify-center">
-            <div className="absolute inset-0 bg-black/50" onClick={onClose}></div>
-            <div className="relative w-[400px] bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl shadow-2xl p-6">
+            <div className="absolute inset-0 bg-black/50" onClick={isExporting ? undefined : onClose}></div>
+            <div className="relative w-[440px] max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl shadow-2xl p-6">
                 <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-4 flex items-center gap-2">
                     <DownloadIcon className="w-5 h-5" />
                     Export Video
@@ -42,19 +95,78 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, du
                                 placeholder="My Video"
                             />
                             <span className="bg-gray-100 dark:bg-gray-800 border-y border-r border-gray-300 dark:border-gray-700 rounded-r px-3 py-2 text-sm text-gray-500">
-                                .webm
+                                .{supported[container] ? container : 'webm'}
                             </span>
                         </div>
                     </div>
 
                     <div className="space-y-1">
-                        <label className="text-xs font-semibold text-gray-500 uppercase">Frame Rate</label>
+                        <label className="text-xs font-semibold text-gray-500 uppercase">Resolution</label>
                         <div className="grid grid-cols-3 gap-2">
-                            {[24, 30, 60].map((rate) => (
+                            {EXPORT_PRESETS.map((preset) => (
+                                <button
+                                    key={preset.id}
+                                    onClick={() => handlePresetClick(preset)}
+                                    disabled={isExporting}
+                                    className={`py-2 rounded border text-xs font-medium transition ${presetId === preset.id
+                                            ? 'bg-blue-600 border-blue-600 text-white'
+                                            : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                                        }`}
+                                >
+                                    {preset.label}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => setPresetId('custom')}
+                                disabled={isExporting}
+                                className={`py-2 rounded border text-xs font-medium transition ${presetId === 'custom'
+                                        ? 'bg-blue-600 border-blue-600 text-white'
+                                        : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                                    }`}
+                            >
+                                Custom
+                            </button>
+                        </div>
+                        {presetId === 'custom' ? (
+                            <div className="flex items-center gap-2 pt-1">
+                                <input
+                                    type="number"
+                                    min="16"
+                                    max={MAX_EXPORT_DIMENSION}
+                                    step="2"
+                                    value={width}
+                                    onChange={(e) => setWidth(parseInt(e.target.value) || 0)}
+                                    onBlur={() => setWidth(clampDimension(width))}
+                                    disabled={isExporting}
+                                    className="w-24 bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-blue-500"
+                                />
+                                <span className="text-xs text-gray-500">×</span>
+                                <input
+                                    type="number"
+                                    min="16"
+                                    max={MAX_EXPORT_DIMENSION}
+                                    step="2"
+                                    value={height}
+                                    onChange={(e) => setHeight(parseInt(e.target.value) || 0)}
+                                    onBlur={() => setHeight(clampDimension(height))}
+                                    disabled={isExporting}
+                                    className="w-24 bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-blue-500"
+                                />
+                                <span className="text-xs text-gray-500">px</span>
+                            </div>
+                        ) : (
+                            <p className="text-[11px] text-gray-500">{width} × {height} px</p>
+                        )}
+                    </div>
+
+                    <div className="space-y-1">
+                        <label className="text-xs font-semibold text-gray-500 uppercase">Frame Rate</label>
+                        <div className="flex gap-2">
+                            {Array.from(new Set([24, 30, 60, projectSettings.fps])).sort((a, b) => a - b).map((rate) => (
                                 <button
                                     key={rate}
                                     onClick={() => setFps(rate)}
-                                    className={`py-2 rounded border text-sm font-medium transition ${fps === rate
+                                    className={`flex-1 py-2 rounded border text-sm font-medium transition ${fps === rate
                                             ? 'bg-blue-600 border-blue-600 text-white'
                                             : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
                                         }`}
@@ -65,27 +177,121 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, du
                         </div>
                     </div>
 
+                    <div className="space-y-1">
+                        <label className="text-xs font-semibold text-gray-500 uppercase">Format</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(Object.keys(CONTAINER_LABELS) as ExportContainer[]).map((format) => (
+                                <button
+                                    key={format}
+                                    onClick={() => setContainer(format)}
+                                    disabled={isExporting}
+                                    className={`py-2 rounded border text-sm font-medium transition ${container === format
+                                            ? 'bg-blue-600 border-blue-600 text-white'
+                                            : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                                        }`}
+                                >
+                                    {CONTAINER_LABELS[format]}
+                                </button>
+                            ))}
+                        </div>
+                        {!supported[container] && (
+                            <p className="text-[11px] text-amber-600 dark:text-amber-400">
+                                This browser can't encode {CONTAINER_LABELS[container]}, the export will fall back to WebM.
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="space-y-1">
+                        <div className="flex justify-between">
+                            <label className="text-xs font-semibold text-gray-500 uppercase">Quality</label>
+                            <span className="text-xs text-gray-500">{bitrateMbps} Mbps</span>
+                        </div>
+                        <div className="grid grid-cols-4 gap-2">
+                            {[...EXPORT_QUALITY_PRESETS, { id: 'custom', label: 'Custom' }].map((q) => (
+                                <button
+                                    key={q.id}
+                                    onClick={() => {
+                                        if (q.id === 'custom') setCustomBitrateMbps(bitrateMbps);
+                                        setQualityId(q.id);
+                                    }}
+                                    disabled={isExporting}
+                                    className={`py-2 rounded border text-xs font-medium transition ${qualityId === q.id
+                                            ? 'bg-blue-600 border-blue-600 text-white'
+                                            : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                                        }`}
+                                >
+                                    {q.label}
+                                </button>
+                            ))}
+                        </div>
+                        {qualityId === 'custom' && (
+                            <input
+                                type="range"
+                                min="1"
+                                max="100"
+                                step="1"
+                                value={customBitrateMbps}
+                                onChange={(e) => setCustomBitrateMbps(parseInt(e.target.value))}
+                                disabled={isExporting}
+                                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                            />
+                        )}
+                    </div>
+
+                    <div className="space-y-1">
+                        <label className="text-xs font-semibold text-gray-500 uppercase">Keyframe Interval</label>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="number"
+                                min="0.1"
+                                max="10"
+                                step="0.5"
+                                value={keyframeInterval}
+                                onChange={(e) => setKeyframeInterval(Math.max(0.1, parseFloat(e.target.value) || 2))}
+                                disabled={isExporting}
+                                className="w-20 bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-blue-500"
+                            />
+                            <span className="text-xs text-gray-500">seconds between keyframes</span>
+                        </div>
+                    </div>
+
                     <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded text-xs text-blue-800 dark:text-blue-200">
                         <p>Estimated Duration: {duration} seconds</p>
-                        <p className="opacity-75 mt-1">Video will appear to play back during export.</p>
+                        <p className="opacity-75 mt-1">Frames are rendered offline, so the export can take longer or shorter than the video itself.</p>
                     </div>
+
+                    {/* Export Progress */}
+                    {progress && (
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                                <span>{PHASE_LABELS[progress.phase]}</span>
+                                {progress.phase === 'video' && <span>{Math.round(progress.progress * 100)}%</span>}
+                            </div>
+                            <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                                <div
+                                    className="h-full bg-blue-600 transition-all"
+                                    style={{ width: `${(progress.phase === 'video' ? progress.progress : progress.phase === 'finalizing' ? 1 : 0) * 100}%` }}
+                                />
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 <div className="mt-6 flex justify-end space-x-3">
                     <button
-                        onClick={onClose}
+                        onClick={isExporting ? onCancel : onClose}
                         className="px-4 py-2 rounded text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition"
                     >
-                        Cancel
+                        {isExporting ? 'Stop Export' : 'Cancel'}
                     </button>
                     <button
                         onClick={handleExportClick}
-                        disabled={!filename}
-                        className={`px-4 py-2 rounded text-sm font-medium text-white transition shadow-sm flex items-center gap-2 ${!filename ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                        disabled={!filename || isExporting || width < 16 || height < 16}
+                        className={`px-4 py-2 rounded text-sm font-medium text-white transition shadow-sm flex items-center gap-2 ${!filename || isExporting || width < 16 || height < 16 ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
                             }`}
                     >
                         <DownloadIcon className="w-4 h-4" />
-                        Start Export
+                        {isExporting ? 'Exporting...' : 'Start Export'}
                     </button>
                 </div>
             </div>
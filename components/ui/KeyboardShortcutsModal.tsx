@@ -32,10 +32,24 @@ const KeyboardShortcutsModal: React.FC<KeyboardShortcutsModalProps> = ({ isOpen,
                 { key: 'Ctrl+D', action: 'Duplicate' },
             ]
         },
+        {
+            category: 'Selection', items: [
+                { key: 'Shift+Click', action: 'Add clip to selection' },
+                { key: 'Ctrl+Click', action: 'Toggle clip in selection' },
+                { key: 'Drag empty space', action: 'Box select clips' },
+                { key: 'Ctrl+A', action: 'Select all clips' },
+                { key: 'A', action: 'Select forward from playhead' },
+                { key: 'Esc', action: 'Clear selection' },
+            ]
+        },
         {
             category: 'Timeline', items: [
                 { key: '+ / =', action: 'Zoom in' },
                 { key: '- / _', action: 'Zoom out' },
+                { key: 'V', action: 'Select tool' },
+                { key: 'N', action: 'Roll tool' },
+                { key: 'Y', action: 'Slip tool' },
+                { key: 'U', action: 'Slide tool' },
                 { key: 'Shift+Drag', action: 'Disable snapping' },
                 { key: 'Alt+Drag', action: 'Slip edit (move media)' },
             ]
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { MonitorIcon } from './Icons';
+import { ProjectSettings } from '../../types';
+import { EXPORT_PRESETS, PROJECT_FRAME_RATES, MAX_EXPORT_DIMENSION } from '../../constants';
+import { formatTimecode, parseTimecode } from '../../utils/timecode';
+
+interface ProjectSettingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    settings: ProjectSettings;
+    onSave: (settings: ProjectSettings) => void;
+}
+
+const inputClass = 'bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded px-3 py-2 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-blue-500';
+
+const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onClose, settings, onSave }) => {
+    const [draft, setDraft] = useState<ProjectSettings>(settings);
+    const [timecodeText, setTimecodeText] = useState('');
+
+    // Start from the current settings each time the dialog opens
+    useEffect(() => {
+        if (!isOpen) return;
+        setDraft(settings);
+        setTimecodeText(formatTimecode(0, settings.fps, settings.timecodeStart));
+    }, [isOpen, settings]);
+
+    if (!isOpen) return null;
+
+    const update = (updates: Partial<ProjectSettings>) => setDraft(prev => ({ ...prev, ...updates }));
+    const timecodeStart = parseTimecode(timecodeText, draft.fps);
+    const isValid = draft.width >= 16 && draft.height >= 16 && timecodeStart !== null;
+
+    const handleSave = () => {
+        if (!isValid) return;
+        onSave({
+            ...draft,
+            // Even dimensions keep the canvas H.264 friendly
+            width: Math.min(MAX_EXPORT_DIMENSION, Math.round(draft.width / 2) * 2),
+            height: Math.min(MAX_EXPORT_DIMENSION, Math.round(draft.height / 2) * 2),
+            timecodeStart: timecodeStart!
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose}></div>
+            <div className="relative w-[420px] max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl shadow-2xl p-6">
+                <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-4 flex items-center gap-2">
+                    <MonitorIcon className="w-5 h-5" />
+                    Project Settings
+                </h2>
+
+                <div className="space-y-4">
+                    {/* Canvas Size */}
+                    <div className="space-y-1">
+                        <label className="text-xs font-semibold text-gray-500 uppercase">Canvas Size</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {EXPORT_PRESETS.map((preset) => (
+                                <button
+                                    key={preset.id}
+                                    onClick={() => update({ width: preset.width, height: preset.height })}
+                                    className={`py-2 rounded border text-xs font-medium transition ${draft.width === preset.width && draft.height === preset.height
+                                            ? 'bg-blue-600 border-blue-600 text-white'
+                                            : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                                        }`}
+                                >
+                                    {preset.label}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-2 pt-1">
+                            <input
+                                type="number"
+                                min="16"
+                                max={MAX_EXPORT_DIMENSION}
+                                step="2"
+                                value={draft.width}
+                                onChange={(e) => update({ width: parseInt(e.target.value) || 0 })}
+                                className={`w-24 ${inputClass}`}
+                            />
+                            <span className="text-xs text-gray-500">×</span>
+                            <input
+                                type="number"
+                                min="16"
+                                max={MAX_EXPORT_DIMENSION}
+                                step="2"
+                                value={draft.height}
+                                onChange={(e) => update({ height: parseInt(e.target.value) || 0 })}
+                                className={`w-24 ${inputClass}`}
+                            />
+                            <span className="text-xs text-gray-500">px</span>
+                        </div>
+                    </div>
+
+                    {/* Frame Rate */}
+                    <div className="space-y-1">
+                        <label className="text-xs font-semibold text-gray-500 uppercase">Frame Rate</label>
+                        <select
+                            value={draft.fps}
+                            onChange={(e) => update({ fps: Number(e.target.value) })}
+                            className={`w-full ${inputClass}`}
+                        >
+                            {PROJECT_FRAME_RATES.map(rate => (
+                                <option key={rate} value={rate}>{rate} fps</option>
+                            ))}
+                        </select>
+                        <label className="flex items-center gap-2 pt-1 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={draft.snapToFrames}
+                                onChange={(e) => update({ snapToFrames: e.target.checked })}
+                                className="rounded"
+                            />
+                            Snap timeline edits to whole frames
+                        </label>
+                    </div>
+
+                    {/* Background */}
+                    <div className="space-y-1">
+                        <label className="text-xs font-semibold text-gray-500 uppercase">Background</label>
+                        <div className="flex items-center gap-3">
+                            <input
+                                type="color"
+                                value={draft.backgroundColor}
+                                onChange={(e) => update({ backgroundColor: e.target.value })}
+                                disabled={draft.transparentBackground}
+                                className="w-10 h-8 rounded border border-gray-300 dark:border-gray-700 cursor-pointer disabled:opacity-40"
+                            />
+                            <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={draft.transparentBackground}
+                                    onChange={(e) => update({ transparentBackground: e.target.checked })}
+                                    className="rounded"
+                                />
+                                Transparent
+                            </label>
+                        </div>
+                        {draft.transparentBackground && (
+                            <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                                Transparency is kept in WebM exports only; MP4 renders it as black.
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Timecode Start */}
+                    <div className="space-y-1">
+                        <label className="text-xs font-semibold text-gray-500 uppercase">Timecode Start</label>
+                        <input
+                            type="text"
+                            value={timecodeText}
+                            onChange={(e) => setTimecodeText(e.target.value)}
+                            placeholder="00:00:00:00"
+                            className={`w-full font-mono ${inputClass} ${timecodeStart === null ? 'border-red-500 dark:border-red-500' : ''}`}
+                        />
+                        <p className="text-[11px] text-gray-500 dark:text-gray-400">HH:MM:SS:FF shown at the start of the timeline</p>
+                    </div>
+                </div>
+
+                <div className="mt-6 flex justify-end space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!isValid}
+                        className={`px-4 py-2 rounded text-sm font-medium text-white transition shadow-sm ${!isValid ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'}`}
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProjectSettingsModal;
@@ -1,3 +1,5 @@
+import { ProjectSettings } from './types';
+
 export const TIMELINE_HEIGHT = 300;
 export const HEADER_HEIGHT = 48;
 export const LEFT_PANEL_WIDTH = 320;
@@ -15,4 +17,33 @@ export const PIXELS_PER_SECOND_DEFAULT = 50;
 export const MIN_PIXELS_PER_SECOND = 10;
 export const MAX_PIXELS_PER_SECOND = 200;
 
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  width: 1920,
+  height: 1080,
+  fps: 30,
+  backgroundColor: '#000000',
+  transparentBackground: false,
+  timecodeStart: 0,
+  snapToFrames: false,
+};
+
+export const PROJECT_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 60];
+
+export const EXPORT_PRESETS = [
+  { id: '1080p', label: '1080p (16:9)', width: 1920, height: 1080 },
+  { id: '4k', label: '4K (16:9)', width: 3840, height: 2160 },
+  { id: 'vertical', label: 'Vertical (9:16)', width: 1080, height: 1920 }, // Shorts / Reels / TikTok
+  { id: 'square', label: 'Square (1:1)', width: 1080, height: 1080 },
+  { id: 'portrait', label: 'Portrait (4:5)', width: 1080, height: 1350 },
+];
+
+// Bits per pixel per frame; bitrate = width * height * fps * factor
+export const EXPORT_QUALITY_PRESETS = [
+  { id: 'draft', label: 'Draft', bitsPerPixel: 0.05 },
+  { id: 'standard', label: 'Standard', bitsPerPixel: 0.1 },
+  { id: 'high', label: 'High', bitsPerPixel: 0.2 },
+];
+
+export const MAX_EXPORT_DIMENSION = 7680;
+
 export const INITIAL_DURATION = 30; // 30 seconds default if no video
\ No newline at end of file
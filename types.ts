@@ -26,6 +26,14 @@ export interface Marker {
   note?: string;
 }
 
+// One entry of a clip's effect stack; the type names a registered effect (utils/effects.ts)
+export interface Effect {
+  id: string;
+  type: string;
+  enabled: boolean; // false bypasses the effect
+  params: Record<string, number>; // Missing values use the effect's defaults
+}
+
 export interface ElementProps {
   text?: string;
   backgroundColor?: string;
@@ -37,10 +45,14 @@ export interface ElementProps {
   borderColor?: string;
   borderWidth?: number;
   volume?: number; // 0-1
+  pan?: number; // -1 (left) to 1 (right), default 0
   isMuted?: boolean;
-  // Audio Ducking
-  ducking?: boolean; // If true, lowers volume of other tracks when this plays
-  duckingThreshold?: number; // 0-1, how much to lower others (e.g. 0.2 = 20% volume)
+  // Sidechain ducking (utils/sidechain.ts)
+  ducking?: boolean; // If true, lowers other clips while this clip's signal is above the threshold
+  duckingThreshold?: number; // dBFS, level of this clip that triggers ducking (default -30)
+  duckingDepth?: number; // dB other clips are lowered by (default 14)
+  duckingAttack?: number; // Seconds to duck (default 0.05)
+  duckingRelease?: number; // Seconds to recover (default 0.4)
 
   // Text styling
   fontFamily?: string;
@@ -68,15 +80,10 @@ export interface ElementProps {
   // DaVinci-style properties
   playbackRate?: number; // 0.25 to 4, default 1
   blendMode?: 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'color-dodge' | 'color-burn' | 'hard-light' | 'soft-light' | 'difference' | 'exclusion';
+  trackMatte?: 'alpha' | 'alpha-inverted' | 'luma' | 'luma-inverted'; // Show through the layer above, which is then hidden
 
-  // Video Filters
-  blur?: number; // pixels
-  brightness?: number; // 0-2, default 1
-  contrast?: number; // 0-2, default 1
-  saturation?: number; // 0-2, default 1
-  grayscale?: number; // 0-1
-  sepia?: number; // 0-1
-  hueRotate?: number; // degrees 0-360
+  // Video effects, applied in order (top of the list first)
+  effects?: Effect[];
 
   // Color Wheels (DaVinci-style Lift/Gamma/Gain)
   liftR?: number; // -1 to 1, shadows red
@@ -94,12 +101,23 @@ export interface ElementProps {
   cropRight?: number;
   cropTop?: number;
   cropBottom?: number;
+  cropMode?: 'mask' | 'fill'; // Hide the cropped edges, or scale what's left to fill the box (default 'mask')
 
   // Reverse playback
   isReversed?: boolean;
 
   // LUT preset (for quick color grading)
   lutPreset?: 'none' | 'cinematic' | 'vintage' | 'cool' | 'warm' | 'noir' | 'teal-orange' | 'bleach-bypass';
+  lutId?: string; // Imported .cube LUT (ReactFrameDB asset id), takes precedence over the preset
+  lutIntensity?: number; // 0-1, blend between the original and the LUT output (default 1)
+
+  // Chroma key (green/blue screen)
+  chromaKey?: boolean;
+  chromaKeyColor?: string; // Hex colour keyed out (default '#00ff00')
+  chromaKeyTolerance?: number; // 0-1, how far from the key colour is fully transparent (default 0.25)
+  chromaKeySoftness?: number; // 0-1, width of the partly transparent edge (default 0.1)
+  chromaKeySpill?: number; // 0-1, removal of the key colour cast on what's kept (default 0.5)
+  chromaKeyMatte?: boolean; // Show the matte (white = kept) instead of the keyed picture
 
   // Audio fade controls (in seconds)
   fadeIn?: number; // 0-5 seconds
@@ -115,6 +133,62 @@ export interface ElementProps {
   isFreezeFrame?: boolean;
 }
 
+// Easing applied from a keyframe towards the next one
+export type KeyframeEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'bezier' | 'hold';
+
+export interface Keyframe {
+  id: string;
+  time: number; // in seconds, relative to the element's startTime
+  value: number;
+  easing: KeyframeEasing;
+  bezier?: [number, number, number, number]; // cubic-bezier(x1, y1, x2, y2) control points when easing is 'bezier'
+}
+
+// Effect parameter keyframe track: `effect:<effect id>:<param key>`
+export type EffectParamProperty = `effect:${string}:${string}`;
+
+// Numeric element fields and props that can carry keyframes
+export type AnimatableProperty =
+  | 'x' | 'y' | 'width' | 'height' | 'rotation'
+  | 'opacity' | 'borderRadius' | 'letterSpacing'
+  | 'shadowBlur' | 'shadowX' | 'shadowY'
+  | 'playbackRate' | 'volume' | 'pan'
+  | EffectParamProperty;
+
+export type KeyframeTracks = Partial<Record<AnimatableProperty, Keyframe[]>>;
+
+// How a mask was drawn; every shape is stored as a closed bezier path
+export type MaskShape = 'rectangle' | 'ellipse' | 'bezier';
+
+// Point on a mask path, as fractions of the element box
+export interface MaskVertex {
+  x: number;
+  y: number;
+  inX?: number; // Bezier handle towards the previous point, relative to this one
+  inY?: number;
+  outX?: number; // Bezier handle towards the next point, relative to this one
+  outY?: number;
+}
+
+export interface MaskKeyframe {
+  id: string;
+  time: number; // in seconds, relative to the element's startTime
+  points: MaskVertex[];
+  easing: KeyframeEasing;
+  bezier?: [number, number, number, number];
+}
+
+export interface Mask {
+  id: string;
+  name: string;
+  shape: MaskShape;
+  points: MaskVertex[]; // Static path, used while the mask has no keyframes
+  keyframes?: MaskKeyframe[]; // Animated path, time-sorted
+  feather?: number; // Edge softness in pixels (default 0)
+  expansion?: number; // Pixels the edge is pushed out, negative shrinks it (default 0)
+  inverted?: boolean; // Keep what's outside the path instead
+}
+
 export interface EditorElement {
   id: string;
   type: ElementType;
@@ -123,6 +197,7 @@ export interface EditorElement {
   startTime: number; // in seconds (Timeline position)
   duration: number; // in seconds
   mediaOffset: number; // in seconds (Start point in the source media)
+  sourceDuration?: number; // in seconds (Full length of the source media, video/audio only)
 
   // Visual properties for overlay
   x: number; // percentage 0-100
@@ -135,6 +210,12 @@ export interface EditorElement {
   flipY?: boolean; // Flip vertically
   lockAspectRatio?: boolean; // Lock aspect ratio during resize
 
+  // Keyframe animation, one time-sorted track per animated property
+  keyframes?: KeyframeTracks;
+
+  // Shape masks, combined into the visible part of the box
+  masks?: Mask[];
+
   // Transitions
   transitionIn?: Transition;
   transitionOut?: Transition;
@@ -154,6 +235,23 @@ export interface Track {
   isVisible: boolean;
   isLocked: boolean;
   type: 'video' | 'audio' | 'overlay';
+
+  // Mixer (sound of the track's clips)
+  volume?: number; // 0-2 fader gain, default 1
+  pan?: number; // -1 (left) to 1 (right), default 0
+  isMuted?: boolean;
+  isSoloed?: boolean; // While any track is soloed, only soloed tracks are heard
+}
+
+// Canvas the composition is authored against (preview, export defaults, timecode)
+export interface ProjectSettings {
+  width: number;
+  height: number;
+  fps: number;
+  backgroundColor: string;
+  transparentBackground: boolean;
+  timecodeStart: number; // Seconds shown at time 0 (e.g. 3600 for 01:00:00:00)
+  snapToFrames: boolean; // Quantize timeline edits to whole frames
 }
 
 export interface ProjectState {
@@ -164,7 +262,8 @@ export interface ProjectState {
   elements: EditorElement[];
   tracks: Track[];
   markers: Marker[]; // Timeline markers
-  selectedElementId: string | null;
+  settings: ProjectSettings;
+  selectedElementIds: string[]; // Last id is the primary selection
   videoSrc: string | null; // Deprecated in favor of elements, but kept for compatibility if needed, though we will move to track-based video
   isExporting: boolean;
 }
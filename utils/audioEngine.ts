@@ -0,0 +1,519 @@
+/**
+ * Audio Engine
+ *
+ * Mixes the timeline through a Web Audio graph:
+ *
+ *   clip source -> clip gain -> clip pan -> track bus (fader, pan) -> master bus -> destination
+ *
+ * Clip gains and pans follow the volume and pan keyframes, fades and
+ * sidechain ducking (sidechain.ts) through AudioParam automation, so they
+ * change on exact samples. Track buses apply the mixer settings of their track
+ * (fader, pan, mute and solo). The preview builds the graph on a live
+ * AudioContext, fed by the clips' <audio>/<video> elements; the export
+ * mixdown (audioMixdown.ts) builds it on an OfflineAudioContext, fed by
+ * decoded buffers. Both schedule the same automation through this module.
+ * Media elements can't play backwards, so the preview plays reversed clips
+ * from buffers prepared the same way as the export's.
+ * Audio effects belong between a clip's source and its gain, or on a bus.
+ */
+
+import { EditorElement, ElementType, Track } from "../types";
+import { interpolateKeyframes } from "./keyframes";
+import { getDuckingBreakpoints, getDuckingFactor, getSidechainVersion, loadSidechainLevels } from "./sidechain";
+import { getPlaybackRate, getSourceElapsed, getSourceSpan, hasSpeedRamp } from "./timeRemap";
+import { resample, timeStretch, timeStretchTo } from "./timeStretch";
+
+// ==================== MIX RULES ====================
+
+/**
+ * Whether a clip contributes sound at all
+ */
+export const isAudible = (el: EditorElement): boolean => {
+  return (el.type === ElementType.VIDEO || el.type === ElementType.AUDIO) &&
+    !!el.props.src &&
+    !el.props.isMuted &&
+    !el.props.isFreezeFrame && // A held frame has no sound
+    ((el.props.volume ?? 1) > 0 || !!el.keyframes?.volume?.length);
+};
+
+/**
+ * Volume of a clip at timeline `time`, following its volume keyframes
+ */
+const getClipVolume = (el: EditorElement, time: number): number => {
+  return interpolateKeyframes(el.keyframes?.volume || [], time - el.startTime) ?? el.props.volume ?? 1;
+};
+
+/**
+ * Fade in and out lengths, shortened proportionally when they would overlap
+ */
+const getFadeLengths = (el: EditorElement): [number, number] => {
+  const fadeIn = Math.max(0, el.props.fadeIn ?? 0);
+  const fadeOut = Math.max(0, el.props.fadeOut ?? 0);
+  const scale = fadeIn + fadeOut > el.duration ? el.duration / (fadeIn + fadeOut) : 1;
+  return [fadeIn * scale, fadeOut * scale];
+};
+
+const getFadeFactor = (el: EditorElement, time: number): number => {
+  const [fadeIn, fadeOut] = getFadeLengths(el);
+  const elapsed = time - el.startTime;
+  const remaining = el.startTime + el.duration - time;
+  let factor = 1;
+  if (fadeIn > 0 && elapsed < fadeIn) factor = Math.max(0, elapsed / fadeIn);
+  if (fadeOut > 0 && remaining < fadeOut) factor = Math.min(factor, Math.max(0, remaining / fadeOut));
+  return factor;
+};
+
+/**
+ * Pan of a clip at timeline `time`, following its pan keyframes
+ */
+export const getClipPan = (el: EditorElement, time: number): number => {
+  return interpolateKeyframes(el.keyframes?.pan || [], time - el.startTime) ?? el.props.pan ?? 0;
+};
+
+/**
+ * Gain of a clip at timeline `time`: volume, fades and ducking, 0 outside the clip
+ */
+export const getClipGain = (el: EditorElement, elements: EditorElement[], tracks: Track[], time: number): number => {
+  if (!isAudible(el) || time < el.startTime || time >= el.startTime + el.duration) return 0;
+  return getClipVolume(el, time) * getFadeFactor(el, time) * getDuckingFactor(el, elements, tracks, time);
+};
+
+/**
+ * Pan as shown in the mixer and the properties panel: C, L50, R100
+ */
+export const formatPan = (pan: number): string => {
+  return Math.abs(pan) < 0.005 ? 'C' : `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+};
+
+/**
+ * Gain of a track's bus: its fader, or silence when it is muted or other
+ * tracks are soloed
+ */
+export const getTrackGain = (track: Track, tracks: Track[]): number => {
+  if (track.isMuted) return 0;
+  if (tracks.some(t => t.isSoloed) && !track.isSoloed) return 0;
+  return track.volume ?? 1;
+};
+
+// Offset used to read a value on either side of a breakpoint
+const BREAKPOINT_EPSILON = 1e-4;
+// Spacing of the breakpoints along eased keyframe segments (seconds)
+const CURVE_STEP = 1 / 50;
+
+/**
+ * Keyframe times of one of a clip's tracks (timeline seconds), plus points
+ * along eased segments so they are followed closely by linear ramps
+ */
+const getKeyframeBreakpoints = (el: EditorElement, property: 'volume' | 'pan'): number[] => {
+  const track = el.keyframes?.[property] || [];
+  const times: number[] = [];
+  track.forEach((keyframe, i) => {
+    times.push(el.startTime + keyframe.time);
+    const next = track[i + 1];
+    if (!next || keyframe.easing === 'linear' || keyframe.easing === 'hold') return;
+    for (let t = keyframe.time + CURVE_STEP; t < next.time; t += CURVE_STEP) times.push(el.startTime + t);
+  });
+  return times;
+};
+
+/**
+ * Schedule `valueAt` on `param` from timeline time `from` onwards, with
+ * `from` at context time `at` (playback runs at timeline speed): a ramp to
+ * each breakpoint and a step after it, for values that are linear between
+ * breakpoints
+ */
+const scheduleBreakpoints = (param: AudioParam, breakpoints: Set<number>, valueAt: (time: number) => number, from: number, at: number) => {
+  param.cancelScheduledValues(at);
+  param.setValueAtTime(valueAt(from), at);
+  [...breakpoints]
+    .filter(t => t > from)
+    .sort((a, b) => a - b)
+    .forEach(t => {
+      const contextTime = at + (t - from);
+      param.linearRampToValueAtTime(valueAt(t - BREAKPOINT_EPSILON), contextTime);
+      param.setValueAtTime(valueAt(t + BREAKPOINT_EPSILON), contextTime);
+    });
+};
+
+/**
+ * Schedule a clip's gain on `param` from timeline time `from` (at context
+ * time `at`). Between breakpoints (clip and fade edges, volume keyframes,
+ * ducking envelope points) every part of the gain is linear, so the schedule
+ * follows getClipGain.
+ */
+export const scheduleClipGain = (param: AudioParam, el: EditorElement, elements: EditorElement[], tracks: Track[], from: number, at: number) => {
+  const start = el.startTime;
+  const end = el.startTime + el.duration;
+  const [fadeIn, fadeOut] = getFadeLengths(el);
+  const breakpoints = new Set<number>([start, start + fadeIn, end - fadeOut, end]);
+  [...getKeyframeBreakpoints(el, 'volume'), ...getDuckingBreakpoints(elements, tracks, Math.max(start, from), end)].forEach(t => {
+    if (t > start && t < end) breakpoints.add(t);
+  });
+  scheduleBreakpoints(param, breakpoints, time => getClipGain(el, elements, tracks, time), from, at);
+};
+
+/**
+ * Schedule a clip's pan on `param` from timeline time `from` (at context time `at`)
+ */
+export const scheduleClipPan = (param: AudioParam, el: EditorElement, from: number, at: number) => {
+  scheduleBreakpoints(param, new Set(getKeyframeBreakpoints(el, 'pan')), time => getClipPan(el, time), from, at);
+};
+
+// ==================== CLIP BUFFERS ====================
+
+/**
+ * The part of `buffer` a clip plays, reversed and/or time stretched to play
+ * at the clip's speed with its pitch kept. Speed ramps are rendered to the
+ * clip's final length here, with or without keeping the pitch. Returns null
+ * when the clip can play straight from the decoded buffer.
+ */
+export const prepareClipBuffer = (ctx: BaseAudioContext, buffer: AudioBuffer, el: EditorElement): AudioBuffer | null => {
+  const rate = getPlaybackRate(el);
+  const ramped = hasSpeedRamp(el);
+  const stretch = rate !== 1 && !!el.props.preservePitch;
+  if (!el.props.isReversed && !stretch && !ramped) return null;
+
+  const start = Math.floor(el.mediaOffset * buffer.sampleRate);
+  const end = Math.min(buffer.length, Math.ceil((el.mediaOffset + getSourceSpan(el)) * buffer.sampleRate));
+  let channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const segment = buffer.getChannelData(c).slice(start, Math.max(start + 1, end));
+    if (el.props.isReversed) segment.reverse();
+    channels.push(segment);
+  }
+  if (ramped) {
+    // Follow the speed curve: output sample i plays the source elapsed by then
+    const outputLength = Math.max(1, Math.round(el.duration * buffer.sampleRate));
+    const positionAt = (i: number) => getSourceElapsed(el, i / buffer.sampleRate) * buffer.sampleRate;
+    channels = el.props.preservePitch
+      ? timeStretchTo(channels, outputLength, positionAt)
+      : resample(channels, outputLength, positionAt);
+  } else if (stretch) {
+    channels = timeStretch(channels, rate);
+  }
+
+  const prepared = ctx.createBuffer(channels.length, channels[0].length, buffer.sampleRate);
+  channels.forEach((data, c) => prepared.copyToChannel(data, c));
+  return prepared;
+};
+
+/**
+ * Playback rate of a buffer from prepareClipBuffer: only reversed buffers
+ * still need the clip's speed applied
+ */
+export const getPreparedBufferRate = (el: EditorElement): number => {
+  return el.props.preservePitch || hasSpeedRamp(el) ? 1 : getPlaybackRate(el);
+};
+
+// ==================== GRAPH ====================
+
+// Samples analysed per meter reading (about 20ms at 48kHz)
+const METER_FFT_SIZE = 1024;
+
+export interface ClipChannel {
+  gain: GainNode; // Volume, fades and ducking
+  panner: StereoPannerNode;
+}
+
+interface TrackBus {
+  input: GainNode; // Fader, mute and solo
+  panner: StereoPannerNode;
+  meter: AnalyserNode | null; // Post-fader level
+}
+
+/**
+ * Track buses and the master bus of a context. Clips connect through their
+ * own gain to the bus of their track. A metered graph taps every bus and the
+ * master with an analyser for level meters.
+ */
+export class MixerGraph {
+  readonly master: GainNode;
+  readonly masterMeter: AnalyserNode | null;
+  private buses = new Map<number, TrackBus>();
+  private tracks: Track[] = [];
+
+  constructor(private ctx: BaseAudioContext, private metered: boolean = false) {
+    this.master = ctx.createGain();
+    this.master.connect(ctx.destination);
+    this.masterMeter = metered ? this.createMeter(this.master) : null;
+  }
+
+  private createMeter(node: AudioNode): AnalyserNode {
+    const meter = this.ctx.createAnalyser();
+    meter.fftSize = METER_FFT_SIZE;
+    node.connect(meter);
+    return meter;
+  }
+
+  private applyTrack(trackId: number, bus: TrackBus, smoothing: number) {
+    const track = this.tracks.find(t => t.id === trackId);
+    const gain = track ? getTrackGain(track, this.tracks) : 1;
+    const pan = track?.pan ?? 0;
+    const at = this.ctx.currentTime;
+    if (smoothing > 0) {
+      bus.input.gain.setTargetAtTime(gain, at, smoothing);
+      bus.panner.pan.setTargetAtTime(pan, at, smoothing);
+    } else {
+      bus.input.gain.setValueAtTime(gain, at);
+      bus.panner.pan.setValueAtTime(pan, at);
+    }
+  }
+
+  private getBus(trackId: number): TrackBus {
+    let bus = this.buses.get(trackId);
+    if (!bus) {
+      const input = this.ctx.createGain();
+      const panner = this.ctx.createStereoPanner();
+      input.connect(panner).connect(this.master);
+      bus = { input, panner, meter: this.metered ? this.createMeter(panner) : null };
+      this.buses.set(trackId, bus);
+      this.applyTrack(trackId, bus, 0);
+    }
+    return bus;
+  }
+
+  getTrackBus(trackId: number): GainNode {
+    return this.getBus(trackId).input;
+  }
+
+  getTrackMeter(trackId: number): AnalyserNode | null {
+    return this.buses.get(trackId)?.meter ?? null;
+  }
+
+  /**
+   * Apply the tracks' mixer settings to their buses. `smoothing` (seconds)
+   * eases live changes in so moving a fader doesn't click.
+   */
+  setTracks(tracks: Track[], smoothing: number = 0) {
+    this.tracks = tracks;
+    this.buses.forEach((bus, trackId) => this.applyTrack(trackId, bus, smoothing));
+  }
+
+  /**
+   * Route `source` through a new clip gain and pan into the clip's track bus
+   */
+  connectClip(source: AudioNode, el: EditorElement): ClipChannel {
+    const gain = this.ctx.createGain();
+    const panner = this.ctx.createStereoPanner();
+    source.connect(gain).connect(panner).connect(this.getTrackBus(el.trackId));
+    return { gain, panner };
+  }
+}
+
+export interface AudioLevel {
+  peak: number; // Linear sample peak, above 1 when clipping
+  rms: number;
+}
+
+const SILENCE: AudioLevel = { peak: 0, rms: 0 };
+let meterSamples: Float32Array<ArrayBuffer> | null = null;
+
+/**
+ * Peak and RMS level of the samples an analyser currently holds
+ */
+export const readLevel = (meter: AnalyserNode | null): AudioLevel => {
+  if (!meter) return SILENCE;
+  if (!meterSamples || meterSamples.length !== meter.fftSize) meterSamples = new Float32Array(meter.fftSize);
+  meter.getFloatTimeDomainData(meterSamples);
+  let peak = 0;
+  let sum = 0;
+  for (let i = 0; i < meterSamples.length; i++) {
+    const sample = Math.abs(meterSamples[i]);
+    if (sample > peak) peak = sample;
+    sum += sample * sample;
+  }
+  return { peak, rms: Math.sqrt(sum / meterSamples.length) };
+};
+
+// ==================== PREVIEW ====================
+
+interface PreviewClip extends ClipChannel {
+  media: HTMLMediaElement;
+  source: MediaElementAudioSourceNode;
+  trackId: number;
+  reversed: AudioBufferSourceNode | null; // Plays a reversed clip's audio in place of its media element
+}
+
+// Playhead drift from the scheduled automation that triggers a reschedule (seconds)
+const RESCHEDULE_TOLERANCE = 0.1;
+// Time constant of live mixer changes (seconds)
+const MIXER_SMOOTHING = 0.015;
+
+/**
+ * Plays the preview's media elements through the mixer graph. Media elements
+ * keep full volume; everything the mix changes happens on the clip gains.
+ */
+class PreviewAudioEngine {
+  private ctx: AudioContext | null = null;
+  private graph: MixerGraph | null = null;
+  private clips = new Map<string, PreviewClip>();
+  private tracks: Track[] | null = null;
+  // Decoded media of reversed clips by source URL, and their prepared buffers by clip
+  private decoded = new Map<string, AudioBuffer | null>();
+  private pendingDecodes = new Set<string>();
+  private reversedBuffers = new Map<string, { element: EditorElement; buffer: AudioBuffer | null }>();
+  // Timeline time the running automation was scheduled from, for which timeline and key levels
+  private anchor: { time: number; contextTime: number; elements: EditorElement[]; tracks: Track[]; sidechain: number } | null = null;
+
+  private getContext(): AudioContext | null {
+    if (!this.ctx && typeof AudioContext !== 'undefined') {
+      this.ctx = new AudioContext();
+      this.graph = new MixerGraph(this.ctx, true);
+    }
+    return this.ctx;
+  }
+
+  /**
+   * Route a clip's media element into the graph. A media element can only
+   * be connected once, so this is a no-op for one that already is.
+   */
+  attach(el: EditorElement, media: HTMLMediaElement) {
+    const ctx = this.getContext();
+    if (!ctx) return;
+    const existing = this.clips.get(el.id);
+    if (existing?.media === media) return;
+
+    if (existing) this.release(el.id);
+    const source = ctx.createMediaElementSource(media);
+    const channel = this.graph!.connectClip(source, el);
+    channel.gain.gain.value = 0;
+    media.volume = 1;
+    media.muted = false;
+    this.clips.set(el.id, { ...channel, media, source, trackId: el.trackId, reversed: null });
+    this.anchor = null; // Schedule the new clip with the others on the next sync
+  }
+
+  private release(id: string) {
+    const clip = this.clips.get(id);
+    if (!clip) return;
+    this.stopReversed(clip);
+    this.reversedBuffers.delete(id);
+    clip.source.disconnect();
+    clip.gain.disconnect();
+    clip.panner.disconnect();
+    this.clips.delete(id);
+  }
+
+  /**
+   * Reversed audio of a clip, prepared like the export mixdown's. Undefined
+   * while its media is decoding; the clips are rescheduled once it is.
+   */
+  private getReversedBuffer(el: EditorElement): AudioBuffer | null | undefined {
+    const cached = this.reversedBuffers.get(el.id);
+    if (cached?.element === el) return cached.buffer;
+
+    const src = el.props.src!;
+    if (!this.decoded.has(src)) {
+      if (!this.pendingDecodes.has(src)) {
+        this.pendingDecodes.add(src);
+        fetch(src)
+          .then(res => res.arrayBuffer())
+          .then(data => this.ctx!.decodeAudioData(data))
+          .catch(() => null) // e.g. video without an audio track
+          .then(buffer => {
+            this.decoded.set(src, buffer);
+            this.pendingDecodes.delete(src);
+            this.anchor = null;
+          });
+      }
+      return undefined;
+    }
+
+    const decoded = this.decoded.get(src);
+    const buffer = decoded && el.mediaOffset < decoded.duration ? prepareClipBuffer(this.ctx!, decoded, el) : null;
+    this.reversedBuffers.set(el.id, { element: el, buffer });
+    return buffer;
+  }
+
+  private stopReversed(clip: PreviewClip) {
+    if (!clip.reversed) return;
+    clip.reversed.stop();
+    clip.reversed.disconnect();
+    clip.reversed = null;
+  }
+
+  /**
+   * Play a reversed clip's audio into its gain from timeline time `time` (at
+   * context time `at`) to the clip's end
+   */
+  private scheduleReversed(clip: PreviewClip, el: EditorElement, time: number, at: number) {
+    this.stopReversed(clip);
+    const end = el.startTime + el.duration;
+    if (!el.props.isReversed || !isAudible(el) || time >= end) return;
+    const buffer = this.getReversedBuffer(el);
+    if (!buffer) return;
+
+    const node = this.ctx!.createBufferSource();
+    node.buffer = buffer;
+    node.playbackRate.value = getPreparedBufferRate(el);
+    node.connect(clip.gain);
+    const delay = Math.max(0, el.startTime - time);
+    node.start(at + delay, (time + delay - el.startTime) * node.playbackRate.value);
+    node.stop(at + (end - time));
+    clip.reversed = node;
+  }
+
+  /**
+   * Current level of a track's bus, or of the master bus
+   */
+  getLevel(trackId?: number): AudioLevel {
+    if (!this.graph) return SILENCE;
+    return readLevel(trackId === undefined ? this.graph.masterMeter : this.graph.getTrackMeter(trackId));
+  }
+
+  /**
+   * Bring the mix in line with the timeline and the playhead. While playing,
+   * the clip gains and pans are scheduled ahead and only rescheduled when the
+   * playhead jumps or the timeline changes; while paused they hold the value
+   * at the playhead.
+   */
+  sync(elements: EditorElement[], tracks: Track[], time: number, isPlaying: boolean) {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    if (tracks !== this.tracks) {
+      this.tracks = tracks;
+      this.graph!.setTracks(tracks, MIXER_SMOOTHING);
+    }
+    // Ducking follows once the keys' levels are analysed
+    loadSidechainLevels(elements);
+
+    const byId = new Map(elements.map(el => [el.id, el]));
+    [...this.clips.entries()].forEach(([id, clip]) => {
+      const el = byId.get(id);
+      if (!el || !clip.media.isConnected) {
+        this.release(id);
+      } else if (el.trackId !== clip.trackId) {
+        clip.panner.disconnect();
+        clip.panner.connect(this.graph!.getTrackBus(el.trackId));
+        clip.trackId = el.trackId;
+      }
+    });
+
+    const now = ctx.currentTime;
+    if (!isPlaying) {
+      this.anchor = null;
+      this.clips.forEach((clip, id) => {
+        this.stopReversed(clip);
+        clip.gain.gain.cancelScheduledValues(now);
+        clip.gain.gain.setValueAtTime(getClipGain(byId.get(id)!, elements, tracks, time), now);
+        clip.panner.pan.cancelScheduledValues(now);
+        clip.panner.pan.setValueAtTime(getClipPan(byId.get(id)!, time), now);
+      });
+      return;
+    }
+
+    if (ctx.state === 'suspended') ctx.resume().catch(() => { });
+    const anchor = this.anchor;
+    if (anchor && anchor.elements === elements && anchor.tracks === tracks && anchor.sidechain === getSidechainVersion() && Math.abs(anchor.time + (now - anchor.contextTime) - time) < RESCHEDULE_TOLERANCE) {
+      return;
+    }
+    this.anchor = { time, contextTime: now, elements, tracks, sidechain: getSidechainVersion() };
+    this.clips.forEach((clip, id) => {
+      scheduleClipGain(clip.gain.gain, byId.get(id)!, elements, tracks, time, now);
+      scheduleClipPan(clip.panner.pan, byId.get(id)!, time, now);
+      this.scheduleReversed(clip, byId.get(id)!, time, now);
+    });
+  }
+}
+
+export const previewAudio = new PreviewAudioEngine();
@@ -0,0 +1,65 @@
+import { EditorElement, Track } from "../types";
+import { getPreparedBufferRate, isAudible, prepareClipBuffer, scheduleClipGain, scheduleClipPan, MixerGraph } from "./audioEngine";
+import { loadSidechainLevels } from "./sidechain";
+import { getPlaybackRate, getSourceSpan } from "./timeRemap";
+
+export const EXPORT_SAMPLE_RATE = 48000;
+const EXPORT_CHANNELS = 2;
+
+/**
+ * Render the audio of every audible clip into a single stereo buffer, mixed
+ * like the preview (see audioEngine.ts). Returns null when the project has
+ * no decodable audio.
+ */
+export const mixdownAudio = async (
+  elements: EditorElement[],
+  tracks: Track[],
+  duration: number,
+  sampleRate: number = EXPORT_SAMPLE_RATE
+): Promise<AudioBuffer | null> => {
+  const audible = elements.filter(isAudible);
+  if (audible.length === 0 || duration <= 0) return null;
+
+  await loadSidechainLevels(elements); // Keys are analysed before anything ducks
+  const ctx = new OfflineAudioContext(EXPORT_CHANNELS, Math.ceil(duration * sampleRate), sampleRate);
+  const graph = new MixerGraph(ctx);
+  graph.setTracks(tracks);
+  const decoded = new Map<string, Promise<AudioBuffer | null>>();
+
+  const decode = (src: string): Promise<AudioBuffer | null> => {
+    if (!decoded.has(src)) {
+      decoded.set(src, fetch(src)
+        .then(res => res.arrayBuffer())
+        .then(data => ctx.decodeAudioData(data))
+        .catch(() => null)); // e.g. video without an audio track
+    }
+    return decoded.get(src)!;
+  };
+
+  let scheduled = 0;
+  for (const el of audible) {
+    const buffer = await decode(el.props.src!);
+    if (!buffer || el.mediaOffset >= buffer.duration) continue;
+
+    const source = ctx.createBufferSource();
+    const prepared = prepareClipBuffer(ctx, buffer, el);
+    if (prepared) {
+      // Already cut to the clip and at its final length unless only reversed
+      source.buffer = prepared;
+      source.playbackRate.value = getPreparedBufferRate(el);
+      source.start(el.startTime, 0);
+    } else {
+      source.buffer = buffer;
+      source.playbackRate.value = getPlaybackRate(el);
+      source.start(el.startTime, el.mediaOffset, getSourceSpan(el)); // Duration in source seconds
+    }
+    source.stop(el.startTime + el.duration);
+    const channel = graph.connectClip(source, el);
+    scheduleClipGain(channel.gain.gain, el, elements, tracks, 0, 0);
+    scheduleClipPan(channel.panner.pan, el, 0, 0);
+    scheduled++;
+  }
+
+  if (scheduled === 0) return null;
+  return ctx.startRendering();
+};
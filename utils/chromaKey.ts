@@ -0,0 +1,128 @@
+/**
+ * Chroma Key
+ *
+ * Keys a colour (green/blue screen) out of video and image clips on the GPU.
+ * Pixels are compared with the key colour by chroma only (the CbCr plane), so
+ * shadows and highlights on the screen key out as well as its flat parts.
+ * Runs on the source pixels before the LUT, in the preview and the export
+ * renderer alike.
+ */
+
+import { ElementProps } from "../types";
+import { createPassProgram, createSourceTexture, getPassContext, resizePass, uploadSource } from "./webgl";
+
+// ==================== SETTINGS ====================
+
+export const DEFAULT_KEY_COLOR = '#00ff00';
+export const DEFAULT_KEY_TOLERANCE = 0.25;
+export const DEFAULT_KEY_SOFTNESS = 0.1;
+export const DEFAULT_KEY_SPILL = 0.5;
+
+export const hasChromaKey = (props: ElementProps): boolean => !!props.chromaKey;
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return [0, 1, 0];
+  return [parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255];
+};
+
+export const rgbToHex = (r: number, g: number, b: number): string => {
+  return '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+};
+
+// ==================== GPU PROCESSING ====================
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+uniform sampler2D uSource;
+uniform vec3 uKeyColor;
+uniform float uTolerance;
+uniform float uSoftness;
+uniform float uSpill;
+uniform bool uShowMatte;
+in vec2 vUv;
+out vec4 outColor;
+
+// Cb and Cr of an sRGB colour (BT.601)
+vec2 chroma(vec3 c) {
+  return vec2(
+    -0.168736 * c.r - 0.331264 * c.g + 0.5 * c.b,
+    0.5 * c.r - 0.418688 * c.g - 0.081312 * c.b
+  );
+}
+
+void main() {
+  vec4 source = texture(uSource, vUv);
+  vec2 keyChroma = chroma(uKeyColor);
+  vec2 pixelChroma = chroma(source.rgb);
+
+  // Chroma distance, scaled so 1 is the widest possible
+  float distance = length(pixelChroma - keyChroma) / 0.7071;
+  float alpha = smoothstep(uTolerance, uTolerance + max(uSoftness, 0.0001), distance) * source.a;
+
+  // Spill suppression: take out the part of the pixel's chroma that points towards the key colour
+  vec3 rgb = source.rgb;
+  float keyLength = length(keyChroma);
+  if (keyLength > 0.0 && uSpill > 0.0) {
+    vec2 direction = keyChroma / keyLength;
+    vec2 despilled = pixelChroma - direction * max(0.0, dot(pixelChroma, direction)) * uSpill;
+    float luma = dot(source.rgb, vec3(0.299, 0.587, 0.114));
+    rgb = clamp(vec3(
+      luma + 1.402 * despilled.y,
+      luma - 0.344136 * despilled.x - 0.714136 * despilled.y,
+      luma + 1.772 * despilled.x
+    ), 0.0, 1.0);
+  }
+
+  outColor = uShowMatte ? vec4(vec3(alpha), 1.0) : vec4(rgb, alpha);
+}`;
+
+class ChromaKeyProcessor {
+  private canvas = document.createElement('canvas');
+  private gl: WebGL2RenderingContext | null;
+  private program: WebGLProgram | null = null;
+  private sourceTexture: WebGLTexture | null = null;
+
+  constructor() {
+    this.gl = getPassContext(this.canvas, 'chroma keys');
+    if (!this.gl) return;
+    this.program = createPassProgram(this.gl, FRAGMENT_SHADER, 'Chroma key');
+    this.sourceTexture = createSourceTexture(this.gl);
+  }
+
+  /**
+   * Key `source` (width x height pixels). The result is only valid until the
+   * next call, so draw it right away.
+   */
+  process(source: TexImageSource, width: number, height: number, props: ElementProps): HTMLCanvasElement | null {
+    const gl = this.gl;
+    const program = this.program;
+    if (!gl || !program || width <= 0 || height <= 0) return null;
+    resizePass(gl, this.canvas, width, height);
+
+    gl.uniform3fv(gl.getUniformLocation(program, 'uKeyColor'), hexToRgb(props.chromaKeyColor ?? DEFAULT_KEY_COLOR));
+    gl.uniform1f(gl.getUniformLocation(program, 'uTolerance'), props.chromaKeyTolerance ?? DEFAULT_KEY_TOLERANCE);
+    gl.uniform1f(gl.getUniformLocation(program, 'uSoftness'), props.chromaKeySoftness ?? DEFAULT_KEY_SOFTNESS);
+    gl.uniform1f(gl.getUniformLocation(program, 'uSpill'), props.chromaKeySpill ?? DEFAULT_KEY_SPILL);
+    gl.uniform1i(gl.getUniformLocation(program, 'uShowMatte'), props.chromaKeyMatte ? 1 : 0);
+
+    if (!uploadSource(gl, this.sourceTexture, source, 'chroma keying')) return null;
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    return this.canvas;
+  }
+}
+
+let processor: ChromaKeyProcessor | null = null;
+
+/**
+ * Run a clip's chroma key over a frame of its media. Returns the keyed frame
+ * (valid until the next call), or null when the clip has no key or it can't
+ * be applied.
+ */
+export const applyElementChromaKey = (props: ElementProps, source: TexImageSource, width: number, height: number): HTMLCanvasElement | null => {
+  if (!hasChromaKey(props)) return null;
+  if (!processor) processor = new ChromaKeyProcessor();
+  return processor.process(source, width, height, props);
+};
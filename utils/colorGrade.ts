@@ -0,0 +1,79 @@
+/**
+ * Color Grading
+ *
+ * Lift/Gamma/Gain color wheels, applied per channel through a generated SVG
+ * filter (feComponentTransfer lookup tables, see svgFilters.ts), so the
+ * preview and the export renderer grade pixels through the same curves.
+ */
+
+import { ElementProps } from "../types";
+import { createSvgElement, getSvgFilter, toFilterKey } from "./svgFilters";
+
+// ==================== CURVES ====================
+
+export interface ChannelGrade {
+  lift: number; // -1 to 1, moves the black point
+  gamma: number; // -1 to 1, bends the midtones
+  gain: number; // -1 to 1, scales the white point
+}
+
+// Samples per channel lookup table; the filter interpolates linearly between them
+const TABLE_SIZE = 64;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Graded value of one channel (0-1):
+ * gain scales the signal, lift raises or crushes the shadows while leaving
+ * white alone, and gamma bends the result (positive brightens the midtones).
+ */
+export const gradeChannel = (value: number, { lift, gamma, gain }: ChannelGrade): number => {
+  const graded = clamp01(value * (1 + gain) + lift * 0.5 * (1 - value));
+  return Math.pow(graded, Math.pow(2, -gamma));
+};
+
+const isNeutral = ({ lift, gamma, gain }: ChannelGrade) => !lift && !gamma && !gain;
+
+export const getChannelGrades = (props: ElementProps): [ChannelGrade, ChannelGrade, ChannelGrade] => [
+  { lift: props.liftR ?? 0, gamma: props.gammaR ?? 0, gain: props.gainR ?? 0 },
+  { lift: props.liftG ?? 0, gamma: props.gammaG ?? 0, gain: props.gainG ?? 0 },
+  { lift: props.liftB ?? 0, gamma: props.gammaB ?? 0, gain: props.gainB ?? 0 },
+];
+
+export const hasColorGrade = (props: ElementProps): boolean => {
+  return getChannelGrades(props).some(grade => !isNeutral(grade));
+};
+
+const buildGradeTable = (grade: ChannelGrade): string => {
+  const values: string[] = [];
+  for (let i = 0; i < TABLE_SIZE; i++) {
+    values.push(gradeChannel(i / (TABLE_SIZE - 1), grade).toFixed(4));
+  }
+  return values.join(' ');
+};
+
+// ==================== SVG FILTERS ====================
+
+const buildGradeFilter = (filter: SVGFilterElement, grades: ChannelGrade[]) => {
+  // Grade the stored sRGB values, as the wheels in the panel are meant to
+  filter.setAttribute('color-interpolation-filters', 'sRGB');
+  filter.appendChild(createSvgElement('feComponentTransfer', {}, (['feFuncR', 'feFuncG', 'feFuncB'] as const).map((tag, i) =>
+    isNeutral(grades[i])
+      ? createSvgElement(tag, { type: 'identity' })
+      : createSvgElement(tag, { type: 'table', tableValues: buildGradeTable(grades[i]) })
+  )));
+};
+
+/**
+ * CSS / canvas filter reference for the element's color wheels, or '' when
+ * they are all neutral. Creates the SVG filter on first use.
+ */
+export const getColorGradeFilter = (props: ElementProps): string => {
+  if (!hasColorGrade(props)) return '';
+
+  const grades = getChannelGrades(props);
+  const key = grades
+    .map(({ lift, gamma, gain }) => [lift, gamma, gain].map(toFilterKey).join('_'))
+    .join('_');
+  return getSvgFilter(`grade-${key}`, filter => buildGradeFilter(filter, grades));
+};
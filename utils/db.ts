@@ -1,15 +1,29 @@
-import { ElementType, EditorElement, Track } from "../types";
+import { ElementType, EditorElement, Track, ProjectSettings } from "../types";
+import { probeMediaDuration } from "./mediaProbe";
+import { StabilizationData } from "./stabilization";
+import { WaveformData } from "./waveform";
 
 const DB_NAME = 'ReactFrameDB';
 const MEDIA_STORE = 'media_assets';
 const PROJECT_STORE = 'project_state';
-const DB_VERSION = 2; // Incremented to add project_state store
+const LUT_STORE = 'lut_assets';
+const DB_VERSION = 3; // 2 added project_state, 3 added lut_assets
 
 export interface MediaAsset {
   id: string;
   name: string;
   type: ElementType;
   blob: Blob;
+  duration?: number; // Source length in seconds (video/audio only)
+  stabilization?: StabilizationData; // Camera shake corrections, once analysed (video only)
+  waveform?: WaveformData; // Audio peaks for the timeline, once decoded (video/audio only)
+  createdAt: number;
+}
+
+export interface LutAsset {
+  id: string;
+  name: string;
+  data: string; // Contents of the .cube file
   createdAt: number;
 }
 
@@ -17,6 +31,7 @@ export interface ProjectData {
   id: string; // Always 'current' for single project
   elements: EditorElement[];
   tracks: Track[];
+  settings?: ProjectSettings; // Missing in projects saved before project settings existed
   updatedAt: number;
 }
 
@@ -39,6 +54,11 @@ export const initDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(PROJECT_STORE)) {
         db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
       }
+
+      // Create lut_assets store if doesn't exist
+      if (!db.objectStoreNames.contains(LUT_STORE)) {
+        db.createObjectStore(LUT_STORE, { keyPath: 'id' });
+      }
     };
   });
 };
@@ -46,16 +66,22 @@ export const initDB = (): Promise<IDBDatabase> => {
 // ==================== MEDIA ASSET FUNCTIONS ====================
 
 export const saveAsset = async (file: File | Blob, type: ElementType, name: string): Promise<MediaAsset> => {
-  const db = await initDB();
   const id = Math.random().toString(36).substr(2, 9);
+  // Probe before opening the transaction, which would auto-commit while waiting on metadata
+  const duration = type === ElementType.VIDEO || type === ElementType.AUDIO
+    ? await probeMediaDuration(file, type)
+    : null;
   const asset: MediaAsset = {
     id,
     name,
     type,
     blob: file,
+    ...(duration !== null && { duration }),
     createdAt: Date.now()
   };
 
+  const db = await initDB();
+
   return new Promise((resolve, reject) => {
     const tx = db.transaction(MEDIA_STORE, 'readwrite');
     const store = tx.objectStore(MEDIA_STORE);
@@ -94,6 +120,60 @@ export const getAssetById = async (id: string): Promise<MediaAsset | undefined>
   });
 };
 
+/**
+ * Store the probed source length of an asset saved before durations were recorded
+ */
+export const updateAssetDuration = async (id: string, duration: number): Promise<void> => {
+  const asset = await getAssetById(id);
+  if (!asset) return;
+
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE, 'readwrite');
+    const store = tx.objectStore(MEDIA_STORE);
+    const request = store.put({ ...asset, duration });
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Store the stabilization analysis of a video asset
+ */
+export const updateAssetStabilization = async (id: string, stabilization: StabilizationData): Promise<void> => {
+  const asset = await getAssetById(id);
+  if (!asset) return;
+
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE, 'readwrite');
+    const store = tx.objectStore(MEDIA_STORE);
+    const request = store.put({ ...asset, stabilization });
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Store the audio peaks of a video/audio asset
+ */
+export const updateAssetWaveform = async (id: string, waveform: WaveformData): Promise<void> => {
+  const asset = await getAssetById(id);
+  if (!asset) return;
+
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE, 'readwrite');
+    const store = tx.objectStore(MEDIA_STORE);
+    const request = store.put({ ...asset, waveform });
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
 export const deleteAsset = async (id: string): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
@@ -106,9 +186,58 @@ export const deleteAsset = async (id: string): Promise<void> => {
   });
 };
 
+// ==================== LUT ASSET FUNCTIONS ====================
+
+export const saveLutAsset = async (name: string, data: string): Promise<LutAsset> => {
+  const asset: LutAsset = {
+    id: Math.random().toString(36).substr(2, 9),
+    name,
+    data,
+    createdAt: Date.now()
+  };
+
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(LUT_STORE, 'readwrite');
+    const store = tx.objectStore(LUT_STORE);
+    const request = store.add(asset);
+
+    request.onsuccess = () => resolve(asset);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getLutAssets = async (): Promise<LutAsset[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(LUT_STORE, 'readonly');
+    const store = tx.objectStore(LUT_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      // Sort alphabetically, as colorists browse LUTs by name
+      const results = request.result as LutAsset[];
+      resolve(results.sort((a, b) => a.name.localeCompare(b.name)));
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteLutAsset = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(LUT_STORE, 'readwrite');
+    const store = tx.objectStore(LUT_STORE);
+    const request = store.delete(id);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
 // ==================== PROJECT STATE FUNCTIONS ====================
 
-export const saveProjectState = async (elements: EditorElement[], tracks: Track[]): Promise<void> => {
+export const saveProjectState = async (elements: EditorElement[], tracks: Track[], settings?: ProjectSettings): Promise<void> => {
   const db = await initDB();
 
   // Remove blob URLs from elements (they don't persist)
@@ -124,6 +253,7 @@ export const saveProjectState = async (elements: EditorElement[], tracks: Track[
     id: 'current',
     elements: elementsToSave,
     tracks,
+    settings,
     updatedAt: Date.now()
   };
 
@@ -137,7 +267,7 @@ export const saveProjectState = async (elements: EditorElement[], tracks: Track[
   });
 };
 
-export const loadProjectState = async (): Promise<{ elements: EditorElement[], tracks: Track[] } | null> => {
+export const loadProjectState = async (): Promise<{ elements: EditorElement[], tracks: Track[], settings?: ProjectSettings } | null> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(PROJECT_STORE, 'readonly');
@@ -147,7 +277,7 @@ export const loadProjectState = async (): Promise<{ elements: EditorElement[], t
     request.onsuccess = () => {
       const data = request.result as ProjectData | undefined;
       if (data) {
-        resolve({ elements: data.elements, tracks: data.tracks });
+        resolve({ elements: data.elements, tracks: data.tracks, settings: data.settings });
       } else {
         resolve(null);
       }
@@ -0,0 +1,455 @@
+/**
+ * Effects
+ *
+ * Video clips, images and adjustment layers carry an ordered stack of effects
+ * (`props.effects`), each with its own parameters and a bypass switch. Effect
+ * types come from a registry: a definition lists its parameters and turns
+ * their values into a CSS filter function or a generated SVG filter
+ * (svgFilters.ts). The enabled effects chain into one filter, used as the CSS
+ * filter in the preview and as `ctx.filter` in the export renderer.
+ *
+ * Effect parameters are keyframed like any other property, on
+ * `effect:<effect id>:<param key>` tracks.
+ */
+
+import { Effect, EffectParamProperty, EditorElement, ElementProps, Keyframe, KeyframeTracks } from "../types";
+import { createSvgElement, getSvgFilter, toFilterKey } from "./svgFilters";
+
+// ==================== REGISTRY ====================
+
+export interface EffectParamDefinition {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  unit?: '%' | 'px' | '°'; // '%' shows 0-1 values as percentages
+}
+
+export interface EffectRenderContext {
+  pixelScale: number; // Output pixels per preview CSS pixel, for pixel based parameters
+  time: number; // Seconds into the clip, for effects that change every frame
+}
+
+export interface EffectDefinition {
+  type: string;
+  label: string;
+  params: EffectParamDefinition[];
+  /** Filter for the given parameter values, or '' when they leave the picture unchanged */
+  toFilter: (params: Record<string, number>, context: EffectRenderContext) => string;
+}
+
+const registry = new Map<string, EffectDefinition>();
+
+/**
+ * Make an effect type available to every clip. Registering a type again
+ * replaces its definition.
+ */
+export const registerEffect = (definition: EffectDefinition) => {
+  registry.set(definition.type, definition);
+};
+
+export const getEffectDefinition = (type: string): EffectDefinition | undefined => registry.get(type);
+
+export const getEffectDefinitions = (): EffectDefinition[] => Array.from(registry.values());
+
+// ==================== STACK ====================
+
+const createEffectId = () => Math.random().toString(36).substr(2, 9);
+
+export const createEffect = (type: string): Effect => {
+  const params: Record<string, number> = {};
+  getEffectDefinition(type)?.params.forEach(param => { params[param.key] = param.default; });
+  return { id: createEffectId(), type, enabled: true, params };
+};
+
+export const hasEffects = (props: ElementProps): boolean => !!props.effects?.some(effect => effect.enabled);
+
+/**
+ * Value of a parameter, falling back to the effect's default
+ */
+export const getEffectParam = (effect: Effect, key: string): number => {
+  const value = effect.params[key];
+  if (typeof value === 'number') return value;
+  return getEffectDefinition(effect.type)?.params.find(p => p.key === key)?.default ?? 0;
+};
+
+export const updateEffect = (effects: Effect[] | undefined, id: string, changes: Partial<Omit<Effect, 'id'>>): Effect[] => {
+  return (effects || []).map(effect => effect.id === id ? { ...effect, ...changes } : effect);
+};
+
+export const setEffectParam = (effects: Effect[] | undefined, id: string, key: string, value: number): Effect[] => {
+  return (effects || []).map(effect => effect.id === id ? { ...effect, params: { ...effect.params, [key]: value } } : effect);
+};
+
+// An edit to one effect of a stack, addressed by type and position so it can
+// be applied to the matching effect of other clips' stacks
+export interface EffectChange {
+  type: string;
+  index: number; // Among the stack's effects of this type
+  enabled?: boolean;
+  params: Record<string, number>; // Changed parameters only
+}
+
+/**
+ * Parameter and bypass changes from one version of a stack to the next, or
+ * null when effects were added, removed or reordered
+ */
+export const getEffectChanges = (before: Effect[] | undefined, after: Effect[] | undefined): EffectChange[] | null => {
+  const from = before || [];
+  const to = after || [];
+  if (from.length !== to.length || from.some((effect, i) => effect.id !== to[i].id)) return null;
+
+  const changes: EffectChange[] = [];
+  to.forEach((effect, i) => {
+    const params: Record<string, number> = {};
+    Object.keys(effect.params).forEach(key => {
+      if (effect.params[key] !== from[i].params[key]) params[key] = effect.params[key];
+    });
+    const enabled = effect.enabled !== from[i].enabled ? effect.enabled : undefined;
+    if (enabled === undefined && Object.keys(params).length === 0) return;
+    const index = to.slice(0, i).filter(e => e.type === effect.type).length;
+    changes.push({ type: effect.type, index, enabled, params });
+  });
+  return changes;
+};
+
+/**
+ * Apply changes from getEffectChanges to the matching effects of a stack;
+ * changes without a matching effect are skipped
+ */
+export const applyEffectChanges = (effects: Effect[] | undefined, changes: EffectChange[]): Effect[] | undefined => {
+  if (!effects || changes.length === 0) return effects;
+  const counts = new Map<string, number>();
+  return effects.map(effect => {
+    const index = counts.get(effect.type) ?? 0;
+    counts.set(effect.type, index + 1);
+    const change = changes.find(c => c.type === effect.type && c.index === index);
+    if (!change) return effect;
+    return { ...effect, enabled: change.enabled ?? effect.enabled, params: { ...effect.params, ...change.params } };
+  });
+};
+
+/**
+ * Move an effect one place up (-1, applied earlier) or down (1)
+ */
+export const moveEffect = (effects: Effect[] | undefined, id: string, offset: -1 | 1): Effect[] => {
+  const next = [...(effects || [])];
+  const index = next.findIndex(effect => effect.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= next.length) return next;
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+/**
+ * Element updates that take an effect out of the stack, with its keyframes
+ */
+export const removeEffect = (el: EditorElement, id: string): Partial<EditorElement> => {
+  const prefix = `effect:${id}:`;
+  const tracks = Object.fromEntries(Object.entries(el.keyframes || {}).filter(([property]) => !property.startsWith(prefix))) as KeyframeTracks;
+  return {
+    props: { ...el.props, effects: (el.props.effects || []).filter(effect => effect.id !== id) },
+    keyframes: Object.keys(tracks).length > 0 ? tracks : undefined
+  };
+};
+
+export const formatEffectParam = (param: EffectParamDefinition, value: number): string => {
+  switch (param.unit) {
+    case '%': return `${Math.round(value * 100)}%`;
+    case 'px': return `${Math.round(value * 10) / 10}px`;
+    case '°': return `${Math.round(value)}°`;
+    default: return `${Math.round(value * 100) / 100}`;
+  }
+};
+
+// ==================== KEYFRAMES ====================
+
+export const getEffectParamProperty = (effectId: string, key: string): EffectParamProperty => `effect:${effectId}:${key}`;
+
+export const parseEffectParamProperty = (property: string): { effectId: string; key: string } | null => {
+  const match = /^effect:([^:]+):(.+)$/.exec(property);
+  return match ? { effectId: match[1], key: match[2] } : null;
+};
+
+/**
+ * Current value of an effect parameter track's property, or undefined when
+ * the effect is no longer in the stack
+ */
+export const getEffectParamValue = (props: ElementProps, property: EffectParamProperty): number | undefined => {
+  const parsed = parseEffectParamProperty(property);
+  const effect = parsed && props.effects?.find(e => e.id === parsed.effectId);
+  return effect ? getEffectParam(effect, parsed!.key) : undefined;
+};
+
+export const setEffectParamValue = (props: ElementProps, property: EffectParamProperty, value: number): ElementProps => {
+  const parsed = parseEffectParamProperty(property);
+  if (!parsed) return props;
+  return { ...props, effects: setEffectParam(props.effects, parsed.effectId, parsed.key, value) };
+};
+
+/**
+ * Label of an effect parameter track, e.g. 'Vignette Amount'
+ */
+export const getEffectParamLabel = (props: ElementProps, property: EffectParamProperty): string => {
+  const parsed = parseEffectParamProperty(property);
+  const effect = parsed && props.effects?.find(e => e.id === parsed.effectId);
+  const definition = effect ? getEffectDefinition(effect.type) : undefined;
+  const param = definition?.params.find(p => p.key === parsed!.key);
+  return definition && param ? `${definition.label} ${param.label}` : property;
+};
+
+/**
+ * Parameter tracks of the element's effects, in stack order
+ */
+export const getEffectParamProperties = (props: ElementProps): EffectParamProperty[] => {
+  return (props.effects || []).flatMap(effect =>
+    (getEffectDefinition(effect.type)?.params || []).map(param => getEffectParamProperty(effect.id, param.key))
+  );
+};
+
+// ==================== RENDERING ====================
+
+/**
+ * Filter chain of the enabled effects, in stack order, or '' when none
+ * changes the picture. Pixel based parameters are multiplied by
+ * `context.pixelScale`.
+ */
+export const buildEffectsFilter = (effects: Effect[] | undefined, context: EffectRenderContext): string => {
+  return (effects || [])
+    .filter(effect => effect.enabled)
+    .map(effect => {
+      const definition = getEffectDefinition(effect.type);
+      if (!definition) return '';
+      const params: Record<string, number> = {};
+      definition.params.forEach(param => { params[param.key] = getEffectParam(effect, param.key); });
+      return definition.toFilter(params, context);
+    })
+    .filter(Boolean)
+    .join(' ');
+};
+
+// ==================== MIGRATION ====================
+
+// Fixed filter props used before effect stacks, in the order they were applied
+const LEGACY_FILTERS: { prop: string; type: string; param: string; neutral: number }[] = [
+  { prop: 'blur', type: 'blur', param: 'radius', neutral: 0 },
+  { prop: 'brightness', type: 'brightness', param: 'amount', neutral: 1 },
+  { prop: 'contrast', type: 'contrast', param: 'amount', neutral: 1 },
+  { prop: 'saturation', type: 'saturation', param: 'amount', neutral: 1 },
+  { prop: 'grayscale', type: 'grayscale', param: 'amount', neutral: 0 },
+  { prop: 'sepia', type: 'sepia', param: 'amount', neutral: 0 },
+  { prop: 'hueRotate', type: 'hueRotate', param: 'angle', neutral: 0 },
+];
+
+/**
+ * Move the fixed filter props of projects saved before effect stacks (and
+ * their keyframes) into effects. Filters left at their neutral value are
+ * dropped. Elements without them are returned as they are.
+ */
+export const migrateLegacyFilters = (el: EditorElement): EditorElement => {
+  const props = el.props as ElementProps & Record<string, unknown>;
+  const tracks = (el.keyframes || {}) as Record<string, Keyframe[] | undefined>;
+  if (!LEGACY_FILTERS.some(({ prop }) => prop in props || prop in tracks)) return el;
+
+  const nextProps: Record<string, unknown> = { ...props };
+  const nextTracks: Record<string, Keyframe[] | undefined> = { ...tracks };
+  const effects = [...(props.effects || [])];
+  LEGACY_FILTERS.forEach(({ prop, type, param, neutral }) => {
+    const value = typeof props[prop] === 'number' ? props[prop] as number : neutral;
+    const track = tracks[prop];
+    delete nextProps[prop];
+    delete nextTracks[prop];
+    if (!track?.length && value === neutral) return;
+
+    const effect = createEffect(type);
+    effect.params[param] = value;
+    effects.push(effect);
+    if (track?.length) nextTracks[getEffectParamProperty(effect.id, param)] = track;
+  });
+
+  return {
+    ...el,
+    props: { ...(nextProps as ElementProps), effects },
+    keyframes: Object.keys(nextTracks).length > 0 ? nextTracks as KeyframeTracks : undefined
+  };
+};
+
+// ==================== BUILT-IN EFFECTS ====================
+
+const cssEffect = (type: string, label: string, param: EffectParamDefinition, toCss: (value: number, pixelScale: number) => string, neutral: number) => {
+  registerEffect({
+    type,
+    label,
+    params: [param],
+    toFilter: (params, { pixelScale }) => params[param.key] === neutral ? '' : toCss(params[param.key], pixelScale),
+  });
+};
+
+cssEffect('blur', 'Blur', { key: 'radius', label: 'Radius', min: 0, max: 50, step: 1, default: 4, unit: 'px' }, (v, s) => `blur(${v * s}px)`, 0);
+cssEffect('brightness', 'Brightness', { key: 'amount', label: 'Amount', min: 0, max: 2, step: 0.05, default: 1, unit: '%' }, v => `brightness(${v})`, 1);
+cssEffect('contrast', 'Contrast', { key: 'amount', label: 'Amount', min: 0, max: 2, step: 0.05, default: 1, unit: '%' }, v => `contrast(${v})`, 1);
+cssEffect('saturation', 'Saturation', { key: 'amount', label: 'Amount', min: 0, max: 2, step: 0.05, default: 1, unit: '%' }, v => `saturate(${v})`, 1);
+cssEffect('grayscale', 'Grayscale', { key: 'amount', label: 'Amount', min: 0, max: 1, step: 0.05, default: 1, unit: '%' }, v => `grayscale(${v})`, 0);
+cssEffect('sepia', 'Sepia', { key: 'amount', label: 'Amount', min: 0, max: 1, step: 0.05, default: 1, unit: '%' }, v => `sepia(${v})`, 0);
+cssEffect('hueRotate', 'Hue Rotate', { key: 'angle', label: 'Angle', min: 0, max: 360, step: 5, default: 90, unit: '°' }, v => `hue-rotate(${v}deg)`, 0);
+
+// Samples of the vignette falloff table
+const VIGNETTE_TABLE_SIZE = 256;
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Darkening by light intensity. A point light at the centre, half a diagonal
+ * above the flat surface, lights a pixel `r` half diagonals away with
+ * intensity 1 / sqrt(1 + r²), so the table maps the intensity back to `r`.
+ */
+const buildVignetteTable = (amount: number, size: number, softness: number): string => {
+  const values: string[] = [];
+  for (let i = 0; i < VIGNETTE_TABLE_SIZE; i++) {
+    const intensity = i / (VIGNETTE_TABLE_SIZE - 1);
+    const r = intensity > 0 ? Math.sqrt(1 / (intensity * intensity) - 1) : Infinity;
+    values.push((1 - amount * smoothstep(size, size + Math.max(softness, 0.001), r)).toFixed(4));
+  }
+  return values.join(' ');
+};
+
+registerEffect({
+  type: 'vignette',
+  label: 'Vignette',
+  params: [
+    { key: 'amount', label: 'Amount', min: 0, max: 1, step: 0.05, default: 0.5, unit: '%' },
+    { key: 'size', label: 'Size', min: 0, max: 1, step: 0.05, default: 0.5, unit: '%' },
+    { key: 'softness', label: 'Softness', min: 0, max: 1, step: 0.05, default: 0.5, unit: '%' },
+  ],
+  toFilter: ({ amount, size, softness }) => {
+    if (amount <= 0) return '';
+    const id = `fx-vignette-${toFilterKey(amount)}_${toFilterKey(size)}_${toFilterKey(softness)}`;
+    return getSvgFilter(id, filter => {
+      // Positions are fractions of the box, so the vignette follows the clip at any size
+      ['x', 'y'].forEach(name => filter.setAttribute(name, '0'));
+      ['width', 'height'].forEach(name => filter.setAttribute(name, '1'));
+      filter.setAttribute('primitiveUnits', 'objectBoundingBox');
+      filter.setAttribute('color-interpolation-filters', 'sRGB');
+      const table = buildVignetteTable(amount, size, softness);
+      filter.append(
+        createSvgElement('feDiffuseLighting', { in: 'SourceGraphic', surfaceScale: 0, diffuseConstant: 1, 'lighting-color': 'white', result: 'light' }, [
+          createSvgElement('fePointLight', { x: 0.5, y: 0.5, z: 0.7071 })
+        ]),
+        createSvgElement('feComponentTransfer', { in: 'light', result: 'falloff' }, (['feFuncR', 'feFuncG', 'feFuncB'] as const).map(tag =>
+          createSvgElement(tag, { type: 'table', tableValues: table })
+        )),
+        createSvgElement('feComposite', { in: 'SourceGraphic', in2: 'falloff', operator: 'arithmetic', k1: 1, k2: 0, k3: 0, k4: 0 })
+      );
+    });
+  },
+});
+
+registerEffect({
+  type: 'sharpen',
+  label: 'Sharpen',
+  params: [
+    { key: 'amount', label: 'Amount', min: 0, max: 3, step: 0.1, default: 1 },
+  ],
+  toFilter: ({ amount }) => {
+    if (amount <= 0) return '';
+    return getSvgFilter(`fx-sharpen-${toFilterKey(amount)}`, filter => {
+      filter.setAttribute('color-interpolation-filters', 'sRGB');
+      const a = -amount;
+      filter.appendChild(createSvgElement('feConvolveMatrix', {
+        order: 3,
+        kernelMatrix: `0 ${a} 0 ${a} ${1 + 4 * amount} ${a} 0 ${a} 0`,
+        divisor: 1,
+        edgeMode: 'duplicate',
+        preserveAlpha: 'true',
+      }));
+    });
+  },
+});
+
+registerEffect({
+  type: 'glow',
+  label: 'Glow',
+  params: [
+    { key: 'radius', label: 'Radius', min: 0, max: 50, step: 1, default: 12, unit: 'px' },
+    { key: 'intensity', label: 'Intensity', min: 0, max: 2, step: 0.05, default: 0.8, unit: '%' },
+    { key: 'threshold', label: 'Threshold', min: 0, max: 1, step: 0.05, default: 0.6, unit: '%' },
+  ],
+  toFilter: ({ radius, intensity, threshold }, { pixelScale }) => {
+    if (intensity <= 0) return '';
+    const blur = radius * pixelScale;
+    const cutoff = Math.min(threshold, 0.99);
+    const id = `fx-glow-${toFilterKey(blur)}_${toFilterKey(intensity)}_${toFilterKey(cutoff)}`;
+    return getSvgFilter(id, filter => {
+      filter.setAttribute('color-interpolation-filters', 'sRGB');
+      // Keep what's brighter than the threshold, blur it and add it back on top
+      const slope = 1 / (1 - cutoff);
+      filter.append(
+        createSvgElement('feComponentTransfer', { in: 'SourceGraphic', result: 'highlights' }, (['feFuncR', 'feFuncG', 'feFuncB'] as const).map(tag =>
+          createSvgElement(tag, { type: 'linear', slope, intercept: -cutoff * slope })
+        )),
+        createSvgElement('feGaussianBlur', { in: 'highlights', stdDeviation: blur, result: 'halo' }),
+        createSvgElement('feComposite', { in: 'SourceGraphic', in2: 'halo', operator: 'arithmetic', k1: 0, k2: 1, k3: intensity, k4: 0 })
+      );
+    });
+  },
+});
+
+// Grain patterns cycled through, one per frame at this rate
+const GRAIN_FRAME_RATE = 24;
+
+registerEffect({
+  type: 'filmGrain',
+  label: 'Film Grain',
+  params: [
+    { key: 'amount', label: 'Amount', min: 0, max: 1, step: 0.05, default: 0.25, unit: '%' },
+    { key: 'size', label: 'Size', min: 0.5, max: 4, step: 0.1, default: 1, unit: 'px' },
+  ],
+  toFilter: ({ amount, size }, { pixelScale, time }) => {
+    if (amount <= 0) return '';
+    const frequency = 0.7 / Math.max(0.1, size * pixelScale);
+    // The seed follows the clip time, so a frame always gets the same grain (preview and export alike)
+    const seed = Math.floor(Math.max(0, time) * GRAIN_FRAME_RATE) % GRAIN_FRAME_RATE;
+    const id = `fx-grain-${toFilterKey(amount)}_${toFilterKey(frequency)}_${seed}`;
+    return getSvgFilter(id, filter => {
+      ['x', 'y'].forEach(name => filter.setAttribute(name, '0'));
+      ['width', 'height'].forEach(name => filter.setAttribute(name, '1'));
+      filter.setAttribute('color-interpolation-filters', 'sRGB');
+      // Gray noise centred on zero, added to the picture and kept inside its alpha
+      filter.append(
+        createSvgElement('feTurbulence', { type: 'fractalNoise', baseFrequency: frequency, numOctaves: 2, seed, result: 'noise' }),
+        createSvgElement('feColorMatrix', { in: 'noise', type: 'matrix', values: '0.33 0.33 0.33 0 0 0.33 0.33 0.33 0 0 0.33 0.33 0.33 0 0 0 0 0 0 1', result: 'gray' }),
+        createSvgElement('feComposite', { in: 'SourceGraphic', in2: 'gray', operator: 'arithmetic', k1: 0, k2: 1, k3: amount, k4: -amount / 2, result: 'grainy' }),
+        createSvgElement('feComposite', { in: 'grainy', in2: 'SourceAlpha', operator: 'in' })
+      );
+    });
+  },
+});
+
+registerEffect({
+  type: 'pixelate',
+  label: 'Pixelate',
+  params: [
+    { key: 'size', label: 'Block Size', min: 2, max: 100, step: 1, default: 12, unit: 'px' },
+  ],
+  toFilter: ({ size }, { pixelScale }) => {
+    const block = Math.max(2, Math.round(size * pixelScale));
+    const half = Math.floor(block / 2);
+    return getSvgFilter(`fx-pixelate-${block}`, filter => {
+      ['x', 'y'].forEach(name => filter.setAttribute(name, '0'));
+      ['width', 'height'].forEach(name => filter.setAttribute(name, '1'));
+      // Sample the pixel at the centre of every block and grow it over the block
+      filter.append(
+        createSvgElement('feFlood', { x: half - 1, y: half - 1, width: 2, height: 2 }),
+        createSvgElement('feComposite', { width: block, height: block }),
+        createSvgElement('feTile', { result: 'samples' }),
+        createSvgElement('feComposite', { in: 'SourceGraphic', in2: 'samples', operator: 'in' }),
+        createSvgElement('feMorphology', { operator: 'dilate', radius: half })
+      );
+    });
+  },
+});
@@ -0,0 +1,314 @@
+/**
+ * Offline Video Export
+ *
+ * Steps through the timeline frame by frame, composites each frame with the
+ * renderer and encodes it with WebCodecs. Because frames are produced on
+ * demand, the output never depends on real-time playback keeping up.
+ */
+
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from "webm-muxer";
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from "mp4-muxer";
+import { EditorElement, Track } from "../types";
+import { renderFrame, MediaFrameSource } from "./renderer";
+import { mixdownAudio, EXPORT_SAMPLE_RATE } from "./audioMixdown";
+
+export type ExportContainer = 'mp4' | 'webm';
+
+/**
+ * User-facing encoder settings chosen in the export dialog
+ */
+export interface EncodingSettings {
+  container: ExportContainer;
+  width: number;
+  height: number;
+  fps: number;
+  videoBitrate: number; // bits per second
+  keyframeInterval: number; // seconds between forced keyframes
+}
+
+export interface ExportOptions extends EncodingSettings {
+  pixelScale: number; // output pixels per preview CSS pixel
+  background?: string;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  container: ExportContainer; // May differ from the requested one after a fallback
+}
+
+export interface ExportProgress {
+  phase: 'audio' | 'video' | 'finalizing';
+  progress: number; // 0-1 within the current phase
+}
+
+interface ContainerCodecs {
+  mimeType: string;
+  video: { encoder: string; muxer: string }[]; // Candidates in order of preference
+  audio: { encoder: string; muxer: string };
+}
+
+const CONTAINER_CODECS: Record<ExportContainer, ContainerCodecs> = {
+  mp4: {
+    mimeType: 'video/mp4',
+    video: [
+      { encoder: 'avc1.640028', muxer: 'avc' }, // H.264 High, level 4.0 (1080p)
+      { encoder: 'avc1.640033', muxer: 'avc' }, // H.264 High, level 5.1 (4K at 30fps)
+      { encoder: 'avc1.640034', muxer: 'avc' }, // H.264 High, level 5.2 (4K at 60fps)
+      { encoder: 'avc1.64003C', muxer: 'avc' }, // H.264 High, level 6.0 (8K at 30fps)
+      { encoder: 'avc1.64003E', muxer: 'avc' }, // H.264 High, level 6.2 (8K at 120fps)
+      { encoder: 'avc1.4d0028', muxer: 'avc' }, // H.264 Main
+      { encoder: 'avc1.42001f', muxer: 'avc' }, // H.264 Baseline
+    ],
+    audio: { encoder: 'mp4a.40.2', muxer: 'aac' } // AAC-LC
+  },
+  webm: {
+    mimeType: 'video/webm',
+    video: [
+      { encoder: 'vp09.00.10.08', muxer: 'V_VP9' },
+      { encoder: 'vp8', muxer: 'V_VP8' },
+    ],
+    audio: { encoder: 'opus', muxer: 'A_OPUS' }
+  }
+};
+
+export const CONTAINER_LABELS: Record<ExportContainer, string> = {
+  mp4: 'MP4 (H.264 / AAC)',
+  webm: 'WebM (VP9 / Opus)'
+};
+
+const AUDIO_BITRATE = 128_000;
+const MAX_ENCODE_QUEUE = 8;
+const AUDIO_CHUNK_FRAMES = 4800; // 100ms at 48kHz
+
+export const isExportSupported = (): boolean => {
+  return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+};
+
+const createAbortError = () => new DOMException('Export cancelled', 'AbortError');
+
+// Wait for the encoder to drain below the queue limit (backpressure)
+const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise<void>(resolve => encoder.addEventListener('dequeue', () => resolve(), { once: true }));
+  }
+};
+
+const pickVideoCodec = async (container: ExportContainer, width: number, height: number, fps: number, bitrate: number, keepAlpha: boolean = false) => {
+  for (const codec of CONTAINER_CODECS[container].video) {
+    const config: VideoEncoderConfig = {
+      codec: codec.encoder,
+      width,
+      height,
+      bitrate,
+      framerate: fps,
+      ...(keepAlpha && { alpha: 'keep' as const }),
+      ...(codec.muxer === 'avc' && { avc: { format: 'avc' as const } }) // avcC description for the MP4 muxer
+    };
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (support.supported) return { config, muxerCodec: codec.muxer, alpha: keepAlpha };
+  }
+  return null;
+};
+
+const getAudioConfig = async (container: ExportContainer, numberOfChannels: number): Promise<AudioEncoderConfig | null> => {
+  if (typeof AudioEncoder === 'undefined') return null;
+  const config: AudioEncoderConfig = {
+    codec: CONTAINER_CODECS[container].audio.encoder,
+    sampleRate: EXPORT_SAMPLE_RATE,
+    numberOfChannels,
+    bitrate: AUDIO_BITRATE
+  };
+  const support = await AudioEncoder.isConfigSupported(config);
+  return support.supported ? config : null;
+};
+
+/**
+ * Whether the browser can encode the given container's video (and audio) codecs
+ */
+export const isContainerSupported = async (container: ExportContainer, width: number = 1920, height: number = 1080): Promise<boolean> => {
+  if (!isExportSupported()) return false;
+  const video = await pickVideoCodec(container, width, height, 30, 8_000_000);
+  const audio = await getAudioConfig(container, 2);
+  return !!video && !!audio;
+};
+
+/**
+ * Thin wrapper so both muxer libraries can be driven the same way
+ */
+interface ContainerWriter {
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void;
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata): void;
+  finalize(): ArrayBuffer;
+}
+
+const createWriter = (
+  container: ExportContainer,
+  video: { codec: string; width: number; height: number; fps: number; alpha: boolean },
+  audio: { codec: string; numberOfChannels: number } | null
+): ContainerWriter => {
+  if (container === 'mp4') {
+    const target = new Mp4Target();
+    const muxer = new Mp4Muxer({
+      target,
+      video: { codec: video.codec as 'avc', width: video.width, height: video.height, frameRate: video.fps },
+      ...(audio && { audio: { codec: audio.codec as 'aac', numberOfChannels: audio.numberOfChannels, sampleRate: EXPORT_SAMPLE_RATE } }),
+      fastStart: 'in-memory' // moov atom up front so the file streams
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => { muxer.finalize(); return target.buffer; }
+    };
+  }
+
+  const target = new WebmTarget();
+  const muxer = new WebmMuxer({
+    target,
+    video: { codec: video.codec, width: video.width, height: video.height, frameRate: video.fps, alpha: video.alpha },
+    ...(audio && { audio: { codec: audio.codec, numberOfChannels: audio.numberOfChannels, sampleRate: EXPORT_SAMPLE_RATE } })
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => { muxer.finalize(); return target.buffer; }
+  };
+};
+
+/**
+ * Feed a rendered AudioBuffer to an AudioEncoder in planar chunks
+ */
+const encodeAudioBuffer = async (encoder: AudioEncoder, buffer: AudioBuffer, signal?: AbortSignal) => {
+  const channels = buffer.numberOfChannels;
+  for (let offset = 0; offset < buffer.length; offset += AUDIO_CHUNK_FRAMES) {
+    if (signal?.aborted) throw createAbortError();
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, buffer.length - offset);
+    const planar = new Float32Array(frames * channels);
+    for (let c = 0; c < channels; c++) {
+      planar.set(buffer.getChannelData(c).subarray(offset, offset + frames), c * frames);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((offset / buffer.sampleRate) * 1_000_000),
+      data: planar
+    });
+    encoder.encode(data);
+    data.close();
+    await waitForQueue(encoder);
+  }
+};
+
+/**
+ * Render and encode the whole project.
+ * Falls back to WebM when the requested container's codecs are unavailable.
+ */
+export const exportVideo = async (
+  elements: EditorElement[],
+  tracks: Track[],
+  duration: number,
+  options: ExportOptions,
+  onProgress?: (progress: ExportProgress) => void,
+  signal?: AbortSignal
+): Promise<ExportResult> => {
+  if (!isExportSupported()) {
+    throw new Error('WebCodecs is not supported in this browser');
+  }
+
+  const { fps, width, height, videoBitrate } = options;
+
+  // 1. Audio mixdown
+  onProgress?.({ phase: 'audio', progress: 0 });
+  const audioBuffer = await mixdownAudio(elements, tracks, duration);
+  if (signal?.aborted) throw createAbortError();
+
+  // 2. Resolve codecs, falling back to WebM
+  let container = options.container;
+  let videoCodec = await pickVideoCodec(container, width, height, fps, videoBitrate);
+  let audioConfig = audioBuffer ? await getAudioConfig(container, audioBuffer.numberOfChannels) : null;
+  if (container !== 'webm' && (!videoCodec || (audioBuffer && !audioConfig))) {
+    console.warn(`${CONTAINER_LABELS[container]} is not supported here, falling back to WebM`);
+    container = 'webm';
+    videoCodec = await pickVideoCodec(container, width, height, fps, videoBitrate);
+    audioConfig = audioBuffer ? await getAudioConfig(container, audioBuffer.numberOfChannels) : null;
+  }
+  // Without a background the frames are transparent; only WebM can carry the alpha channel
+  if (videoCodec && container === 'webm' && !options.background) {
+    videoCodec = await pickVideoCodec(container, width, height, fps, videoBitrate, true) ?? videoCodec;
+  }
+  if (!videoCodec) {
+    throw new Error(`No supported video codec for ${width}x${height}`);
+  }
+  if (audioBuffer && !audioConfig) {
+    console.warn('No supported audio codec, exporting without audio');
+  }
+
+  // 3. Encoders + muxer
+  const writer = createWriter(
+    container,
+    { codec: videoCodec.muxerCodec, width, height, fps, alpha: videoCodec.alpha },
+    audioConfig && audioBuffer ? { codec: CONTAINER_CODECS[container].audio.muxer, numberOfChannels: audioBuffer.numberOfChannels } : null
+  );
+
+  let encoderError: Error | null = null;
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => writer.addVideoChunk(chunk, meta),
+    error: (e) => { encoderError = e; }
+  });
+  videoEncoder.configure(videoCodec.config);
+
+  let audioEncoder: AudioEncoder | null = null;
+  if (audioConfig) {
+    audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => writer.addAudioChunk(chunk, meta),
+      error: (e) => { encoderError = e; }
+    });
+    audioEncoder.configure(audioConfig);
+  }
+
+  // 4. Render frames
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const source = new MediaFrameSource();
+  const totalFrames = Math.max(1, Math.ceil(duration * fps));
+  const frameDuration = 1_000_000 / fps;
+  const keyframeInterval = Math.max(1, Math.round(fps * options.keyframeInterval));
+
+  try {
+    for (let i = 0; i < totalFrames; i++) {
+      if (signal?.aborted) throw createAbortError();
+      if (encoderError) throw encoderError;
+
+      await renderFrame(ctx, elements, tracks, i / fps, source, options);
+
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(i * frameDuration),
+        duration: Math.round(frameDuration)
+      });
+      videoEncoder.encode(frame, { keyFrame: i % keyframeInterval === 0 });
+      frame.close();
+      await waitForQueue(videoEncoder);
+
+      onProgress?.({ phase: 'video', progress: (i + 1) / totalFrames });
+    }
+
+    onProgress?.({ phase: 'finalizing', progress: 0 });
+    if (audioEncoder && audioBuffer) {
+      await encodeAudioBuffer(audioEncoder, audioBuffer, signal);
+      await audioEncoder.flush();
+    }
+    await videoEncoder.flush();
+    if (encoderError) throw encoderError;
+
+    const buffer = writer.finalize();
+    onProgress?.({ phase: 'finalizing', progress: 1 });
+    return { blob: new Blob([buffer], { type: CONTAINER_CODECS[container].mimeType }), container };
+  } finally {
+    source.dispose();
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+  }
+};
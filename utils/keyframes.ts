@@ -0,0 +1,372 @@
+/**
+ * Keyframe Animation
+ *
+ * Elements keep their static values in `x`, `y`, ... and `props`; a property
+ * with keyframes overrides that value with one interpolated at the current
+ * time. Keyframe times are relative to the element's start, so animations
+ * travel with the clip when it is moved on the timeline. Effect parameters
+ * are animated on `effect:<effect id>:<param key>` tracks (see effects.ts).
+ */
+
+import { EditorElement, Keyframe, KeyframeEasing, KeyframeTracks, AnimatableProperty, EffectParamProperty } from "../types";
+import { getEffectParamLabel, getEffectParamProperties, getEffectParamValue, parseEffectParamProperty, setEffectParamValue } from "./effects";
+
+// ==================== PROPERTY METADATA ====================
+
+// Properties stored directly on the element rather than in `props`
+type TransformProperty = Extract<AnimatableProperty, 'x' | 'y' | 'width' | 'height' | 'rotation'>;
+
+const TRANSFORM_PROPERTIES: ReadonlySet<AnimatableProperty> = new Set<TransformProperty>(['x', 'y', 'width', 'height', 'rotation']);
+
+export const ANIMATABLE_PROPERTY_LABELS: Record<Exclude<AnimatableProperty, EffectParamProperty>, string> = {
+  x: 'X',
+  y: 'Y',
+  width: 'Width',
+  height: 'Height',
+  rotation: 'Rotation',
+  opacity: 'Opacity',
+  borderRadius: 'Radius',
+  letterSpacing: 'Letter Spacing',
+  shadowBlur: 'Shadow Blur',
+  shadowX: 'Shadow X',
+  shadowY: 'Shadow Y',
+  playbackRate: 'Speed',
+  volume: 'Volume',
+  pan: 'Pan'
+};
+
+// Value used when a prop has never been set
+const PROPERTY_DEFAULTS: Partial<Record<AnimatableProperty, number>> = {
+  opacity: 1,
+  shadowX: 4,
+  shadowY: 4,
+  playbackRate: 1,
+  volume: 1
+};
+
+// Curves behind the named easings (CSS timing function equivalents)
+export const EASING_CURVES: Record<'linear' | 'ease-in' | 'ease-out' | 'ease-in-out', [number, number, number, number]> = {
+  'linear': [0, 0, 1, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1]
+};
+
+export const EASING_LABELS: Record<KeyframeEasing, string> = {
+  'linear': 'Linear',
+  'ease-in': 'Ease In',
+  'ease-out': 'Ease Out',
+  'ease-in-out': 'Ease In/Out',
+  'bezier': 'Bezier',
+  'hold': 'Hold'
+};
+
+// Two keyframes closer than this are treated as the same keyframe
+export const KEYFRAME_TIME_EPSILON = 1 / 240;
+
+export const isTransformProperty = (property: AnimatableProperty): property is TransformProperty => {
+  return TRANSFORM_PROPERTIES.has(property);
+};
+
+const isEffectParamProperty = (property: AnimatableProperty): property is EffectParamProperty => {
+  return !!parseEffectParamProperty(property);
+};
+
+export const getPropertyLabel = (el: EditorElement, property: AnimatableProperty): string => {
+  return isEffectParamProperty(property) ? getEffectParamLabel(el.props, property) : ANIMATABLE_PROPERTY_LABELS[property];
+};
+
+/**
+ * Properties of the element that have keyframes, in panel order
+ * (effect parameters last, in stack order)
+ */
+export const getKeyframedProperties = (el: EditorElement): AnimatableProperty[] => {
+  const tracks = el.keyframes || {};
+  const properties: AnimatableProperty[] = [
+    ...(Object.keys(ANIMATABLE_PROPERTY_LABELS) as AnimatableProperty[]),
+    ...getEffectParamProperties(el.props)
+  ];
+  return properties.filter(property => tracks[property]?.length);
+};
+
+/**
+ * Value of a property as stored on the element (pass the result of
+ * getAnimatedElement to read the animated value)
+ */
+export const getPropertyValue = (el: EditorElement, property: AnimatableProperty): number => {
+  if (isTransformProperty(property)) {
+    return el[property];
+  }
+  if (isEffectParamProperty(property)) {
+    return getEffectParamValue(el.props, property) ?? 0;
+  }
+  return el.props[property] ?? PROPERTY_DEFAULTS[property] ?? 0;
+};
+
+export const hasKeyframes = (el: EditorElement): boolean => {
+  return !!el.keyframes && Object.values(el.keyframes).some(track => track && track.length > 0);
+};
+
+// ==================== INTERPOLATION ====================
+
+/**
+ * Evaluate a CSS-style cubic-bezier timing function at progress `t` (0-1)
+ */
+export const cubicBezier = (x1: number, y1: number, x2: number, y2: number, t: number): number => {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+
+  const sample = (a1: number, a2: number, u: number) => {
+    const v = 1 - u;
+    return 3 * v * v * u * a1 + 3 * v * u * u * a2 + u * u * u;
+  };
+
+  // Solve x(u) = t with Newton iterations, falling back to bisection
+  let u = t;
+  for (let i = 0; i < 8; i++) {
+    const x = sample(x1, x2, u) - t;
+    if (Math.abs(x) < 1e-6) return sample(y1, y2, u);
+    const dx = 3 * (1 - u) * (1 - u) * x1 + 6 * (1 - u) * u * (x2 - x1) + 3 * u * u * (1 - x2);
+    if (Math.abs(dx) < 1e-6) break;
+    u -= x / dx;
+  }
+
+  let lo = 0;
+  let hi = 1;
+  u = t;
+  for (let i = 0; i < 32; i++) {
+    const x = sample(x1, x2, u);
+    if (Math.abs(x - t) < 1e-6) break;
+    if (x < t) lo = u; else hi = u;
+    u = (lo + hi) / 2;
+  }
+  return sample(y1, y2, u);
+};
+
+/**
+ * Eased progress (0-1) of the segment starting at `keyframe`
+ */
+export const applyEasing = (keyframe: Pick<Keyframe, 'easing' | 'bezier'>, t: number): number => {
+  if (keyframe.easing === 'hold') return 0;
+  if (keyframe.easing === 'linear') return t;
+  const curve = keyframe.easing === 'bezier'
+    ? keyframe.bezier ?? EASING_CURVES['ease-in-out']
+    : EASING_CURVES[keyframe.easing];
+  return cubicBezier(curve[0], curve[1], curve[2], curve[3], t);
+};
+
+/**
+ * Control points of the curve leaving `keyframe`, as used by the graph editor.
+ * Hold segments have no curve.
+ */
+export const getBezierPoints = (keyframe: Keyframe): [number, number, number, number] | null => {
+  if (keyframe.easing === 'hold') return null;
+  if (keyframe.easing === 'linear') return [1 / 3, 1 / 3, 2 / 3, 2 / 3]; // Same line, with handles off the keyframes
+  if (keyframe.easing === 'bezier') return keyframe.bezier ?? EASING_CURVES['ease-in-out'];
+  return EASING_CURVES[keyframe.easing];
+};
+
+/**
+ * Value of a keyframe track at a clip-relative time.
+ * Holds the first/last value outside the keyed range.
+ */
+export const interpolateKeyframes = (keyframes: Keyframe[], localTime: number): number | undefined => {
+  if (keyframes.length === 0) return undefined;
+  if (localTime <= keyframes[0].time) return keyframes[0].value;
+
+  const last = keyframes[keyframes.length - 1];
+  if (localTime >= last.time) return last.value;
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    if (localTime >= from.time && localTime < to.time) {
+      const span = to.time - from.time;
+      const t = span > 0 ? (localTime - from.time) / span : 1;
+      return from.value + (to.value - from.value) * applyEasing(from, t);
+    }
+  }
+  return last.value;
+};
+
+/**
+ * Copy of the element with every keyframed property resolved at `time`
+ * (timeline seconds). Returns the element itself when nothing is animated.
+ */
+export const getAnimatedElement = (el: EditorElement, time: number): EditorElement => {
+  if (!hasKeyframes(el)) return el;
+
+  const localTime = time - el.startTime;
+  const animated: EditorElement = { ...el, props: { ...el.props } };
+  (Object.keys(el.keyframes!) as AnimatableProperty[]).forEach(property => {
+    const value = interpolateKeyframes(el.keyframes![property] || [], localTime);
+    if (value === undefined) return;
+    if (isTransformProperty(property)) {
+      animated[property] = value;
+    } else if (isEffectParamProperty(property)) {
+      animated.props = setEffectParamValue(animated.props, property, value);
+    } else {
+      animated.props[property] = value;
+    }
+  });
+  return animated;
+};
+
+// ==================== EDITING ====================
+
+const createKeyframeId = () => Math.random().toString(36).substr(2, 9);
+
+export const findKeyframeAt = (keyframes: Keyframe[] | undefined, localTime: number): Keyframe | undefined => {
+  return keyframes?.find(k => Math.abs(k.time - localTime) < KEYFRAME_TIME_EPSILON);
+};
+
+/**
+ * Add a keyframe at `localTime`, or update the value of the one already there
+ */
+export const upsertKeyframe = (keyframes: Keyframe[] | undefined, localTime: number, value: number): Keyframe[] => {
+  const existing = findKeyframeAt(keyframes, localTime);
+  if (existing) {
+    return keyframes!.map(k => k.id === existing.id ? { ...k, value } : k);
+  }
+  // New keyframes inherit the easing of the one before them
+  const previous = [...(keyframes || [])].reverse().find(k => k.time < localTime);
+  const keyframe: Keyframe = {
+    id: createKeyframeId(),
+    time: localTime,
+    value,
+    easing: previous?.easing ?? 'linear',
+    ...(previous?.bezier && { bezier: previous.bezier })
+  };
+  return [...(keyframes || []), keyframe].sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Element updates that add/remove a keyframe for `property` at the playhead.
+ * Removing the last keyframe writes the value back as the static value.
+ */
+export const toggleKeyframe = (el: EditorElement, property: AnimatableProperty, time: number): Partial<EditorElement> => {
+  const localTime = Math.min(Math.max(0, time - el.startTime), el.duration);
+  const track = el.keyframes?.[property];
+  const existing = findKeyframeAt(track, localTime);
+  const current = getPropertyValue(getAnimatedElement(el, time), property);
+
+  if (!existing) {
+    return { keyframes: { ...el.keyframes, [property]: upsertKeyframe(track, localTime, current) } };
+  }
+
+  const remaining = track!.filter(k => k.id !== existing.id);
+  if (remaining.length > 0) {
+    return { keyframes: { ...el.keyframes, [property]: remaining } };
+  }
+  return clearKeyframes(el, property, existing.value);
+};
+
+/**
+ * Element updates that change the easing out of one keyframe
+ */
+export const setKeyframeEasing = (el: EditorElement, property: AnimatableProperty, keyframeId: string, easing: KeyframeEasing): Partial<EditorElement> => {
+  const track = el.keyframes?.[property] || [];
+  return {
+    keyframes: {
+      ...el.keyframes,
+      [property]: track.map(k => k.id === keyframeId
+        ? { ...k, easing, ...(easing === 'bezier' && !k.bezier && { bezier: EASING_CURVES['ease-in-out'] }) }
+        : k)
+    }
+  };
+};
+
+/**
+ * Element updates that stop animating `property`, keeping `value` as its static value
+ */
+export const clearKeyframes = (el: EditorElement, property: AnimatableProperty, value: number): Partial<EditorElement> => {
+  const { [property]: _removed, ...rest } = el.keyframes || {};
+  const keyframes = Object.keys(rest).length > 0 ? rest : undefined;
+  if (isTransformProperty(property)) {
+    return { keyframes, [property]: value };
+  }
+  if (isEffectParamProperty(property)) {
+    return { keyframes, props: setEffectParamValue(el.props, property, value) };
+  }
+  return { keyframes, props: { ...el.props, [property]: value } };
+};
+
+/**
+ * Route edits of animated properties into keyframes at `time` (auto-key).
+ *
+ * Callers such as the properties panel and the preview work on the animated
+ * copy of an element, so unchanged animated values are dropped instead of
+ * being written over the static value.
+ */
+export const applyKeyframedUpdates = (el: EditorElement, updates: Partial<EditorElement>, time: number): Partial<EditorElement> => {
+  const tracks: KeyframeTracks | undefined = 'keyframes' in updates ? updates.keyframes : el.keyframes;
+  if (!tracks || Object.keys(tracks).length === 0) return updates;
+
+  const target = { ...el, ...updates, keyframes: tracks };
+  const animated = getAnimatedElement(target, time);
+  const localTime = Math.min(Math.max(0, time - target.startTime), target.duration);
+  const result: Partial<EditorElement> = { ...updates };
+  const nextTracks: KeyframeTracks = { ...tracks };
+  let props = updates.props ? { ...updates.props } : undefined;
+
+  (Object.keys(tracks) as AnimatableProperty[]).forEach(property => {
+    if (!tracks[property]?.length) return;
+
+    let incoming: unknown;
+    if (isTransformProperty(property)) {
+      if (!(property in updates)) return;
+      incoming = updates[property];
+      delete result[property];
+    } else if (isEffectParamProperty(property)) {
+      // Only updates that carry the effect stack can change a parameter
+      if (!props?.effects) return;
+      incoming = getEffectParamValue(props, property);
+      const stored = getEffectParamValue(el.props, property);
+      if (stored !== undefined) props = setEffectParamValue(props, property, stored);
+    } else {
+      if (!props || !(property in props)) return;
+      incoming = props[property];
+      props[property] = el.props[property];
+    }
+
+    if (typeof incoming === 'number' && incoming !== getPropertyValue(animated, property)) {
+      nextTracks[property] = upsertKeyframe(nextTracks[property], localTime, incoming);
+    }
+  });
+
+  if (props) result.props = props;
+  result.keyframes = nextTracks;
+  return result;
+};
+
+/**
+ * Keyframes of a clip whose start moved by `delta` seconds with its end in
+ * place (positive trims the head), so they stay on the same frames. Keyframes
+ * trimmed off are clamped to 0: the last of them is kept there, holding the
+ * value the track had at the new start.
+ */
+export const trimKeyframesStart = (tracks: KeyframeTracks | undefined, delta: number): KeyframeTracks | undefined => {
+  const shifted = shiftKeyframes(tracks, -delta);
+  if (!shifted) return shifted;
+  (Object.keys(shifted) as AnimatableProperty[]).forEach(property => {
+    const track = shifted[property]!;
+    const trimmed = track.filter(k => k.time < 0);
+    if (trimmed.length === 0) return;
+    const kept = track.filter(k => k.time >= 0);
+    const start = { ...trimmed[trimmed.length - 1], time: 0, value: interpolateKeyframes(track, 0)! };
+    shifted[property] = findKeyframeAt(kept, 0) ? kept : [start, ...kept];
+  });
+  return shifted;
+};
+
+/**
+ * Shift every keyframe by `offset` seconds (e.g. for the right half of a split clip)
+ */
+export const shiftKeyframes = (tracks: KeyframeTracks | undefined, offset: number): KeyframeTracks | undefined => {
+  if (!tracks) return tracks;
+  const shifted: KeyframeTracks = {};
+  (Object.keys(tracks) as AnimatableProperty[]).forEach(property => {
+    shifted[property] = tracks[property]!.map(k => ({ ...k, id: createKeyframeId(), time: k.time + offset }));
+  });
+  return shifted;
+};
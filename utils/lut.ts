@@ -0,0 +1,341 @@
+/**
+ * Color LUTs
+ *
+ * Built-in looks (the `lutPreset` buttons) are generated as 3D LUTs; colorists
+ * can also import their own .cube files (1D or 3D), which are kept in the
+ * project database and registered here by id. Both are applied to the source
+ * pixels on the GPU, before the CSS filters and color wheels, by the preview
+ * and the export renderer alike.
+ */
+
+import { ElementProps } from "../types";
+import { createPassProgram, createSourceTexture, getPassContext, resizePass, uploadSource } from "./webgl";
+
+// ==================== TYPES ====================
+
+export type LutPreset = NonNullable<ElementProps['lutPreset']>;
+
+type RGB = [number, number, number];
+
+export interface Lut {
+  title: string;
+  kind: '1d' | '3d';
+  size: number; // Entries per channel
+  domainMin: RGB;
+  domainMax: RGB;
+  data: Float32Array; // RGB triples; for 3D, red varies fastest, then green, then blue
+}
+
+// Largest sizes accepted from .cube files
+const MAX_LUT_3D_SIZE = 256;
+const MAX_LUT_1D_SIZE = 65536;
+
+// Resolution of the generated preset LUTs
+const PRESET_LUT_SIZE = 33;
+
+// ==================== .CUBE PARSING ====================
+
+const parseTriple = (parts: string[], line: number): RGB => {
+  const values = parts.slice(0, 3).map(Number);
+  if (values.length < 3 || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Line ${line}: expected three numbers`);
+  }
+  return values as RGB;
+};
+
+/**
+ * Parse an Adobe / Resolve .cube file. Throws with a readable message when the
+ * file is not a valid LUT.
+ */
+export const parseCubeLut = (text: string, fallbackTitle: string = 'LUT'): Lut => {
+  let title = fallbackTitle;
+  let kind: Lut['kind'] | null = null;
+  let size = 0;
+  let domainMin: RGB = [0, 0, 0];
+  let domainMax: RGB = [1, 1, 1];
+  const values: number[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.replace(/#.*$/, '').trim();
+    if (!line) return;
+    const lineNumber = index + 1;
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    switch (keyword.toUpperCase()) {
+      case 'TITLE':
+        title = line.slice(keyword.length).trim().replace(/^"|"$/g, '') || title;
+        return;
+      case 'LUT_1D_SIZE':
+      case 'LUT_3D_SIZE':
+        if (kind) throw new Error(`Line ${lineNumber}: LUT size declared twice`);
+        kind = keyword.toUpperCase() === 'LUT_1D_SIZE' ? '1d' : '3d';
+        size = Number(rest[0]);
+        if (!Number.isInteger(size) || size < 2 || size > (kind === '1d' ? MAX_LUT_1D_SIZE : MAX_LUT_3D_SIZE)) {
+          throw new Error(`Line ${lineNumber}: unsupported LUT size ${rest[0]}`);
+        }
+        return;
+      case 'DOMAIN_MIN':
+        domainMin = parseTriple(rest, lineNumber);
+        return;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriple(rest, lineNumber);
+        return;
+      case 'LUT_1D_INPUT_RANGE':
+      case 'LUT_3D_INPUT_RANGE': {
+        // Resolve's single-range form of DOMAIN_MIN / DOMAIN_MAX
+        const [min, max] = rest.map(Number);
+        if (!Number.isFinite(min) || !Number.isFinite(max)) throw new Error(`Line ${lineNumber}: invalid input range`);
+        domainMin = [min, min, min];
+        domainMax = [max, max, max];
+        return;
+      }
+    }
+
+    if (!/^[-+.\d]/.test(keyword)) return; // Unknown keywords are skipped, as the spec allows
+    values.push(...parseTriple([keyword, ...rest], lineNumber));
+  });
+
+  if (!kind) throw new Error('Missing LUT_1D_SIZE or LUT_3D_SIZE');
+  const expected = kind === '1d' ? size : size * size * size;
+  if (values.length !== expected * 3) {
+    throw new Error(`Expected ${expected} entries but found ${Math.floor(values.length / 3)}`);
+  }
+  if (domainMax.some((max, i) => max <= domainMin[i])) {
+    throw new Error('DOMAIN_MAX must be greater than DOMAIN_MIN');
+  }
+
+  return { title, kind, size, domainMin, domainMax, data: new Float32Array(values) };
+};
+
+// ==================== PRESETS ====================
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+const luma = ([r, g, b]: RGB) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+// Blend towards a smoothstep curve: more contrast without clipping
+const sCurve = (x: number, amount: number) => mix(x, x * x * (3 - 2 * x), amount);
+
+const saturate = (c: RGB, amount: number): RGB => {
+  const l = luma(c);
+  return [mix(l, c[0], amount), mix(l, c[1], amount), mix(l, c[2], amount)];
+};
+
+const PRESET_LOOKS: Record<Exclude<LutPreset, 'none'>, (c: RGB) => RGB> = {
+  // Softer colors, deeper contrast, cool shadows and warm highlights
+  'cinematic': (c) => {
+    const [r, g, b] = saturate(c, 0.85).map(v => sCurve(v, 0.35));
+    const l = luma([r, g, b]);
+    return [r - 0.03 * (1 - l) + 0.04 * l, g, b + 0.04 * (1 - l) - 0.03 * l];
+  },
+  // Faded blacks, warm cast and muted colors
+  'vintage': (c) => {
+    const [r, g, b] = saturate(c, 0.7);
+    return [0.08 + (r * 1.06 + 0.02) * 0.86, 0.08 + (g + 0.01) * 0.86, 0.08 + b * 0.88 * 0.86];
+  },
+  'cool': ([r, g, b]) => [r * 0.9, g * 0.98, b * 1.08 + 0.02],
+  'warm': ([r, g, b]) => [r * 1.08 + 0.02, g * 1.02, b * 0.88],
+  // High contrast black and white
+  'noir': (c) => {
+    const l = sCurve(luma(c), 0.6);
+    return [l, l, l];
+  },
+  // Shadows pushed to teal, highlights (and skin tones) to orange
+  'teal-orange': (c) => {
+    const [r, g, b] = saturate(c, 1.15);
+    const l = luma(c);
+    const shadows = (1 - l) * (1 - l);
+    const highlights = l * l;
+    return [
+      sCurve(r - 0.12 * shadows + 0.1 * highlights, 0.2),
+      sCurve(g + 0.02 * shadows + 0.03 * highlights, 0.2),
+      sCurve(b + 0.06 * shadows - 0.1 * highlights, 0.2)
+    ];
+  },
+  // Silver retention look: half desaturated with hard contrast
+  'bleach-bypass': (c) => {
+    const l = luma(c);
+    return saturate(c, 0.45).map(v => sCurve(mix(v, l, 0.1), 0.5)) as RGB;
+  },
+};
+
+const presetCache = new Map<LutPreset, Lut>();
+
+const buildPresetLut = (preset: Exclude<LutPreset, 'none'>): Lut => {
+  const size = PRESET_LUT_SIZE;
+  const look = PRESET_LOOKS[preset];
+  const data = new Float32Array(size * size * size * 3);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const out = look([r / (size - 1), g / (size - 1), b / (size - 1)]);
+        data[i++] = clamp01(out[0]);
+        data[i++] = clamp01(out[1]);
+        data[i++] = clamp01(out[2]);
+      }
+    }
+  }
+  return { title: preset, kind: '3d', size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], data };
+};
+
+export const getPresetLut = (preset: LutPreset): Lut | null => {
+  if (preset === 'none') return null;
+  if (!presetCache.has(preset)) presetCache.set(preset, buildPresetLut(preset));
+  return presetCache.get(preset)!;
+};
+
+// ==================== IMPORTED LUTS ====================
+
+// Parsed .cube files by asset id, filled when the LUT library loads
+const importedLuts = new Map<string, Lut>();
+
+export const registerLut = (id: string, lut: Lut): void => {
+  importedLuts.set(id, lut);
+};
+
+export const unregisterLut = (id: string): void => {
+  importedLuts.delete(id);
+};
+
+/**
+ * LUT a clip uses: an imported LUT takes precedence over the preset
+ */
+export const getElementLut = (props: ElementProps): Lut | null => {
+  if (props.lutId) return importedLuts.get(props.lutId) ?? null;
+  return props.lutPreset ? getPresetLut(props.lutPreset) : null;
+};
+
+// ==================== GPU PROCESSING ====================
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+uniform sampler2D uSource;
+uniform sampler3D uLut3d;
+uniform sampler2D uLut1d;
+uniform bool uIs3d;
+uniform float uSize;
+uniform vec3 uDomainMin;
+uniform vec3 uDomainMax;
+uniform float uIntensity;
+in vec2 vUv;
+out vec4 outColor;
+void main() {
+  vec4 source = texture(uSource, vUv);
+  vec3 t = clamp((source.rgb - uDomainMin) / (uDomainMax - uDomainMin), 0.0, 1.0);
+  // Sample between the centres of the first and last texels
+  vec3 coord = t * ((uSize - 1.0) / uSize) + 0.5 / uSize;
+  vec3 graded = uIs3d
+    ? texture(uLut3d, coord).rgb
+    : vec3(texture(uLut1d, vec2(coord.r, 0.5)).r, texture(uLut1d, vec2(coord.g, 0.5)).g, texture(uLut1d, vec2(coord.b, 0.5)).b);
+  outColor = vec4(mix(source.rgb, clamp(graded, 0.0, 1.0), uIntensity), source.a);
+}`;
+
+/**
+ * Linearly resample a 1D LUT that is wider than the GPU allows
+ */
+const resample1d = (lut: Lut, size: number): Float32Array => {
+  const data = new Float32Array(size * 3);
+  for (let i = 0; i < size; i++) {
+    const position = (i / (size - 1)) * (lut.size - 1);
+    const lo = Math.floor(position);
+    const hi = Math.min(lut.size - 1, lo + 1);
+    const t = position - lo;
+    for (let c = 0; c < 3; c++) {
+      data[i * 3 + c] = mix(lut.data[lo * 3 + c], lut.data[hi * 3 + c], t);
+    }
+  }
+  return data;
+};
+
+class LutProcessor {
+  private canvas = document.createElement('canvas');
+  private gl: WebGL2RenderingContext | null;
+  private program: WebGLProgram | null = null;
+  private sourceTexture: WebGLTexture | null = null;
+  private lutTextures = new WeakMap<Lut, { texture: WebGLTexture; size: number }>();
+
+  constructor() {
+    this.gl = getPassContext(this.canvas, 'LUTs');
+    if (!this.gl) return;
+    const gl = this.gl;
+    this.program = createPassProgram(gl, FRAGMENT_SHADER, 'LUT');
+    if (this.program) {
+      gl.uniform1i(gl.getUniformLocation(this.program, 'uLut3d'), 1);
+      gl.uniform1i(gl.getUniformLocation(this.program, 'uLut1d'), 2);
+    }
+    this.sourceTexture = createSourceTexture(gl);
+  }
+
+  private getLutTexture(lut: Lut): { texture: WebGLTexture; size: number } {
+    const cached = this.lutTextures.get(lut);
+    if (cached) return cached;
+
+    const gl = this.gl!;
+    const texture = gl.createTexture()!;
+    const target = lut.kind === '3d' ? gl.TEXTURE_3D : gl.TEXTURE_2D;
+    gl.activeTexture(lut.kind === '3d' ? gl.TEXTURE1 : gl.TEXTURE2);
+    gl.bindTexture(target, texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+    let size = lut.size;
+    if (lut.kind === '3d') {
+      gl.texImage3D(target, 0, gl.RGB16F, size, size, size, 0, gl.RGB, gl.FLOAT, lut.data);
+      gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+    } else {
+      size = Math.min(lut.size, gl.getParameter(gl.MAX_TEXTURE_SIZE));
+      const data = size === lut.size ? lut.data : resample1d(lut, size);
+      gl.texImage2D(target, 0, gl.RGB16F, size, 1, 0, gl.RGB, gl.FLOAT, data);
+    }
+    gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    const entry = { texture, size };
+    this.lutTextures.set(lut, entry);
+    return entry;
+  }
+
+  /**
+   * Grade `source` (width x height pixels) through `lut`. The result is only
+   * valid until the next call, so draw it right away.
+   */
+  process(source: TexImageSource, width: number, height: number, lut: Lut, intensity: number): HTMLCanvasElement | null {
+    const gl = this.gl;
+    const program = this.program;
+    if (!gl || !program || width <= 0 || height <= 0) return null;
+
+    resizePass(gl, this.canvas, width, height);
+
+    const { texture, size } = this.getLutTexture(lut);
+    gl.activeTexture(lut.kind === '3d' ? gl.TEXTURE1 : gl.TEXTURE2);
+    gl.bindTexture(lut.kind === '3d' ? gl.TEXTURE_3D : gl.TEXTURE_2D, texture);
+    gl.uniform1i(gl.getUniformLocation(program, 'uIs3d'), lut.kind === '3d' ? 1 : 0);
+    gl.uniform1f(gl.getUniformLocation(program, 'uSize'), size);
+    gl.uniform3fv(gl.getUniformLocation(program, 'uDomainMin'), lut.domainMin);
+    gl.uniform3fv(gl.getUniformLocation(program, 'uDomainMax'), lut.domainMax);
+    gl.uniform1f(gl.getUniformLocation(program, 'uIntensity'), intensity);
+
+    if (!uploadSource(gl, this.sourceTexture, source, 'LUT processing')) return null;
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    return this.canvas;
+  }
+}
+
+let processor: LutProcessor | null = null;
+
+/**
+ * Run a clip's LUT over a frame of its media. Returns the graded frame (valid
+ * until the next call), or null when the clip has no LUT or it can't be applied.
+ */
+export const applyElementLut = (props: ElementProps, source: TexImageSource, width: number, height: number): HTMLCanvasElement | null => {
+  const lut = getElementLut(props);
+  const intensity = props.lutIntensity ?? 1;
+  if (!lut || intensity <= 0) return null;
+
+  if (!processor) processor = new LutProcessor();
+  return processor.process(source, width, height, lut, Math.min(intensity, 1));
+};
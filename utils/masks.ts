@@ -0,0 +1,327 @@
+/**
+ * Masks
+ *
+ * Shape masks cut an element down to closed paths drawn over its box:
+ * rectangles, ellipses and freehand bezier paths. Every shape is stored as a
+ * bezier path in box fractions, so they are all edited, animated and rendered
+ * the same way. Each mask can be feathered, expanded (or shrunk) and inverted.
+ *
+ * Several masks combine into one coverage: the union of the normal masks (or
+ * the whole box when there are none), minus every inverted mask. The preview
+ * applies it as a CSS mask image and the export renderer draws the same
+ * coverage onto a canvas.
+ */
+
+import { EditorElement, Mask, MaskKeyframe, MaskShape, MaskVertex } from "../types";
+import { applyEasing, KEYFRAME_TIME_EPSILON } from "./keyframes";
+
+// ==================== SHAPES ====================
+
+// Mask being worked on in the preview
+export interface MaskEditState {
+  elementId: string;
+  maskId: string | null; // Mask whose path is shown with handles
+  drawing: MaskShape | null; // Shape being drawn with the mouse
+}
+
+export const MASK_SHAPE_LABELS: Record<MaskShape, string> = {
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  bezier: 'Bezier'
+};
+
+// Handle length (as a fraction of the radius) that approximates a quarter circle
+const KAPPA = 0.5523;
+
+// Masks are never created smaller than this (fraction of the box)
+export const MIN_MASK_SIZE = 0.01;
+
+const createMaskId = () => Math.random().toString(36).substr(2, 9);
+
+const nextMaskName = (el: EditorElement, shape: MaskShape) => {
+  const count = (el.masks || []).filter(m => m.shape === shape).length;
+  return `${MASK_SHAPE_LABELS[shape]} ${count + 1}`;
+};
+
+/**
+ * Rectangle or ellipse mask filling `bounds` (fractions of the box)
+ */
+export const createShapeMask = (
+  el: EditorElement,
+  shape: 'rectangle' | 'ellipse',
+  bounds: { x: number; y: number; width: number; height: number }
+): Mask => {
+  const { x, y, width, height } = bounds;
+  let points: MaskVertex[];
+  if (shape === 'rectangle') {
+    points = [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height }
+    ];
+  } else {
+    const kx = (width / 2) * KAPPA;
+    const ky = (height / 2) * KAPPA;
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+    // Clockwise from the top
+    points = [
+      { x: cx, y, inX: -kx, inY: 0, outX: kx, outY: 0 },
+      { x: x + width, y: cy, inX: 0, inY: -ky, outX: 0, outY: ky },
+      { x: cx, y: y + height, inX: kx, inY: 0, outX: -kx, outY: 0 },
+      { x, y: cy, inX: 0, inY: ky, outX: 0, outY: -ky }
+    ];
+  }
+  return { id: createMaskId(), name: nextMaskName(el, shape), shape, points };
+};
+
+/**
+ * Freehand mask through `points` (closed back to the first one)
+ */
+export const createBezierMask = (el: EditorElement, points: MaskVertex[]): Mask => {
+  return { id: createMaskId(), name: nextMaskName(el, 'bezier'), shape: 'bezier', points };
+};
+
+export const hasMasks = (el: EditorElement): boolean => !!el.masks?.length;
+
+// ==================== ANIMATION ====================
+
+const lerp = (a: number | undefined, b: number | undefined, t: number): number => {
+  return (a ?? 0) + ((b ?? 0) - (a ?? 0)) * t;
+};
+
+const interpolatePoints = (from: MaskVertex[], to: MaskVertex[], t: number): MaskVertex[] => {
+  // Paths with a different number of points can't morph, so they switch at the next keyframe
+  if (from.length !== to.length) return from;
+  return from.map((p, i) => {
+    const q = to[i];
+    return {
+      x: lerp(p.x, q.x, t),
+      y: lerp(p.y, q.y, t),
+      inX: lerp(p.inX, q.inX, t),
+      inY: lerp(p.inY, q.inY, t),
+      outX: lerp(p.outX, q.outX, t),
+      outY: lerp(p.outY, q.outY, t)
+    };
+  });
+};
+
+/**
+ * Path of a mask at a clip-relative time. Holds the first/last keyframe
+ * outside the keyed range.
+ */
+export const getMaskPoints = (mask: Mask, localTime: number): MaskVertex[] => {
+  const keyframes = mask.keyframes;
+  if (!keyframes?.length) return mask.points;
+  if (localTime <= keyframes[0].time) return keyframes[0].points;
+
+  const last = keyframes[keyframes.length - 1];
+  if (localTime >= last.time) return last.points;
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    if (localTime >= from.time && localTime < to.time) {
+      const span = to.time - from.time;
+      const t = span > 0 ? (localTime - from.time) / span : 1;
+      return interpolatePoints(from.points, to.points, applyEasing(from, t));
+    }
+  }
+  return last.points;
+};
+
+export const findMaskKeyframeAt = (mask: Mask, localTime: number): MaskKeyframe | undefined => {
+  return mask.keyframes?.find(k => Math.abs(k.time - localTime) < KEYFRAME_TIME_EPSILON);
+};
+
+/**
+ * Mask with a new path. Animated masks get a keyframe at `localTime` (or have
+ * the one there updated), like other keyframed properties.
+ */
+export const setMaskPoints = (mask: Mask, points: MaskVertex[], localTime: number): Mask => {
+  if (!mask.keyframes?.length) return { ...mask, points };
+
+  const existing = findMaskKeyframeAt(mask, localTime);
+  if (existing) {
+    return { ...mask, keyframes: mask.keyframes.map(k => k.id === existing.id ? { ...k, points } : k) };
+  }
+  // New keyframes inherit the easing of the one before them
+  const previous = [...mask.keyframes].reverse().find(k => k.time < localTime);
+  const keyframe: MaskKeyframe = {
+    id: createMaskId(),
+    time: localTime,
+    points,
+    easing: previous?.easing ?? 'linear',
+    ...(previous?.bezier && { bezier: previous.bezier })
+  };
+  return { ...mask, keyframes: [...mask.keyframes, keyframe].sort((a, b) => a.time - b.time) };
+};
+
+/**
+ * Add or remove a path keyframe at `localTime`. Removing the last keyframe
+ * keeps its path as the static one.
+ */
+export const toggleMaskKeyframe = (mask: Mask, localTime: number): Mask => {
+  const existing = findMaskKeyframeAt(mask, localTime);
+  if (!existing) {
+    const keyframe: MaskKeyframe = { id: createMaskId(), time: localTime, points: getMaskPoints(mask, localTime), easing: 'linear' };
+    return { ...mask, keyframes: [...(mask.keyframes || []), keyframe].sort((a, b) => a.time - b.time) };
+  }
+
+  const remaining = mask.keyframes!.filter(k => k.id !== existing.id);
+  if (remaining.length > 0) return { ...mask, keyframes: remaining };
+  return { ...mask, points: existing.points, keyframes: undefined };
+};
+
+/**
+ * Copy of the masks with their keyframes moved by `offset` seconds (used when
+ * a clip is cut and its second half starts later)
+ */
+export const shiftMaskKeyframes = (masks: Mask[] | undefined, offset: number): Mask[] | undefined => {
+  if (!masks) return masks;
+  return masks.map(mask => mask.keyframes
+    ? { ...mask, keyframes: mask.keyframes.map(k => ({ ...k, id: createMaskId(), time: k.time + offset })) }
+    : mask);
+};
+
+/**
+ * Masks of a clip whose start moved by `delta` seconds with its end in place,
+ * with keyframes trimmed off clamped to 0 (see trimKeyframesStart)
+ */
+export const trimMaskKeyframesStart = (masks: Mask[] | undefined, delta: number): Mask[] | undefined => {
+  return shiftMaskKeyframes(masks, -delta)?.map(mask => {
+    const keyframes = mask.keyframes || [];
+    const trimmed = keyframes.filter(k => k.time < 0);
+    if (trimmed.length === 0) return mask;
+    const kept = keyframes.filter(k => k.time >= 0);
+    const start = { ...trimmed[trimmed.length - 1], time: 0, points: getMaskPoints(mask, 0) };
+    return { ...mask, keyframes: kept.some(k => Math.abs(k.time) < KEYFRAME_TIME_EPSILON) ? kept : [start, ...kept] };
+  });
+};
+
+// ==================== PATHS ====================
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * SVG path data of a mask path, in a `width` x `height` box. Also accepted by
+ * Path2D, so the preview and the renderer trace the same curve. Paths are
+ * closed unless `closed` is false (a path still being drawn).
+ */
+export const buildMaskPath = (points: MaskVertex[], width: number, height: number, closed = true): string => {
+  if (points.length === 0) return '';
+  const px = (p: MaskVertex, dx = 0) => round((p.x + dx) * width);
+  const py = (p: MaskVertex, dy = 0) => round((p.y + dy) * height);
+
+  const segments = [`M ${px(points[0])} ${py(points[0])}`];
+  const count = closed ? points.length : points.length - 1;
+  for (let i = 0; i < count; i++) {
+    const from = points[i];
+    const to = points[(i + 1) % points.length];
+    segments.push(`C ${px(from, from.outX)} ${py(from, from.outY)} ${px(to, to.inX)} ${py(to, to.inY)} ${px(to)} ${py(to)}`);
+  }
+  if (closed) segments.push('Z');
+  return segments.join(' ');
+};
+
+// ==================== PREVIEW (CSS MASK) ====================
+
+/**
+ * CSS mask-image for an element's masks at `localTime`, sized to its box in
+ * CSS pixels. The SVG builds the coverage in luminance and hands it over as
+ * alpha, so it works as a plain (alpha) mask image everywhere.
+ */
+export const getMaskImage = (masks: Mask[] | undefined, localTime: number, width: number, height: number): string | undefined => {
+  if (!masks?.length || width <= 0 || height <= 0) return undefined;
+  const w = round(width);
+  const h = round(height);
+  // Feathered edges can spread past the box
+  const region = `x="${-w}" y="${-h}" width="${w * 3}" height="${h * 3}"`;
+
+  const defs: string[] = [];
+  const layers: string[] = [];
+  masks.forEach((mask, i) => {
+    const d = buildMaskPath(getMaskPoints(mask, localTime), w, h);
+    const expansion = mask.expansion ?? 0;
+    const stroke = expansion !== 0
+      ? ` stroke="${expansion > 0 ? 'white' : 'black'}" stroke-width="${Math.abs(expansion) * 2}" stroke-linejoin="round"`
+      : '';
+    defs.push(`<mask id="m${i}" maskUnits="userSpaceOnUse" ${region}><path d="${d}" fill="white"${stroke}/></mask>`);
+    let filter = '';
+    if (mask.feather) {
+      defs.push(`<filter id="f${i}" filterUnits="userSpaceOnUse" ${region}><feGaussianBlur stdDeviation="${mask.feather}"/></filter>`);
+      filter = ` filter="url(#f${i})"`;
+    }
+    layers.push(`<g${filter}><rect ${region} fill="${mask.inverted ? 'black' : 'white'}" mask="url(#m${i})"/></g>`);
+  });
+  const base = masks.some(m => !m.inverted) ? 'black' : 'white';
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}"><defs>${defs.join('')}` +
+    `<mask id="coverage" maskUnits="userSpaceOnUse" x="0" y="0" width="${w}" height="${h}">` +
+    `<rect width="${w}" height="${h}" fill="${base}"/>${layers.join('')}</mask></defs>` +
+    `<rect width="${w}" height="${h}" fill="white" mask="url(#coverage)"/></svg>`;
+  return `url("data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}")`;
+};
+
+// ==================== EXPORT (CANVAS COVERAGE) ====================
+
+let coverageCanvas: HTMLCanvasElement | null = null;
+let shapeCanvas: HTMLCanvasElement | null = null;
+
+const resizeCanvas = (canvas: HTMLCanvasElement, width: number, height: number) => {
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  } else {
+    canvas.getContext('2d')!.clearRect(0, 0, width, height);
+  }
+};
+
+/**
+ * Coverage of an element's masks as an alpha canvas of `width` x `height`
+ * output pixels (the element box), matching getMaskImage. Feather and
+ * expansion are scaled by `pixelScale`. Valid until the next call.
+ */
+export const renderMaskCoverage = (masks: Mask[], localTime: number, width: number, height: number, pixelScale: number): HTMLCanvasElement => {
+  if (!coverageCanvas) coverageCanvas = document.createElement('canvas');
+  if (!shapeCanvas) shapeCanvas = document.createElement('canvas');
+  const w = Math.max(1, Math.ceil(width));
+  const h = Math.max(1, Math.ceil(height));
+  resizeCanvas(coverageCanvas, w, h);
+  const coverage = coverageCanvas.getContext('2d')!;
+  if (!masks.some(m => !m.inverted)) {
+    coverage.fillStyle = 'white';
+    coverage.fillRect(0, 0, w, h);
+  }
+
+  masks.forEach(mask => {
+    const feather = (mask.feather ?? 0) * pixelScale;
+    const expansion = (mask.expansion ?? 0) * pixelScale;
+    // Room around the box so the path can be blurred past its edges
+    const pad = Math.ceil(feather * 3 + Math.abs(expansion));
+    resizeCanvas(shapeCanvas!, w + pad * 2, h + pad * 2);
+    const shape = shapeCanvas!.getContext('2d')!;
+    const path = new Path2D(buildMaskPath(getMaskPoints(mask, localTime), width, height));
+
+    shape.save();
+    shape.translate(pad, pad);
+    shape.fillStyle = 'white';
+    shape.fill(path);
+    if (expansion !== 0) {
+      shape.globalCompositeOperation = expansion > 0 ? 'source-over' : 'destination-out';
+      shape.strokeStyle = 'white';
+      shape.lineWidth = Math.abs(expansion) * 2;
+      shape.lineJoin = 'round';
+      shape.stroke(path);
+    }
+    shape.restore();
+
+    coverage.save();
+    coverage.globalCompositeOperation = mask.inverted ? 'destination-out' : 'source-over';
+    coverage.filter = feather > 0 ? `blur(${feather}px)` : 'none';
+    coverage.drawImage(shapeCanvas!, -pad, -pad);
+    coverage.restore();
+  });
+  return coverageCanvas;
+};
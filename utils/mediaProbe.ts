@@ -0,0 +1,50 @@
+/**
+ * Media Probing
+ *
+ * Reads the length of a video/audio source from its metadata using a
+ * detached media element, so clip trims can be limited to real media.
+ */
+
+import { ElementType } from "../types";
+
+// Give up on sources that never report metadata (unsupported codecs, revoked URLs)
+const PROBE_TIMEOUT_MS = 10000;
+
+/**
+ * Duration in seconds of a media Blob or URL, or null when it cannot be read
+ */
+export const probeMediaDuration = (source: Blob | string, type: ElementType): Promise<number | null> => {
+  return new Promise((resolve) => {
+    const media = document.createElement(type === ElementType.AUDIO ? 'audio' : 'video');
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    let settled = false;
+
+    const finish = (duration: number | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      media.removeAttribute('src');
+      media.load();
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      resolve(duration !== null && isFinite(duration) && duration > 0 ? duration : null);
+    };
+
+    const timeout = setTimeout(() => finish(null), PROBE_TIMEOUT_MS);
+
+    media.preload = 'metadata';
+    media.muted = true;
+    media.onerror = () => finish(null);
+    media.onloadedmetadata = () => {
+      if (isFinite(media.duration)) {
+        finish(media.duration);
+        return;
+      }
+      // MediaRecorder WebM files carry no duration; seeking past the end makes the browser scan for it
+      media.ondurationchange = () => {
+        if (isFinite(media.duration)) finish(media.duration);
+      };
+      media.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+    media.src = url;
+  });
+};
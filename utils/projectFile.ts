@@ -8,8 +8,11 @@
  * Extension: .motionlabs
  */
 
-import { EditorElement, Track, Marker } from "../types";
-import { getAssets, getAssetById, saveAsset, MediaAsset } from "./db";
+import { EditorElement, Track, Marker, ProjectSettings } from "../types";
+import { getAssets, getAssetById, saveAsset, updateAssetStabilization, MediaAsset, getLutAssets, saveLutAsset, LutAsset } from "./db";
+import { StabilizationData } from "./stabilization";
+import { migrateLegacyFilters } from "./effects";
+import { migrateLegacyDucking } from "./sidechain";
 
 // Version for future compatibility
 const PROJECT_FILE_VERSION = 1;
@@ -25,8 +28,11 @@ export interface ProjectFile {
     elements: EditorElement[];
     tracks: Track[];
     markers: Marker[];
+    settings?: ProjectSettings; // Canvas size, frame rate, background (absent in older files)
     // Media assets stored as base64 for portability
     assets: EmbeddedAsset[];
+    // Imported .cube LUTs used by clips (absent in older files)
+    luts?: LutAsset[];
 }
 
 /**
@@ -39,6 +45,7 @@ interface EmbeddedAsset {
     type: string; // ElementType as string
     mimeType: string;
     data: string; // base64 encoded blob
+    stabilization?: StabilizationData; // Analysis of a stabilized video, so it needn't be redone
     createdAt: number;
 }
 
@@ -93,12 +100,14 @@ const base64ToBlob = (dataUrl: string): Blob => {
  * @param elements - Current timeline elements
  * @param tracks - Current tracks configuration
  * @param markers - Timeline markers
+ * @param settings - Project canvas settings
  * @param projectName - Optional name for the project file
  */
 export const saveProjectToFile = async (
     elements: EditorElement[],
     tracks: Track[],
     markers: Marker[],
+    settings: ProjectSettings,
     projectName: string = 'motion-labs-project'
 ): Promise<void> => {
     try {
@@ -123,10 +132,15 @@ export const saveProjectToFile = async (
                 type: asset.type,
                 mimeType: asset.blob.type,
                 data: await blobToBase64(asset.blob),
+                stabilization: asset.stabilization,
                 createdAt: asset.createdAt
             }))
         );
 
+        // Embed the imported LUTs clips use, as plain .cube text
+        const usedLutIds = new Set(elements.map(el => el.props.lutId).filter(Boolean));
+        const usedLuts = (await getLutAssets()).filter(lut => usedLutIds.has(lut.id));
+
         // Clean elements: remove blob URLs (they'll be regenerated on import)
         const cleanElements = elements.map(el => {
             if (el.props.src?.startsWith('blob:')) {
@@ -144,7 +158,9 @@ export const saveProjectToFile = async (
             elements: cleanElements,
             tracks,
             markers,
-            assets: embeddedAssets
+            settings,
+            assets: embeddedAssets,
+            luts: usedLuts
         };
 
         // Convert to JSON string
@@ -182,7 +198,7 @@ export const saveProjectToFile = async (
  * 5. Returns the restored project state
  * 
  * @param file - The .motionlabs file to load
- * @returns The restored project state including elements, tracks, and markers
+ * @returns The restored project state including elements, tracks, markers and settings
  */
 export const loadProjectFromFile = async (
     file: File
@@ -190,6 +206,7 @@ export const loadProjectFromFile = async (
     elements: EditorElement[];
     tracks: Track[];
     markers: Marker[];
+    settings?: ProjectSettings;
 }> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -216,13 +233,33 @@ export const loadProjectFromFile = async (
                     // Save to IndexedDB (will get a new ID)
                     const savedAsset = await saveAsset(blob, embeddedAsset.type as any, embeddedAsset.name);
 
+                    if (embeddedAsset.stabilization) {
+                        await updateAssetStabilization(savedAsset.id, embeddedAsset.stabilization);
+                    }
+
                     // Map old ID to new ID
                     assetIdMap.set(embeddedAsset.id, savedAsset.id);
                 }
 
+                // Import LUTs into the library, mapping old IDs to new ones;
+                // LUTs already in the library (e.g. when reopening a project) are reused
+                const lutIdMap = new Map<string, string>();
+                const libraryLuts = await getLutAssets();
+                for (const lut of projectFile.luts || []) {
+                    const existingLut = libraryLuts.find(l => l.name === lut.name && l.data === lut.data);
+                    const savedLut = existingLut ?? await saveLutAsset(lut.name, lut.data);
+                    if (!existingLut) libraryLuts.push(savedLut);
+                    lutIdMap.set(lut.id, savedLut.id);
+                }
+
                 // Update elements with new asset IDs and generate blob URLs
                 const restoredElements = await Promise.all(
                     projectFile.elements.map(async (el) => {
+                        // Files saved before effect stacks and sidechain ducking use older props
+                        el = migrateLegacyDucking(migrateLegacyFilters(el));
+                        if (el.props.lutId && lutIdMap.has(el.props.lutId)) {
+                            el = { ...el, props: { ...el.props, lutId: lutIdMap.get(el.props.lutId) } };
+                        }
                         if (el.assetId) {
                             const newAssetId = assetIdMap.get(el.assetId);
                             if (newAssetId) {
@@ -248,7 +285,8 @@ export const loadProjectFromFile = async (
                 resolve({
                     elements: restoredElements,
                     tracks: projectFile.tracks,
-                    markers: projectFile.markers || []
+                    markers: projectFile.markers || [],
+                    settings: projectFile.settings
                 });
             } catch (error) {
                 console.error('Failed to parse project file:', error);
@@ -273,6 +311,7 @@ export const openProjectFilePicker = (): Promise<{
     elements: EditorElement[];
     tracks: Track[];
     markers: Marker[];
+    settings?: ProjectSettings;
 } | null> => {
     return new Promise((resolve) => {
         const input = document.createElement('input');
@@ -0,0 +1,726 @@
+/**
+ * Frame Renderer
+ *
+ * Composites every visible element of the timeline onto a 2D canvas for a
+ * single point in time. The export pipeline steps through the timeline frame
+ * by frame with this module, so it must mirror the layout rules of
+ * VideoPreview: percentage based geometry, crops, stabilization, transitions,
+ * chroma keys, LUTs, effects, shadows, masks, track mattes, blend modes and
+ * adjustment layers.
+ *
+ * The preview draws adjustment layers and track mattes with this module too
+ * (through a LiveFrameSource), since the DOM can't grade or matte one layer
+ * with another.
+ */
+
+import { EditorElement, ElementProps, ElementType, Track } from "../types";
+import { getTransitionState } from "./transitions";
+import { getAnimatedElement } from "./keyframes";
+import { getColorGradeFilter } from "./colorGrade";
+import { buildEffectsFilter } from "./effects";
+import { applyElementLut, getElementLut } from "./lut";
+import { applyElementChromaKey, hasChromaKey } from "./chromaKey";
+import { getSourceTime } from "./timeRemap";
+import { getStabilizationTransform } from "./stabilization";
+import { hasMasks, renderMaskCoverage } from "./masks";
+
+/**
+ * Provides drawable visuals for elements that are backed by media or markup
+ */
+export interface FrameSource {
+  /** Video frame or image for a media element at the given timeline time */
+  getMedia(el: EditorElement, time: number): Promise<CanvasImageSource | null>;
+  /** Rasterized AI-generated component, sized to the element box in output pixels */
+  getHtml(el: EditorElement, time: number, width: number, height: number, pixelScale: number): Promise<CanvasImageSource | null>;
+}
+
+export interface RenderOptions {
+  width: number; // output width in pixels
+  height: number; // output height in pixels
+  pixelScale: number; // output pixels per preview CSS pixel (font sizes, borders, shadows...)
+  background?: string;
+}
+
+// ==================== COMPOSITION RULES (shared with preview) ====================
+
+/**
+ * Whether an element is on screen at the given time.
+ * The end is exclusive so a cut never shows both clips on the same frame.
+ */
+export const isElementActive = (el: EditorElement, time: number): boolean => {
+  return time >= el.startTime && time < el.startTime + el.duration;
+};
+
+/**
+ * Visual elements on screen at `time`, ordered back to front.
+ * Sorted by zIndex; ties are broken by track (tracks listed higher in the
+ * timeline draw on top) and finally by insertion order. Keyframed
+ * properties are resolved at `time`.
+ */
+export const getRenderableElements = (elements: EditorElement[], tracks: Track[], time: number): EditorElement[] => {
+  const hiddenTracks = new Set(tracks.filter(t => !t.isVisible).map(t => t.id));
+  return elements
+    .map((el, index) => ({ el, index }))
+    .filter(({ el }) => el.type !== ElementType.AUDIO && !hiddenTracks.has(el.trackId) && isElementActive(el, time))
+    .sort((a, b) =>
+      ((a.el.zIndex ?? 0) - (b.el.zIndex ?? 0)) ||
+      (b.el.trackId - a.el.trackId) ||
+      (a.index - b.index)
+    )
+    .map(({ el }) => getAnimatedElement(el, time));
+};
+
+/**
+ * Filter chain for the element's effect stack, followed by the color wheels
+ * grade. Pixel based parameters are multiplied by `pixelScale`; `localTime`
+ * (seconds into the clip) drives effects that change every frame.
+ */
+export const buildFilterString = (props: ElementProps, pixelScale: number = 1, localTime: number = 0): string => {
+  return [
+    buildEffectsFilter(props.effects, { pixelScale, time: localTime }),
+    getColorGradeFilter(props),
+  ].filter(Boolean).join(' ');
+};
+
+/**
+ * Whether media needs its pixels processed before drawing (chroma key, LUT).
+ * The preview shows such media through a canvas.
+ */
+export const hasPixelEffects = (props: ElementProps): boolean => {
+  return hasChromaKey(props) || !!getElementLut(props);
+};
+
+/**
+ * Run the per-pixel effects of a media frame: the chroma key on the source
+ * colours, then the LUT (skipped while the key's matte is shown). Returns the
+ * processed frame, valid until the next call, or null when there are none.
+ */
+export const processMediaPixels = (props: ElementProps, source: TexImageSource, width: number, height: number): HTMLCanvasElement | null => {
+  const keyed = applyElementChromaKey(props, source, width, height);
+  if (keyed && props.chromaKeyMatte) return keyed;
+  return applyElementLut(props, keyed ?? source, width, height) ?? keyed;
+};
+
+export type CropMode = NonNullable<ElementProps['cropMode']>;
+
+// Rectangle as fractions of the element box
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CropLayout {
+  frame: CropRect; // Visible part of the box (clip, border radius and shadow)
+  content: CropRect; // Where the uncropped, cover-fitted media is drawn
+}
+
+// Crops always leave at least this fraction of the picture
+export const MIN_CROP_REMAINDER = 0.05;
+
+/**
+ * Geometry of cropped media. In 'mask' mode the cropped edges are hidden and
+ * the picture stays put; in 'fill' mode the remaining region is scaled up to
+ * fill the element box.
+ */
+export const getCropLayout = (props: ElementProps, mode: CropMode = props.cropMode ?? 'mask'): CropLayout => {
+  const left = (props.cropLeft ?? 0) / 100;
+  const top = (props.cropTop ?? 0) / 100;
+  const width = Math.max(MIN_CROP_REMAINDER, 1 - left - (props.cropRight ?? 0) / 100);
+  const height = Math.max(MIN_CROP_REMAINDER, 1 - top - (props.cropBottom ?? 0) / 100);
+
+  if (mode === 'fill') {
+    return {
+      frame: { x: 0, y: 0, width: 1, height: 1 },
+      content: { x: -left / width, y: -top / height, width: 1 / width, height: 1 / height }
+    };
+  }
+  return {
+    frame: { x: left, y: top, width, height },
+    content: { x: 0, y: 0, width: 1, height: 1 }
+  };
+};
+
+const toCompositeOperation = (blendMode?: ElementProps['blendMode']): GlobalCompositeOperation => {
+  return !blendMode || blendMode === 'normal' ? 'source-over' : blendMode;
+};
+
+// ==================== DRAWING HELPERS ====================
+
+const roundedRectPath = (w: number, h: number, radius: number): Path2D => {
+  const path = new Path2D();
+  path.roundRect(0, 0, w, h, Math.min(radius, w / 2, h / 2));
+  return path;
+};
+
+/**
+ * Canvas shadows ignore the current transform, so offsets are mapped into
+ * device space by hand to rotate/flip with the element like CSS shadows do.
+ */
+const setShadow = (ctx: CanvasRenderingContext2D, color: string, offsetX: number, offsetY: number, blur: number) => {
+  const m = ctx.getTransform();
+  ctx.shadowColor = color;
+  ctx.shadowOffsetX = m.a * offsetX + m.c * offsetY;
+  ctx.shadowOffsetY = m.b * offsetX + m.d * offsetY;
+  ctx.shadowBlur = blur * Math.sqrt(Math.abs(m.a * m.d - m.b * m.c));
+};
+
+/**
+ * Emulates CSS box-shadow: the shadow of the (rounded) box, painted outside
+ * of the box only.
+ */
+const drawBoxShadow = (ctx: CanvasRenderingContext2D, w: number, h: number, radius: number, props: ElementProps, s: number) => {
+  if (!props.shadowColor) return;
+  const FAR = 100000; // Draw the casting shape off-canvas so only its shadow lands
+  const outside = new Path2D();
+  outside.rect(-FAR, -FAR, FAR * 2, FAR * 2);
+  outside.addPath(roundedRectPath(w, h, radius));
+
+  ctx.save();
+  ctx.clip(outside, 'evenodd');
+  setShadow(ctx, props.shadowColor, (props.shadowX ?? 4) * s + FAR, (props.shadowY ?? 4) * s, (props.shadowBlur ?? 10) * s);
+  ctx.translate(-FAR, 0);
+  ctx.fillStyle = '#000';
+  ctx.fill(roundedRectPath(w, h, radius));
+  ctx.restore();
+};
+
+/**
+ * Intrinsic pixel size of a drawable source
+ */
+const getSourceSize = (source: CanvasImageSource): { width: number; height: number } => {
+  if (source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if (source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  if ('width' in source && 'height' in source) {
+    return { width: Number(source.width), height: Number(source.height) };
+  }
+  return { width: 0, height: 0 };
+};
+
+/**
+ * Draw a source scaled to cover the box (object-fit: cover)
+ */
+const drawCover = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, w: number, h: number) => {
+  const { width: sw, height: sh } = getSourceSize(source);
+  if (!sw || !sh) return;
+
+  const scale = Math.max(w / sw, h / sh);
+  const dw = sw * scale;
+  const dh = sh * scale;
+  ctx.drawImage(source, (w - dw) / 2, (h - dh) / 2, dw, dh);
+};
+
+/**
+ * Break text into lines that fit `maxWidth`, honouring explicit newlines
+ * (white-space: pre-wrap)
+ */
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    const words = paragraph.split(' ');
+    let line = '';
+    words.forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const drawTextContent = (ctx: CanvasRenderingContext2D, el: EditorElement, w: number, h: number, s: number) => {
+  const { props } = el;
+  const radius = (props.borderRadius ?? 0) * s;
+  const borderWidth = (props.borderWidth ?? 0) * s;
+
+  drawBoxShadow(ctx, w, h, radius, props, s);
+
+  ctx.save();
+  ctx.clip(roundedRectPath(w, h, radius));
+
+  if (props.backgroundColor && props.backgroundColor !== 'transparent') {
+    ctx.fillStyle = props.backgroundColor;
+    ctx.fillRect(0, 0, w, h);
+  }
+
+  if (props.text) {
+    const fontSize = (props.fontSize ?? 16) * s;
+    const lineHeight = fontSize * (props.lineHeight || 1.2);
+    const padding = 8 * s + borderWidth; // p-2 inside the border box
+    const align = props.textAlign || 'center';
+
+    ctx.font = `${props.fontWeight || 400} ${fontSize}px ${props.fontFamily || 'Inter, sans-serif'}`;
+    if ('letterSpacing' in ctx) {
+      ctx.letterSpacing = `${(props.letterSpacing ?? 0) * s}px`;
+    }
+    ctx.fillStyle = props.color || 'white';
+    ctx.textAlign = align;
+    ctx.textBaseline = 'middle';
+
+    const lines = wrapText(ctx, props.text, Math.max(0, w - padding * 2));
+    const blockHeight = lines.length * lineHeight;
+    const top = el.type === ElementType.TEXT ? padding : (h - blockHeight) / 2;
+    const x = align === 'left' ? padding : align === 'right' ? w - padding : w / 2;
+
+    if (props.textShadowColor) {
+      setShadow(ctx, props.textShadowColor, (props.textShadowX ?? 2) * s, (props.textShadowY ?? 2) * s, (props.textShadowBlur ?? 0) * s);
+    }
+    lines.forEach((line, i) => {
+      ctx.fillText(line, x, top + lineHeight * i + lineHeight / 2);
+    });
+  }
+  ctx.restore();
+
+  if (borderWidth > 0) {
+    ctx.save();
+    ctx.strokeStyle = props.borderColor || 'black';
+    ctx.lineWidth = borderWidth * 2; // Only the inner half survives the clip (border-box sizing)
+    ctx.clip(roundedRectPath(w, h, radius));
+    ctx.stroke(roundedRectPath(w, h, radius));
+    ctx.restore();
+  }
+};
+
+// Media drawn with effects, at the size of its box: the filters see the same
+// box as on the preview's media element (vignette centre, pixelate grid...)
+let effectScratch: HTMLCanvasElement | null = null;
+
+const drawMediaContent = (ctx: CanvasRenderingContext2D, el: EditorElement, source: CanvasImageSource, time: number, w: number, h: number, s: number) => {
+  const { frame, content } = getCropLayout(el.props);
+  const frameWidth = frame.width * w;
+  const frameHeight = frame.height * h;
+  const radius = (el.props.borderRadius ?? 0) * s;
+
+  ctx.save();
+  ctx.translate(frame.x * w, frame.y * h);
+  drawBoxShadow(ctx, frameWidth, frameHeight, radius, el.props, s);
+  ctx.clip(roundedRectPath(frameWidth, frameHeight, radius));
+  ctx.translate((content.x - frame.x) * w, (content.y - frame.y) * h);
+  const contentWidth = content.width * w;
+  const contentHeight = content.height * h;
+  // Stabilized video: move, rotate and zoom the frame about its centre (same as the preview's CSS transform)
+  const stabilization = el.type === ElementType.VIDEO
+    ? getStabilizationTransform(el, getSourceTime(el, time), contentWidth / contentHeight)
+    : null;
+  if (stabilization) {
+    ctx.translate(contentWidth * (0.5 + stabilization.x), contentHeight * (0.5 + stabilization.y));
+    ctx.rotate((stabilization.rotation * Math.PI) / 180);
+    ctx.scale(stabilization.scale, stabilization.scale);
+    ctx.translate(-contentWidth / 2, -contentHeight / 2);
+  }
+  // Key and LUT work on the source pixels, before the filters (as in the preview)
+  const { width: sw, height: sh } = getSourceSize(source);
+  const processed = processMediaPixels(el.props, source as TexImageSource, sw, sh);
+  const filter = buildFilterString(el.props, s, time - el.startTime);
+  if (filter) {
+    if (!effectScratch) effectScratch = document.createElement('canvas');
+    const width = Math.max(1, Math.round(contentWidth));
+    const height = Math.max(1, Math.round(contentHeight));
+    if (effectScratch.width !== width || effectScratch.height !== height) {
+      effectScratch.width = width;
+      effectScratch.height = height;
+    }
+    const scratch = effectScratch.getContext('2d')!;
+    scratch.clearRect(0, 0, width, height);
+    scratch.filter = filter;
+    drawCover(scratch, processed ?? source, width, height);
+    scratch.filter = 'none';
+    ctx.drawImage(effectScratch, 0, 0, contentWidth, contentHeight);
+  } else {
+    drawCover(ctx, processed ?? source, contentWidth, contentHeight);
+  }
+  ctx.restore();
+};
+
+// Copy of the composite below an adjustment layer
+let adjustmentScratch: HTMLCanvasElement | null = null;
+
+/**
+ * Adjustment layers grade everything composited so far (the layers below
+ * them) inside their box, faded by their opacity like any other layer
+ */
+const drawAdjustment = (ctx: CanvasRenderingContext2D, el: EditorElement, time: number, w: number, h: number, s: number) => {
+  const { width, height } = ctx.canvas;
+  if (!adjustmentScratch) adjustmentScratch = document.createElement('canvas');
+  if (adjustmentScratch.width !== width || adjustmentScratch.height !== height) {
+    adjustmentScratch.width = width;
+    adjustmentScratch.height = height;
+  }
+  const scratch = adjustmentScratch.getContext('2d')!;
+  scratch.clearRect(0, 0, width, height);
+  scratch.drawImage(ctx.canvas, 0, 0);
+  const graded = applyElementLut(el.props, adjustmentScratch, width, height);
+
+  ctx.save();
+  ctx.clip(roundedRectPath(w, h, (el.props.borderRadius ?? 0) * s));
+  // The clip stays in place; the composite is drawn back untransformed
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.filter = buildFilterString(el.props, s, time - el.startTime) || 'none';
+  ctx.drawImage(graded ?? adjustmentScratch, 0, 0);
+  ctx.restore();
+};
+
+// ==================== MASKS & TRACK MATTES ====================
+
+export type TrackMatteMode = NonNullable<ElementProps['trackMatte']>;
+
+/**
+ * Layer used as the track matte of `renderable[index]`: the one drawn right
+ * above it, which is then only used as a matte and not drawn itself
+ */
+export const getTrackMatte = (renderable: EditorElement[], index: number): EditorElement | undefined => {
+  const el = renderable[index];
+  if (!el.props.trackMatte || el.type === ElementType.ADJUSTMENT) return undefined;
+  return renderable[index + 1];
+};
+
+// Full size canvases for painting a layer (and its matte) on its own
+const layerScratch: HTMLCanvasElement[] = [];
+
+const getLayerContext = (index: number, width: number, height: number): CanvasRenderingContext2D => {
+  if (!layerScratch[index]) layerScratch[index] = document.createElement('canvas');
+  const canvas = layerScratch[index];
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  // Luma mattes read their pixels back
+  const ctx = canvas.getContext('2d', { willReadFrequently: index > 0 })!;
+  ctx.clearRect(0, 0, width, height);
+  return ctx;
+};
+
+/**
+ * Keep the part of `layer` the matte lets through. Luma mattes treat the
+ * matte as composited over black; inverted modes keep the opposite.
+ */
+const applyTrackMatte = (layer: CanvasRenderingContext2D, matte: CanvasRenderingContext2D, mode: TrackMatteMode) => {
+  const { width, height } = matte.canvas;
+  if (mode === 'luma' || mode === 'luma-inverted') {
+    const image = matte.getImageData(0, 0, width, height);
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const luma = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) * (data[i + 3] / 255);
+      data[i + 3] = mode === 'luma' ? luma : 255 - luma;
+    }
+    matte.putImageData(image, 0, 0);
+  }
+
+  layer.save();
+  layer.globalCompositeOperation = mode === 'alpha-inverted' ? 'destination-out' : 'destination-in';
+  layer.drawImage(matte.canvas, 0, 0);
+  layer.restore();
+};
+
+// ==================== FRAME RENDERING ====================
+
+/**
+ * Drawable visual of an element: the media frame or rasterized component,
+ * null for elements drawn from their props, false when nothing can be drawn
+ */
+const loadVisual = async (el: EditorElement, time: number, source: FrameSource, options: RenderOptions): Promise<CanvasImageSource | null | false> => {
+  const w = (el.width / 100) * options.width;
+  const h = (el.height / 100) * options.height;
+  if (w <= 0 || h <= 0) return false;
+
+  if (el.type === ElementType.VIDEO || el.type === ElementType.IMAGE) {
+    if (!el.props.src) return false;
+    return (await source.getMedia(el, time)) ?? false;
+  }
+  if (el.type === ElementType.AI_GENERATED && el.props.html) {
+    return source.getHtml(el, time, w, h, options.pixelScale);
+  }
+  return null;
+};
+
+/**
+ * Move the context onto the element's box: same order as the CSS transform in
+ * VideoPreview (rotate, transition, flip, origin: center)
+ */
+const transformToElement = (ctx: CanvasRenderingContext2D, el: EditorElement, time: number, options: RenderOptions) => {
+  const x = (el.x / 100) * options.width;
+  const y = (el.y / 100) * options.height;
+  const w = (el.width / 100) * options.width;
+  const h = (el.height / 100) * options.height;
+  const transition = getTransitionState(el, time);
+
+  ctx.translate(x + w / 2, y + h / 2);
+  ctx.rotate((el.rotation * Math.PI) / 180);
+  ctx.translate((transition.translateX / 100) * w, (transition.translateY / 100) * h);
+  ctx.scale(transition.scale, transition.scale);
+  ctx.scale(el.flipX ? -1 : 1, el.flipY ? -1 : 1);
+  ctx.translate(-w / 2, -h / 2);
+};
+
+/**
+ * Paint an element (visuals already loaded) with its masks applied. Masked
+ * elements must be painted on a layer of their own, since the masks cut into
+ * whatever is already on the context.
+ */
+const paintElement = (
+  ctx: CanvasRenderingContext2D,
+  el: EditorElement,
+  visual: CanvasImageSource | null,
+  time: number,
+  options: RenderOptions,
+  compositeOperation: GlobalCompositeOperation
+) => {
+  const { pixelScale } = options;
+  const w = (el.width / 100) * options.width;
+  const h = (el.height / 100) * options.height;
+
+  ctx.save();
+  ctx.globalAlpha = getTransitionState(el, time).opacity * (el.props.opacity ?? 1);
+  ctx.globalCompositeOperation = compositeOperation;
+  transformToElement(ctx, el, time, options);
+
+  switch (el.type) {
+    case ElementType.VIDEO:
+    case ElementType.IMAGE:
+      drawMediaContent(ctx, el, visual!, time, w, h, pixelScale);
+      break;
+    case ElementType.TEXT:
+    case ElementType.SHAPE:
+      drawTextContent(ctx, el, w, h, pixelScale);
+      break;
+    case ElementType.AI_GENERATED:
+      if (visual) ctx.drawImage(visual, 0, 0, w, h);
+      break;
+    case ElementType.ADJUSTMENT:
+      drawAdjustment(ctx, el, time, w, h, pixelScale);
+      break;
+  }
+
+  ctx.restore();
+
+  if (hasMasks(el)) {
+    ctx.save();
+    transformToElement(ctx, el, time, options);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(renderMaskCoverage(el.masks!, time - el.startTime, w, h, pixelScale), 0, 0, w, h);
+    ctx.restore();
+  }
+};
+
+const drawElement = async (
+  ctx: CanvasRenderingContext2D,
+  el: EditorElement,
+  time: number,
+  source: FrameSource,
+  options: RenderOptions,
+  matte?: EditorElement
+) => {
+  // Resolve async visuals before painting, so the shared scratch canvases are only used synchronously
+  const visual = await loadVisual(el, time, source, options);
+  if (visual === false) return;
+  const matteVisual = matte ? await loadVisual(matte, time, source, options) : false;
+
+  // Adjustment layers grade the context itself, so they can't go on a layer of their own
+  if (el.type === ElementType.ADJUSTMENT || (!hasMasks(el) && !matte)) {
+    paintElement(ctx, el, visual, time, options, toCompositeOperation(el.props.blendMode));
+    return;
+  }
+
+  const width = ctx.canvas.width;
+  const height = ctx.canvas.height;
+  const layer = getLayerContext(0, width, height);
+  paintElement(layer, el, visual, time, options, 'source-over');
+  if (matte) {
+    const matteLayer = getLayerContext(1, width, height);
+    if (matteVisual !== false) paintElement(matteLayer, matte, matteVisual, time, options, 'source-over');
+    applyTrackMatte(layer, matteLayer, el.props.trackMatte!);
+  }
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = toCompositeOperation(el.props.blendMode);
+  ctx.drawImage(layer.canvas, 0, 0);
+  ctx.restore();
+};
+
+/**
+ * Render the composition at `time` onto the given context
+ */
+export const renderFrame = async (
+  ctx: CanvasRenderingContext2D,
+  elements: EditorElement[],
+  tracks: Track[],
+  time: number,
+  source: FrameSource,
+  options: RenderOptions
+): Promise<void> => {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, options.width, options.height);
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, options.width, options.height);
+  }
+  ctx.restore();
+
+  const renderable = getRenderableElements(elements, tracks, time);
+  for (let i = 0; i < renderable.length; i++) {
+    const matte = getTrackMatte(renderable, i);
+    await drawElement(ctx, renderable[i], time, source, options, matte);
+    if (matte) i++; // The matte layer isn't drawn on its own
+  }
+};
+
+// ==================== OFFLINE FRAME SOURCE ====================
+
+const SEEK_TIMEOUT_MS = 3000;
+
+const waitForEvent = (target: EventTarget, event: string, timeoutMs: number): Promise<boolean> => {
+  return new Promise((resolve) => {
+    const done = (ok: boolean) => {
+      clearTimeout(timer);
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+      resolve(ok);
+    };
+    const onEvent = () => done(true);
+    const onError = () => done(false);
+    const timer = setTimeout(() => done(false), timeoutMs);
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+};
+
+/**
+ * Serialize an AI component into an SVG foreignObject image.
+ * CSS animations are paused at the element's local time so every frame is
+ * deterministic.
+ */
+const rasterizeHtml = async (el: EditorElement, time: number, width: number, height: number, pixelScale: number): Promise<HTMLImageElement | null> => {
+  const localTime = Math.max(0, time - el.startTime);
+  const scopedCss = (el.props.customCss || '').replace(/\.root/g, `.gen-${el.id}`);
+
+  // Round-trip through the HTML parser to get well-formed XHTML
+  const doc = document.implementation.createHTMLDocument('');
+  doc.body.innerHTML = el.props.html || '';
+  const markup = Array.from(doc.body.childNodes).map(node => new XMLSerializer().serializeToString(node)).join('');
+
+  const cssWidth = width / pixelScale;
+  const cssHeight = height / pixelScale;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<foreignObject width="100%" height="100%">` +
+    `<div xmlns="http://www.w3.org/1999/xhtml" class="gen-${el.id}" style="position:relative;width:${cssWidth}px;height:${cssHeight}px;transform:scale(${pixelScale});transform-origin:0 0;">` +
+    `<style>${scopedCss} *, *::before, *::after { animation-play-state: paused !important; animation-delay: -${localTime}s !important; }</style>` +
+    `<div style="width:100%;height:100%">${markup}</div>` +
+    `</div></foreignObject></svg>`;
+
+  const img = new Image();
+  img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  try {
+    await img.decode();
+    return img;
+  } catch (e) {
+    console.warn(`Failed to rasterize AI component ${el.id}:`, e);
+    return null;
+  }
+};
+
+/**
+ * Frame source backed by detached media elements.
+ * Each clip gets its own <video> so overlapping clips of the same file can be
+ * seeked independently; every request waits for the exact frame.
+ */
+export class MediaFrameSource implements FrameSource {
+  private videos = new Map<string, HTMLVideoElement>();
+  private images = new Map<string, Promise<HTMLImageElement | null>>();
+
+  async getMedia(el: EditorElement, time: number): Promise<CanvasImageSource | null> {
+    if (!el.props.src) return null;
+
+    if (el.type === ElementType.IMAGE) {
+      if (!this.images.has(el.props.src)) {
+        const img = new Image();
+        img.src = el.props.src;
+        this.images.set(el.props.src, img.decode().then(() => img, () => null));
+      }
+      return this.images.get(el.props.src)!;
+    }
+
+    const video = await this.getVideo(el);
+    if (!video) return null;
+
+    const mediaTime = getSourceTime(el, time);
+    const target = Math.max(0, Math.min(mediaTime, (video.duration || mediaTime) - 0.001));
+    if (Math.abs(video.currentTime - target) > 0.0005 || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      video.currentTime = target;
+      await waitForEvent(video, 'seeked', SEEK_TIMEOUT_MS);
+    }
+    return video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA ? video : null;
+  }
+
+  async getHtml(el: EditorElement, time: number, width: number, height: number, pixelScale: number): Promise<CanvasImageSource | null> {
+    return rasterizeHtml(el, time, width, height, pixelScale);
+  }
+
+  private async getVideo(el: EditorElement): Promise<HTMLVideoElement | null> {
+    const existing = this.videos.get(el.id);
+    if (existing) return existing;
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.src = el.props.src!;
+    this.videos.set(el.id, video);
+
+    const loaded = await waitForEvent(video, 'loadeddata', SEEK_TIMEOUT_MS * 3);
+    if (!loaded) {
+      console.warn(`Failed to load video for ${el.name}`);
+    }
+    return video;
+  }
+
+  dispose(): void {
+    this.videos.forEach(video => {
+      video.removeAttribute('src');
+      video.load();
+    });
+    this.videos.clear();
+    this.images.clear();
+  }
+}
+
+// ==================== LIVE FRAME SOURCE ====================
+
+/**
+ * Frame source backed by the preview's own media elements, which playback
+ * sync already keeps on the right frame
+ */
+export class LiveFrameSource implements FrameSource {
+  private images = new Map<string, Promise<HTMLImageElement | null>>();
+
+  async getMedia(el: EditorElement): Promise<CanvasImageSource | null> {
+    if (!el.props.src) return null;
+
+    if (el.type === ElementType.IMAGE) {
+      if (!this.images.has(el.props.src)) {
+        const img = new Image();
+        img.src = el.props.src;
+        this.images.set(el.props.src, img.decode().then(() => img, () => null));
+      }
+      return this.images.get(el.props.src)!;
+    }
+
+    const video = document.querySelector<HTMLVideoElement>(`video[data-element-id="${el.id}"]`);
+    return video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA ? video : null;
+  }
+
+  async getHtml(el: EditorElement, time: number, width: number, height: number, pixelScale: number): Promise<CanvasImageSource | null> {
+    return rasterizeHtml(el, time, width, height, pixelScale);
+  }
+}
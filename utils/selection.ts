@@ -0,0 +1,123 @@
+/**
+ * Clip Selection
+ *
+ * The selection is an ordered list of element ids. The last id is the primary
+ * element: the one shown in the properties panel and keyframe editor and the
+ * one that gets resize handles in the preview.
+ */
+
+import { EditorElement, ElementProps } from "../types";
+
+// ==================== SELECTION STATE ====================
+
+// How clicked / boxed clips combine with the current selection
+export type SelectionMode = 'replace' | 'add' | 'toggle';
+
+// Clips starting this close before the playhead still count as after it
+const SELECTION_EPSILON = 1e-6;
+
+/**
+ * Selection mode for a click: Ctrl/Cmd toggles, Shift adds
+ */
+export const getSelectionMode = (e: { shiftKey: boolean; ctrlKey: boolean; metaKey: boolean }): SelectionMode => {
+  if (e.ctrlKey || e.metaKey) return 'toggle';
+  return e.shiftKey ? 'add' : 'replace';
+};
+
+export const updateSelection = (current: string[], ids: string[], mode: SelectionMode): string[] => {
+  if (mode === 'replace') return [...ids];
+  if (mode === 'add') return [...current.filter(id => !ids.includes(id)), ...ids];
+  return [
+    ...current.filter(id => !ids.includes(id)),
+    ...ids.filter(id => !current.includes(id))
+  ];
+};
+
+export const getPrimarySelection = (ids: string[]): string | null => {
+  return ids.length > 0 ? ids[ids.length - 1] : null;
+};
+
+// ==================== QUERIES ====================
+
+/**
+ * Every clip on a track, in timeline order
+ */
+export const getTrackElementIds = (elements: EditorElement[], trackId: number): string[] => {
+  return elements
+    .filter(el => el.trackId === trackId)
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(el => el.id);
+};
+
+/**
+ * Clips starting at or after `time`, optionally limited to some tracks
+ */
+export const getElementIdsFromTime = (elements: EditorElement[], time: number, trackIds?: number[]): string[] => {
+  return elements
+    .filter(el => el.startTime >= time - SELECTION_EPSILON && (!trackIds || trackIds.includes(el.trackId)))
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(el => el.id);
+};
+
+/**
+ * Clips on `trackIds` overlapping the time range (marquee selection)
+ */
+export const getElementIdsInRange = (elements: EditorElement[], startTime: number, endTime: number, trackIds: number[]): string[] => {
+  return elements
+    .filter(el => trackIds.includes(el.trackId) && el.startTime < endTime && el.startTime + el.duration > startTime)
+    .map(el => el.id);
+};
+
+// ==================== GROUP EDITS ====================
+
+// Element fields the properties panel shows, besides props
+const COMPARED_FIELDS: (keyof EditorElement)[] = ['name', 'x', 'y', 'width', 'height', 'rotation', 'zIndex', 'clipColor'];
+
+/**
+ * Fields that differ between the selected clips, as `x` or `props.opacity`
+ */
+export const getMixedFields = (elements: EditorElement[]): Set<string> => {
+  const mixed = new Set<string>();
+  if (elements.length < 2) return mixed;
+
+  const [first, ...rest] = elements;
+  COMPARED_FIELDS.forEach(field => {
+    if (rest.some(el => el[field] !== first[field])) mixed.add(field);
+  });
+
+  const propKeys = new Set(elements.flatMap(el => Object.keys(el.props)));
+  propKeys.forEach(key => {
+    const value = first.props[key as keyof ElementProps];
+    if (rest.some(el => el.props[key as keyof ElementProps] !== value)) mixed.add(`props.${key}`);
+  });
+  return mixed;
+};
+
+// Element fields copied onto the rest of the selection besides props; others
+// (name, timing, keyframes, ...) belong to the clip they were edited on
+const SHARED_FIELDS = ['x', 'y', 'width', 'height', 'rotation', 'flipX', 'flipY'] as const;
+
+const setProp = <K extends keyof ElementProps>(props: ElementProps, key: K, value: ElementProps[K]) => {
+  props[key] = value;
+};
+
+/**
+ * The part of an edit to `source` that actually changes something and can be
+ * copied onto the rest of the selection: transform fields and props. `props`
+ * holds only changed keys and must be merged into each clip's own props. The
+ * effect stack is never copied, as its effect ids belong to the source clip.
+ */
+export const getChangedFields = (source: EditorElement, updates: Partial<EditorElement>): Partial<EditorElement> => {
+  const changes: Partial<EditorElement> = {};
+  SHARED_FIELDS.forEach(field => {
+    if (field in updates) Object.assign(changes, { [field]: updates[field] });
+  });
+
+  const { props } = updates;
+  if (!props) return changes;
+  const changedProps: ElementProps = {};
+  (Object.keys(props) as (keyof ElementProps)[]).forEach(key => {
+    if (key !== 'effects' && props[key] !== source.props[key]) setProp(changedProps, key, props[key]);
+  });
+  return { ...changes, props: changedProps };
+};
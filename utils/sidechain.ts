@@ -0,0 +1,283 @@
+/**
+ * Sidechain Ducking
+ *
+ * Clips with `ducking` enabled are keys (typically a voiceover). While a
+ * key's signal is above its threshold, every other clip is lowered by the
+ * key's depth, easing down over its attack and back up over its release.
+ * A key is heard through its track, so its level follows the track's fader,
+ * mute and solo: keys on silenced tracks don't duck.
+ *
+ * Key levels come from an RMS analysis of the source media, made once per
+ * source and looked up by source time, so they follow trims, speed and
+ * reverse. The ducking gain is computed on a fixed timeline grid and shared
+ * by the preview, the export mixdown and baking, which turns it into volume
+ * keyframes on the ducked clips.
+ */
+
+import { EditorElement, ElementType, Keyframe, Track } from "../types";
+import { getTrackGain } from "./audioEngine";
+import { interpolateKeyframes } from "./keyframes";
+import { getSourceTime } from "./timeRemap";
+
+// ==================== SETTINGS ====================
+
+export const DEFAULT_DUCKING_THRESHOLD = -30; // dBFS
+export const DEFAULT_DUCKING_DEPTH = 14; // dB, about 20% volume
+export const DEFAULT_DUCKING_ATTACK = 0.05; // seconds
+export const DEFAULT_DUCKING_RELEASE = 0.4; // seconds
+export const MAX_DUCKING_DEPTH = 40;
+
+// Level windows per second of source, and envelope points per timeline second
+const LEVEL_RATE = 100;
+// Release time constants after the last key before the envelope is cut off
+const RELEASE_TAIL = 5;
+// Largest gain error allowed when baked keyframes skip envelope points
+const BAKE_TOLERANCE = 0.01;
+
+const isKey = (el: EditorElement): boolean => {
+  return !!el.props.ducking &&
+    (el.type === ElementType.VIDEO || el.type === ElementType.AUDIO) &&
+    !!el.props.src &&
+    !el.props.isMuted &&
+    !el.props.isFreezeFrame;
+};
+
+/**
+ * Whether a clip is lowered by the keys (keys never duck each other)
+ */
+const isDuckable = (el: EditorElement): boolean => {
+  return (el.type === ElementType.VIDEO || el.type === ElementType.AUDIO) && !el.props.ducking;
+};
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// ==================== LEVEL ANALYSIS ====================
+
+// RMS level of every LEVEL_RATE window of a source, null when it has no audio
+const levels = new Map<string, Float32Array | null>();
+const pendingLevels = new Map<string, Promise<void>>();
+// Bumped whenever levels arrive, so envelopes built without them are rebuilt
+let levelsVersion = 0;
+
+const analyzeLevels = async (src: string): Promise<Float32Array | null> => {
+  try {
+    const data = await (await fetch(src)).arrayBuffer();
+    const buffer = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(data);
+    const windowSize = Math.max(1, Math.round(buffer.sampleRate / LEVEL_RATE));
+    const result = new Float32Array(Math.ceil(buffer.length / windowSize));
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    for (let w = 0; w < result.length; w++) {
+      const start = w * windowSize;
+      const end = Math.min(buffer.length, start + windowSize);
+      let sum = 0;
+      channels.forEach(samples => {
+        for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+      });
+      result[w] = Math.sqrt(sum / ((end - start) * channels.length));
+    }
+    return result;
+  } catch {
+    return null; // e.g. video without an audio track
+  }
+};
+
+/**
+ * Analyse the sources of every key that hasn't been analysed yet
+ */
+export const loadSidechainLevels = (elements: EditorElement[]): Promise<void> => {
+  const sources = new Set(elements.filter(isKey).map(el => el.props.src!));
+  return Promise.all([...sources].map(src => {
+    if (levels.has(src)) return;
+    if (!pendingLevels.has(src)) {
+      pendingLevels.set(src, analyzeLevels(src).then(result => {
+        levels.set(src, result);
+        pendingLevels.delete(src);
+        levelsVersion++;
+      }));
+    }
+    return pendingLevels.get(src);
+  })).then(() => undefined);
+};
+
+export const getSidechainVersion = (): number => levelsVersion;
+
+const getKeyTrackGain = (key: EditorElement, tracks: Track[]): number => {
+  const track = tracks.find(t => t.id === key.trackId);
+  return track ? getTrackGain(track, tracks) : 1;
+};
+
+/**
+ * Level of a key's signal at timeline `time`, after its volume (not its track gain)
+ */
+const getKeyLevel = (key: EditorElement, time: number): number => {
+  if (time < key.startTime || time >= key.startTime + key.duration) return 0;
+  const sourceLevels = levels.get(key.props.src!);
+  if (!sourceLevels) return 0;
+  const index = Math.floor(getSourceTime(key, time) * LEVEL_RATE);
+  const volume = interpolateKeyframes(key.keyframes?.volume || [], time - key.startTime) ?? key.props.volume ?? 1;
+  return (sourceLevels[index] ?? 0) * volume;
+};
+
+// ==================== ENVELOPE ====================
+
+interface DuckingEnvelope {
+  start: number; // Timeline time of the first point
+  gains: Float32Array; // Gain of the ducked clips, one point per 1 / LEVEL_RATE seconds
+}
+
+/**
+ * Ducking gain of a set of keys over the timeline. Each key is a gate with
+ * attack/release smoothing on its reduction (in dB); where keys overlap the
+ * deepest reduction wins.
+ */
+const buildEnvelope = (candidates: EditorElement[], tracks: Track[]): DuckingEnvelope | null => {
+  const keys = candidates.filter(key => getKeyTrackGain(key, tracks) > 0);
+  if (keys.length === 0) return null;
+  const start = Math.min(...keys.map(k => k.startTime));
+  const end = Math.max(...keys.map(k => k.startTime + k.duration + RELEASE_TAIL * (k.props.duckingRelease ?? DEFAULT_DUCKING_RELEASE)));
+  const length = Math.ceil((end - start) * LEVEL_RATE) + 1;
+  const reduction = new Float32Array(length);
+  const step = 1 / LEVEL_RATE;
+
+  keys.forEach(key => {
+    const trackGain = getKeyTrackGain(key, tracks);
+    const threshold = dbToGain(key.props.duckingThreshold ?? DEFAULT_DUCKING_THRESHOLD);
+    const depth = key.props.duckingDepth ?? DEFAULT_DUCKING_DEPTH;
+    const attack = 1 - Math.exp(-step / Math.max(step, key.props.duckingAttack ?? DEFAULT_DUCKING_ATTACK));
+    const release = 1 - Math.exp(-step / Math.max(step, key.props.duckingRelease ?? DEFAULT_DUCKING_RELEASE));
+    let current = 0;
+    for (let i = 0; i < length; i++) {
+      const target = getKeyLevel(key, start + i * step) * trackGain > threshold ? depth : 0;
+      current += (target - current) * (target > current ? attack : release);
+      if (current > reduction[i]) reduction[i] = current;
+    }
+  });
+
+  return { start, gains: reduction.map(db => db > 1e-3 ? dbToGain(-db) : 1) };
+};
+
+// Envelope of every timeline, rebuilt when levels have arrived or the tracks changed since
+const envelopes = new WeakMap<EditorElement[], { version: number; tracks: Track[]; envelope: DuckingEnvelope | null }>();
+
+const getEnvelope = (elements: EditorElement[], tracks: Track[]): DuckingEnvelope | null => {
+  const cached = envelopes.get(elements);
+  if (cached && cached.version === levelsVersion && cached.tracks === tracks) return cached.envelope;
+  const envelope = buildEnvelope(elements.filter(isKey), tracks);
+  envelopes.set(elements, { version: levelsVersion, tracks, envelope });
+  return envelope;
+};
+
+const sampleEnvelope = (envelope: DuckingEnvelope | null, time: number): number => {
+  if (!envelope) return 1;
+  const position = (time - envelope.start) * LEVEL_RATE;
+  if (position <= 0 || position >= envelope.gains.length - 1) return 1;
+  const i = Math.floor(position);
+  return envelope.gains[i] + (envelope.gains[i + 1] - envelope.gains[i]) * (position - i);
+};
+
+/**
+ * Volume multiplier applied to `element` at `time` by the keys of the timeline
+ */
+export const getDuckingFactor = (element: EditorElement, elements: EditorElement[], tracks: Track[], time: number): number => {
+  if (!isDuckable(element)) return 1;
+  return sampleEnvelope(getEnvelope(elements, tracks), time);
+};
+
+/**
+ * Times between `from` and `to` where the ducking gain changes slope; the
+ * gain is linear between them
+ */
+export const getDuckingBreakpoints = (elements: EditorElement[], tracks: Track[], from: number, to: number): number[] => {
+  const envelope = getEnvelope(elements, tracks);
+  if (!envelope) return [];
+  const { start, gains } = envelope;
+  const first = Math.max(0, Math.floor((from - start) * LEVEL_RATE));
+  const last = Math.min(gains.length - 1, Math.ceil((to - start) * LEVEL_RATE));
+  const times: number[] = [];
+  for (let i = first; i <= last; i++) {
+    const previous = gains[i - 1] ?? 1;
+    const next = gains[i + 1] ?? 1;
+    // Skip points in the middle of a straight run
+    if (Math.abs(gains[i] - previous - (next - gains[i])) > 1e-6) times.push(start + i / LEVEL_RATE);
+  }
+  return times;
+};
+
+// ==================== BAKING ====================
+
+/**
+ * Indices of the envelope points to keep so that straight lines between them
+ * stay within BAKE_TOLERANCE of the envelope
+ */
+const simplifyEnvelope = (gains: Float32Array, first: number, last: number): number[] => {
+  const kept = [first];
+  let anchor = first;
+  for (let end = first + 2; end <= last; end++) {
+    for (let i = anchor + 1; i < end; i++) {
+      const expected = gains[anchor] + (gains[end] - gains[anchor]) * (i - anchor) / (end - anchor);
+      if (Math.abs(gains[i] - expected) > BAKE_TOLERANCE) {
+        anchor = end - 1;
+        kept.push(anchor);
+        break;
+      }
+    }
+  }
+  if (kept[kept.length - 1] !== last) kept.push(last);
+  return kept;
+};
+
+/**
+ * Elements with the ducking of key `keyId` written into volume keyframes on
+ * the clips it ducks, and ducking turned off on the key. Existing volume
+ * keyframes are kept as part of the baked curve. Analyse the key first
+ * (loadSidechainLevels).
+ */
+export const bakeDucking = (elements: EditorElement[], tracks: Track[], keyId: string): EditorElement[] => {
+  const key = elements.find(el => el.id === keyId);
+  if (!key) return elements;
+  const envelope = isKey(key) ? buildEnvelope([key], tracks) : null;
+
+  return elements.map(el => {
+    if (el.id === keyId) return { ...el, props: { ...el.props, ducking: false } };
+    if (!envelope || !isDuckable(el)) return el;
+
+    const end = el.startTime + el.duration;
+    const first = Math.max(0, Math.floor((el.startTime - envelope.start) * LEVEL_RATE));
+    const last = Math.min(envelope.gains.length - 1, Math.ceil((end - envelope.start) * LEVEL_RATE));
+    if (first > last) return el;
+    let ducked = false;
+    for (let i = first; i <= last && !ducked; i++) ducked = envelope.gains[i] < 1;
+    if (!ducked) return el;
+
+    const track = el.keyframes?.volume || [];
+    const times = new Set<number>([0, el.duration, ...track.map(k => k.time)]);
+    simplifyEnvelope(envelope.gains, first, last).forEach(i => {
+      const localTime = envelope.start + i / LEVEL_RATE - el.startTime;
+      if (localTime > 0 && localTime < el.duration) times.add(localTime);
+    });
+
+    // Existing keyframes keep their easing; the ones added follow the envelope linearly
+    const keyframes: Keyframe[] = [...times].sort((a, b) => a - b).map(localTime => {
+      const value = (interpolateKeyframes(track, localTime) ?? el.props.volume ?? 1) * sampleEnvelope(envelope, el.startTime + localTime);
+      const existing = track.find(k => k.time === localTime);
+      return existing
+        ? { ...existing, value }
+        : { id: Math.random().toString(36).substr(2, 9), time: localTime, value, easing: 'linear' };
+    });
+    return { ...el, keyframes: { ...el.keyframes, volume: keyframes } };
+  });
+};
+
+// ==================== MIGRATION ====================
+
+/**
+ * Projects saved before sidechain ducking stored the volume ducked clips
+ * dropped to (0-1) in `duckingThreshold`; keep it as the depth
+ */
+export const migrateLegacyDucking = (el: EditorElement): EditorElement => {
+  const level = el.props.duckingThreshold;
+  if (level === undefined || level <= 0) return el;
+  const { duckingThreshold: _legacy, ...props } = el.props;
+  const depth = Math.min(MAX_DUCKING_DEPTH, Math.round(-20 * Math.log10(level)));
+  return { ...el, props: { ...props, duckingDepth: props.duckingDepth ?? depth } };
+};
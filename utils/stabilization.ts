@@ -0,0 +1,185 @@
+/**
+ * Video Stabilization
+ *
+ * Stabilizing a clip is a two step process. An analysis pass decodes the
+ * source video, has a worker (stabilization.worker.ts) estimate the camera
+ * shake and stores per-frame corrections on the media asset. Playback then
+ * moves, rotates and zooms every frame by its correction, in the preview and
+ * the export renderer alike.
+ *
+ * Corrections are looked up by source time, so they stay valid however the
+ * clip is trimmed, retimed or reversed.
+ */
+
+import { EditorElement } from "../types";
+
+// ==================== TYPES ====================
+
+export interface StabilizationCorrection {
+  x: number; // Shift as a fraction of the source width
+  y: number; // Shift as a fraction of the source height
+  rotation: number; // Radians, clockwise
+}
+
+export interface StabilizationData {
+  sampleRate: number; // Analysed frames per second of source
+  aspect: number; // Source width / height
+  zoom: number; // Scale that hides the borders the corrections uncover
+  corrections: StabilizationCorrection[]; // One per analysed frame, from the start of the source
+}
+
+// Transform for a frame, relative to the box the media is drawn in
+export interface StabilizationTransform {
+  x: number; // Fraction of the box width
+  y: number; // Fraction of the box height
+  rotation: number; // Degrees
+  scale: number;
+}
+
+export type StabilizerRequest =
+  | { type: 'start'; width: number; height: number; sampleRate: number }
+  | { type: 'frame'; data: Uint8Array }
+  | { type: 'finish' };
+
+export type StabilizerResponse =
+  | { type: 'progress'; processed: number }
+  | { type: 'done'; data: StabilizationData }
+  | { type: 'error'; message: string };
+
+// ==================== LIBRARY ====================
+
+// Analysis results of the media assets, by asset id
+const stabilizations = new Map<string, StabilizationData>();
+
+export const registerStabilization = (assetId: string, data: StabilizationData) => {
+  stabilizations.set(assetId, data);
+};
+
+export const getStabilization = (assetId: string | undefined): StabilizationData | undefined => {
+  return assetId ? stabilizations.get(assetId) : undefined;
+};
+
+// ==================== PLAYBACK ====================
+
+/**
+ * Correction for the frame at `sourceTime` of a stabilized clip, or null when
+ * the clip isn't stabilized (or not analysed yet). `boxAspect` is the
+ * width / height of the box the media is cover-fitted into.
+ */
+export const getStabilizationTransform = (el: EditorElement, sourceTime: number, boxAspect: number): StabilizationTransform | null => {
+  if (!el.props.isStabilized) return null;
+  const data = getStabilization(el.assetId);
+  if (!data || data.corrections.length === 0) return null;
+
+  const position = Math.min(Math.max(0, sourceTime * data.sampleRate), data.corrections.length - 1);
+  const index = Math.floor(position);
+  const from = data.corrections[index];
+  const to = data.corrections[Math.min(index + 1, data.corrections.length - 1)];
+  const t = position - index;
+
+  // Cover fitting crops the source on one axis, which magnifies shifts on that axis
+  const x = from.x + (to.x - from.x) * t;
+  const y = from.y + (to.y - from.y) * t;
+  return {
+    x: data.aspect > boxAspect ? x * (data.aspect / boxAspect) : x,
+    y: data.aspect < boxAspect ? y * (boxAspect / data.aspect) : y,
+    rotation: ((from.rotation + (to.rotation - from.rotation) * t) * 180) / Math.PI,
+    scale: data.zoom
+  };
+};
+
+export const stabilizationToCss = (transform: StabilizationTransform): string => {
+  return `translate(${transform.x * 100}%, ${transform.y * 100}%) rotate(${transform.rotation}deg) scale(${transform.scale})`;
+};
+
+// ==================== ANALYSIS ====================
+
+const ANALYSIS_SAMPLE_RATE = 30; // Frames per second of source analysed
+const ANALYSIS_WIDTH = 320; // Frames are downscaled to this width for block matching
+const SEEK_TIMEOUT_MS = 3000;
+
+const createAbortError = () => new DOMException('Stabilization cancelled', 'AbortError');
+
+const waitForMediaEvent = (video: HTMLVideoElement, event: string): Promise<boolean> => {
+  return new Promise((resolve) => {
+    const done = (ok: boolean) => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+      resolve(ok);
+    };
+    const onEvent = () => done(true);
+    const onError = () => done(false);
+    const timer = setTimeout(() => done(false), SEEK_TIMEOUT_MS);
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+};
+
+/**
+ * Analyse the camera shake of a video source. Frames are decoded here (media
+ * elements only exist on the main thread) and matched in a worker, so the
+ * editor stays responsive. `onProgress` gets 0-1.
+ */
+export const analyzeStabilization = async (
+  src: string,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<StabilizationData> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = src;
+  const worker = new Worker(new URL('./stabilization.worker.ts', import.meta.url), { type: 'module' });
+  const send = (message: StabilizerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  try {
+    if (!await waitForMediaEvent(video, 'loadeddata') || !video.videoWidth) {
+      throw new Error('The video could not be decoded');
+    }
+
+    const width = ANALYSIS_WIDTH;
+    const height = Math.max(1, Math.round((ANALYSIS_WIDTH * video.videoHeight) / video.videoWidth));
+    const totalFrames = Math.max(1, Math.floor(video.duration * ANALYSIS_SAMPLE_RATE));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+    const result = new Promise<StabilizationData>((resolve, reject) => {
+      worker.onmessage = (e: MessageEvent<StabilizerResponse>) => {
+        const message = e.data;
+        if (message.type === 'progress') onProgress?.(message.processed / totalFrames);
+        else if (message.type === 'done') resolve(message.data);
+        else reject(new Error(message.message));
+      };
+      worker.onerror = (e) => reject(new Error(e.message || 'Stabilization worker failed'));
+    });
+    // Settled below when the frames are sent; keep an early worker error from going unhandled
+    result.catch(() => { });
+
+    send({ type: 'start', width, height, sampleRate: ANALYSIS_SAMPLE_RATE });
+    for (let i = 0; i < totalFrames; i++) {
+      if (signal?.aborted) throw createAbortError();
+      video.currentTime = Math.min(i / ANALYSIS_SAMPLE_RATE, Math.max(0, video.duration - 0.001));
+      await waitForMediaEvent(video, 'seeked');
+
+      ctx.drawImage(video, 0, 0, width, height);
+      const pixels = ctx.getImageData(0, 0, width, height).data;
+      const gray = new Uint8Array(width * height);
+      for (let p = 0; p < gray.length; p++) {
+        gray[p] = (pixels[p * 4] * 77 + pixels[p * 4 + 1] * 150 + pixels[p * 4 + 2] * 29) >> 8;
+      }
+      send({ type: 'frame', data: gray }, [gray.buffer]);
+    }
+    send({ type: 'finish' });
+
+    const abort = new Promise<never>((_, reject) => signal?.addEventListener('abort', () => reject(createAbortError())));
+    return await Promise.race([result, abort]);
+  } finally {
+    worker.terminate();
+    video.removeAttribute('src');
+    video.load();
+  }
+};
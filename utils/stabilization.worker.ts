@@ -0,0 +1,253 @@
+/**
+ * Stabilization Worker
+ *
+ * Motion analysis for video stabilization, off the main thread. The editor
+ * decodes the clip and posts downscaled grayscale frames; the worker estimates
+ * the global motion between consecutive frames by block matching, smooths the
+ * resulting camera path and answers with per-frame corrections.
+ *
+ * Protocol (see utils/stabilization.ts):
+ *   in:  start { width, height, sampleRate } -> frame { data } ... -> finish
+ *   out: progress { processed } ... -> done { data } | error { message }
+ */
+
+import { StabilizationCorrection, StabilizationData, StabilizerRequest, StabilizerResponse } from "./stabilization";
+
+// ==================== BLOCK MATCHING ====================
+
+const BLOCK_SIZE = 16;
+const SEARCH_RADIUS = 16; // Largest shift (analysis pixels) found between two frames
+const GRID_COLUMNS = 8;
+const GRID_ROWS = 5;
+const MIN_BLOCK_VARIANCE = 40; // Flat blocks (sky, walls) can't be matched reliably
+const OUTLIER_DISTANCE = 2; // Vectors this far from the median are moving objects
+
+interface MotionVector {
+  cx: number; // Block centre relative to the frame centre
+  cy: number;
+  dx: number;
+  dy: number;
+}
+
+const blockVariance = (frame: Uint8Array, width: number, x0: number, y0: number): number => {
+  let sum = 0;
+  let sumSq = 0;
+  for (let y = 0; y < BLOCK_SIZE; y += 2) {
+    for (let x = 0; x < BLOCK_SIZE; x += 2) {
+      const v = frame[(y0 + y) * width + x0 + x];
+      sum += v;
+      sumSq += v * v;
+    }
+  }
+  const n = (BLOCK_SIZE / 2) * (BLOCK_SIZE / 2);
+  return sumSq / n - (sum / n) * (sum / n);
+};
+
+const blockSad = (prev: Uint8Array, curr: Uint8Array, width: number, x0: number, y0: number, dx: number, dy: number): number => {
+  let sad = 0;
+  for (let y = 0; y < BLOCK_SIZE; y += 2) {
+    const row = (y0 + y) * width + x0;
+    const shifted = (y0 + y + dy) * width + x0 + dx;
+    for (let x = 0; x < BLOCK_SIZE; x += 2) {
+      sad += Math.abs(prev[row + x] - curr[shifted + x]);
+    }
+  }
+  return sad;
+};
+
+/**
+ * Sub-pixel position of a minimum from its two neighbours (parabola fit)
+ */
+const refineMinimum = (left: number, centre: number, right: number): number => {
+  const denominator = left - 2 * centre + right;
+  return denominator > 0 ? Math.max(-0.5, Math.min(0.5, (left - right) / (2 * denominator))) : 0;
+};
+
+/**
+ * Where each textured block of `prev` moved to in `curr`
+ */
+const matchBlocks = (prev: Uint8Array, curr: Uint8Array, width: number, height: number): MotionVector[] => {
+  const vectors: MotionVector[] = [];
+  const margin = SEARCH_RADIUS;
+  const stepX = (width - margin * 2 - BLOCK_SIZE) / (GRID_COLUMNS - 1);
+  const stepY = (height - margin * 2 - BLOCK_SIZE) / (GRID_ROWS - 1);
+  if (stepX <= 0 || stepY <= 0) return vectors;
+
+  for (let row = 0; row < GRID_ROWS; row++) {
+    for (let col = 0; col < GRID_COLUMNS; col++) {
+      const x0 = Math.round(margin + col * stepX);
+      const y0 = Math.round(margin + row * stepY);
+      if (blockVariance(prev, width, x0, y0) < MIN_BLOCK_VARIANCE) continue;
+
+      let best = Infinity;
+      let bestDx = 0;
+      let bestDy = 0;
+      for (let dy = -SEARCH_RADIUS; dy <= SEARCH_RADIUS; dy++) {
+        for (let dx = -SEARCH_RADIUS; dx <= SEARCH_RADIUS; dx++) {
+          const sad = blockSad(prev, curr, width, x0, y0, dx, dy);
+          if (sad < best) {
+            best = sad;
+            bestDx = dx;
+            bestDy = dy;
+          }
+        }
+      }
+
+      // Refine to sub-pixel precision unless the match sits on the search border
+      let dx = bestDx;
+      let dy = bestDy;
+      if (Math.abs(bestDx) < SEARCH_RADIUS) {
+        dx += refineMinimum(
+          blockSad(prev, curr, width, x0, y0, bestDx - 1, bestDy), best,
+          blockSad(prev, curr, width, x0, y0, bestDx + 1, bestDy)
+        );
+      }
+      if (Math.abs(bestDy) < SEARCH_RADIUS) {
+        dy += refineMinimum(
+          blockSad(prev, curr, width, x0, y0, bestDx, bestDy - 1), best,
+          blockSad(prev, curr, width, x0, y0, bestDx, bestDy + 1)
+        );
+      }
+
+      vectors.push({
+        cx: x0 + BLOCK_SIZE / 2 - width / 2,
+        cy: y0 + BLOCK_SIZE / 2 - height / 2,
+        dx,
+        dy
+      });
+    }
+  }
+  return vectors;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Global motion (translation in analysis pixels, rotation in radians about
+ * the centre) from the block vectors, ignoring blocks on moving objects
+ */
+const estimateMotion = (vectors: MotionVector[]): { dx: number; dy: number; rotation: number } => {
+  if (vectors.length === 0) return { dx: 0, dy: 0, rotation: 0 };
+
+  const dx = median(vectors.map(v => v.dx));
+  const dy = median(vectors.map(v => v.dy));
+  const inliers = vectors.filter(v => Math.hypot(v.dx - dx, v.dy - dy) <= OUTLIER_DISTANCE + Math.hypot(v.cx, v.cy) * 0.02);
+
+  // Least squares rotation of the residual vectors around the centre
+  let cross = 0;
+  let radius = 0;
+  inliers.forEach(v => {
+    cross += v.cx * (v.dy - dy) - v.cy * (v.dx - dx);
+    radius += v.cx * v.cx + v.cy * v.cy;
+  });
+  return { dx, dy, rotation: radius > 0 ? cross / radius : 0 };
+};
+
+// ==================== PATH SMOOTHING ====================
+
+const SMOOTHING_SECONDS = 0.5; // Camera motion slower than this is kept
+const MAX_ZOOM = 1.3; // Corrections are limited so the zoom never exceeds this
+
+const smoothPath = (path: number[], radius: number): number[] => {
+  const sigma = Math.max(1, radius / 2);
+  const weights: number[] = [];
+  for (let k = -radius; k <= radius; k++) weights.push(Math.exp(-(k * k) / (2 * sigma * sigma)));
+
+  return path.map((_, i) => {
+    let sum = 0;
+    let total = 0;
+    for (let k = -radius; k <= radius; k++) {
+      const j = Math.min(path.length - 1, Math.max(0, i + k)); // Hold the ends
+      sum += path[j] * weights[k + radius];
+      total += weights[k + radius];
+    }
+    return sum / total;
+  });
+};
+
+/**
+ * Scale needed to keep the frame covered after a correction
+ */
+const getRequiredZoom = (correction: StabilizationCorrection, aspect: number): number => {
+  const angle = Math.abs(correction.rotation);
+  return Math.cos(angle) + Math.sin(angle) * Math.max(aspect, 1 / aspect) +
+    2 * Math.max(Math.abs(correction.x), Math.abs(correction.y));
+};
+
+const buildStabilization = (
+  motions: { dx: number; dy: number; rotation: number }[],
+  width: number,
+  height: number,
+  sampleRate: number
+): StabilizationData => {
+  // Accumulate the frame to frame motion into a camera path (frame fractions)
+  const pathX = [0];
+  const pathY = [0];
+  const pathRotation = [0];
+  motions.forEach(m => {
+    pathX.push(pathX[pathX.length - 1] + m.dx / width);
+    pathY.push(pathY[pathY.length - 1] + m.dy / height);
+    pathRotation.push(pathRotation[pathRotation.length - 1] + m.rotation);
+  });
+
+  const radius = Math.max(1, Math.round(SMOOTHING_SECONDS * sampleRate));
+  const smoothX = smoothPath(pathX, radius);
+  const smoothY = smoothPath(pathY, radius);
+  const smoothRotation = smoothPath(pathRotation, radius);
+
+  // Move every frame from the shaky path onto the smooth one
+  const aspect = width / height;
+  const limit = (MAX_ZOOM - 1) / 2;
+  const corrections: StabilizationCorrection[] = pathX.map((_, i) => ({
+    x: Math.max(-limit, Math.min(limit, smoothX[i] - pathX[i])),
+    y: Math.max(-limit, Math.min(limit, smoothY[i] - pathY[i])),
+    rotation: smoothRotation[i] - pathRotation[i]
+  }));
+  // Reduced rather than spread, as long clips have more corrections than a call takes arguments
+  const zoom = Math.min(MAX_ZOOM, corrections.reduce((max, c) => Math.max(max, getRequiredZoom(c, aspect)), 1));
+
+  return { sampleRate, aspect, zoom, corrections };
+};
+
+// ==================== MESSAGES ====================
+
+let session: { width: number; height: number; sampleRate: number } | null = null;
+let previousFrame: Uint8Array | null = null;
+let motions: { dx: number; dy: number; rotation: number }[] = [];
+let processed = 0;
+
+const reply = (message: StabilizerResponse) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<StabilizerRequest>) => {
+  const message = e.data;
+  try {
+    switch (message.type) {
+      case 'start':
+        session = { width: message.width, height: message.height, sampleRate: message.sampleRate };
+        previousFrame = null;
+        motions = [];
+        processed = 0;
+        break;
+      case 'frame':
+        if (!session) throw new Error('Stabilization was not started');
+        if (previousFrame) {
+          motions.push(estimateMotion(matchBlocks(previousFrame, message.data, session.width, session.height)));
+        }
+        previousFrame = message.data;
+        reply({ type: 'progress', processed: ++processed });
+        break;
+      case 'finish':
+        if (!session || processed === 0) throw new Error('No frames could be decoded');
+        reply({ type: 'done', data: buildStabilization(motions, session.width, session.height, session.sampleRate) });
+        session = null;
+        previousFrame = null;
+        break;
+    }
+  } catch (err) {
+    reply({ type: 'error', message: (err as Error).message });
+  }
+};
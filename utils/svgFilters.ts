@@ -0,0 +1,85 @@
+/**
+ * SVG Filters
+ *
+ * Generated SVG filters are kept in one hidden <svg> in the document. A
+ * `url(#id)` reference to them works as a CSS filter in the preview and as
+ * `ctx.filter` in the export renderer, so both process pixels through exactly
+ * the same filter primitives. Filters are created on first use; the least
+ * recently used ones are dropped once too many are kept.
+ */
+
+// ==================== DOCUMENT ====================
+
+export const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Filters kept in the document before the least recently used ones are dropped
+const MAX_CACHED_FILTERS = 128;
+
+let filterContainer: SVGSVGElement | null = null;
+const filterCache = new Map<string, SVGFilterElement>();
+
+const getFilterContainer = (): SVGSVGElement => {
+  if (!filterContainer || !filterContainer.isConnected) {
+    filterContainer = document.createElementNS(SVG_NS, 'svg');
+    filterContainer.setAttribute('aria-hidden', 'true');
+    filterContainer.setAttribute('width', '0');
+    filterContainer.setAttribute('height', '0');
+    filterContainer.style.position = 'absolute';
+    filterContainer.style.pointerEvents = 'none';
+    document.body.appendChild(filterContainer);
+    filterCache.clear();
+  }
+  return filterContainer;
+};
+
+/**
+ * Create an SVG element with the given attributes (and children)
+ */
+export const createSvgElement = <K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  attributes: Record<string, string | number>,
+  children: SVGElement[] = []
+): SVGElementTagNameMap[K] => {
+  const element = document.createElementNS(SVG_NS, tag);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, String(value)));
+  children.forEach(child => element.appendChild(child));
+  return element;
+};
+
+// ==================== CACHE ====================
+
+/**
+ * Filter reference for `id`, calling `build` to fill in the filter's
+ * attributes and primitives on first use. Ids must encode everything the
+ * filter depends on. Returns '' outside the browser.
+ */
+export const getSvgFilter = (id: string, build: (filter: SVGFilterElement) => void): string => {
+  if (typeof document === 'undefined') return '';
+
+  const container = getFilterContainer();
+  const cached = filterCache.get(id);
+  if (cached) {
+    // Re-insert to mark as most recently used
+    filterCache.delete(id);
+    filterCache.set(id, cached);
+  } else {
+    const filter = createSvgElement('filter', { id });
+    build(filter);
+    container.appendChild(filter);
+    filterCache.set(id, filter);
+
+    if (filterCache.size > MAX_CACHED_FILTERS) {
+      const [oldestId, oldest] = filterCache.entries().next().value!;
+      oldest.remove();
+      filterCache.delete(oldestId);
+    }
+  }
+  return `url(#${id})`;
+};
+
+/**
+ * Id-safe form of a number, e.g. -0.25 -> 'm250' at 3 decimals
+ */
+export const toFilterKey = (value: number): string => {
+  return String(Math.round(value * 1000)).replace(/-/g, 'm');
+};
@@ -0,0 +1,178 @@
+/**
+ * Time Remapping
+ *
+ * Maps timeline time to source media time for video and audio clips, taking
+ * speed, reverse and freeze frame into account. `mediaOffset` is always the
+ * earliest source second a clip uses, whichever direction it plays, so a
+ * reversed clip starts on the last frame of its source range.
+ *
+ * Speed can also be keyframed (a speed ramp). The source position is then the
+ * integral of the speed curve over the clip, looked up from a table that is
+ * built once per keyframe track.
+ *
+ * Shared by the preview sync, the export renderer and mixdown, and the trim
+ * tools, which need to know how much source is left on either side of a clip.
+ */
+
+import { EditorElement, ElementType, Keyframe } from "../types";
+import { interpolateKeyframes } from "./keyframes";
+
+// Shortest clip a speed change can produce
+const MIN_RETIMED_DURATION = 0.1;
+
+// Slowest speed a ramp can reach, so the clip never stalls completely
+const MIN_RAMP_RATE = 0.01;
+
+// Integration step of speed ramps (seconds of clip time)
+const RAMP_STEP = 1 / 240;
+
+// ==================== SOURCE TIME ====================
+
+export const isRetimable = (el: EditorElement): boolean => {
+  return el.type === ElementType.VIDEO || el.type === ElementType.AUDIO;
+};
+
+export const hasSpeedRamp = (el: EditorElement): boolean => {
+  return !!el.keyframes?.playbackRate?.length;
+};
+
+const getRampRate = (ramp: Keyframe[], localTime: number): number => {
+  return Math.max(MIN_RAMP_RATE, interpolateKeyframes(ramp, localTime) ?? 1);
+};
+
+/**
+ * Speed `localTime` seconds into the clip (constant unless speed is keyframed)
+ */
+export const getPlaybackRate = (el: EditorElement, localTime: number = 0): number => {
+  const ramp = el.keyframes?.playbackRate;
+  if (ramp?.length) return getRampRate(ramp, localTime);
+  const rate = el.props.playbackRate ?? 1;
+  return rate > 0 ? rate : 1;
+};
+
+// Cumulative source seconds at every RAMP_STEP of clip time, per keyframe track
+const rampTables = new WeakMap<Keyframe[], Float64Array>();
+
+const getRampTable = (ramp: Keyframe[], steps: number): Float64Array => {
+  const cached = rampTables.get(ramp);
+  if (cached && cached.length > steps) return cached;
+
+  // Grow geometrically so a clip being extended doesn't rebuild every frame
+  const table = new Float64Array(Math.max(steps + 1, (cached?.length ?? 0) * 2));
+  for (let i = 1; i < table.length; i++) {
+    table[i] = table[i - 1] + getRampRate(ramp, (i - 0.5) * RAMP_STEP) * RAMP_STEP;
+  }
+  rampTables.set(ramp, table);
+  return table;
+};
+
+/**
+ * Source seconds played during the first `localTime` seconds of the clip
+ */
+export const getSourceElapsed = (el: EditorElement, localTime: number): number => {
+  const clamped = Math.min(Math.max(0, localTime), el.duration);
+  const ramp = el.keyframes?.playbackRate;
+  if (!ramp?.length) return clamped * getPlaybackRate(el);
+
+  const step = Math.floor(clamped / RAMP_STEP);
+  const remainder = clamped - step * RAMP_STEP;
+  const table = getRampTable(ramp, step);
+  return table[step] + getRampRate(ramp, step * RAMP_STEP + remainder / 2) * remainder;
+};
+
+/**
+ * Source seconds the clip covers (a freeze frame holds a single instant)
+ */
+export const getSourceSpan = (el: EditorElement): number => {
+  return el.props.isFreezeFrame ? 0 : getSourceElapsed(el, el.duration);
+};
+
+/**
+ * Source time shown `localTime` seconds into the clip
+ */
+export const getSourceTimeAt = (el: EditorElement, localTime: number): number => {
+  if (el.props.isFreezeFrame) return el.mediaOffset;
+  const played = getSourceElapsed(el, localTime);
+  return el.props.isReversed ? el.mediaOffset + getSourceSpan(el) - played : el.mediaOffset + played;
+};
+
+/**
+ * Source time shown at timeline time `time`
+ */
+export const getSourceTime = (el: EditorElement, time: number): number => {
+  return getSourceTimeAt(el, time - el.startTime);
+};
+
+// ==================== TRIMMING ====================
+
+// Unused source before / after the clip's source range
+const getSourceBefore = (el: EditorElement) => el.mediaOffset;
+const getSourceAfter = (el: EditorElement) => el.sourceDuration !== undefined
+  ? Math.max(0, el.sourceDuration - el.mediaOffset - getSourceSpan(el))
+  : Infinity;
+
+/**
+ * How far (timeline seconds) the clip's start can move earlier before it runs
+ * out of source media
+ */
+export const getHeadRoom = (el: EditorElement): number => {
+  if (!isRetimable(el) || el.props.isFreezeFrame) return Infinity;
+  return (el.props.isReversed ? getSourceAfter(el) : getSourceBefore(el)) / getPlaybackRate(el, 0);
+};
+
+/**
+ * How far (timeline seconds) the clip's end can move later before it runs out
+ * of source media
+ */
+export const getTailRoom = (el: EditorElement): number => {
+  if (!isRetimable(el) || el.props.isFreezeFrame) return Infinity;
+  return (el.props.isReversed ? getSourceBefore(el) : getSourceAfter(el)) / getPlaybackRate(el, el.duration);
+};
+
+/**
+ * Longest the clip can be with its current source start and speed (a ramp
+ * keeps its final speed past its last keyframe)
+ */
+export const getMaxDuration = (el: EditorElement): number => {
+  if (!isRetimable(el) || el.props.isFreezeFrame || el.sourceDuration === undefined) return Infinity;
+  const remaining = el.sourceDuration - el.mediaOffset - getSourceSpan(el);
+  return Math.max(0, el.duration + remaining / getPlaybackRate(el, el.duration));
+};
+
+/**
+ * `mediaOffset` once the clip's start moves by `delta` timeline seconds
+ * (positive trims the head, negative extends it)
+ */
+export const getOffsetForStartTrim = (el: EditorElement, delta: number): number => {
+  if (!isRetimable(el) || el.props.isFreezeFrame || el.props.isReversed) return el.mediaOffset;
+  const skipped = delta > 0 ? getSourceElapsed(el, delta) : delta * getPlaybackRate(el, 0);
+  return Math.max(0, el.mediaOffset + skipped);
+};
+
+/**
+ * `mediaOffset` once the clip's end moves by `delta` timeline seconds
+ * (positive extends the tail, negative trims it)
+ */
+export const getOffsetForEndTrim = (el: EditorElement, delta: number): number => {
+  if (!isRetimable(el) || el.props.isFreezeFrame || !el.props.isReversed) return el.mediaOffset;
+  const added = delta < 0
+    ? getSourceElapsed(el, el.duration + delta) - getSourceSpan(el)
+    : delta * getPlaybackRate(el, el.duration);
+  return Math.max(0, el.mediaOffset - added);
+};
+
+// ==================== SPEED CHANGES ====================
+
+/**
+ * Apply a speed change in `updated` to the clip's length: the clip keeps the
+ * same source range, so it gets shorter when sped up and longer when slowed down.
+ * Clips with a speed ramp keep their length, as the ramp is timed to it.
+ */
+export const retimeForSpeed = (original: EditorElement, updated: EditorElement): EditorElement => {
+  if (!isRetimable(updated) || updated.props.isFreezeFrame) return updated;
+  if (hasSpeedRamp(original) || hasSpeedRamp(updated)) return updated;
+  const oldRate = getPlaybackRate(original);
+  const newRate = getPlaybackRate(updated);
+  if (oldRate === newRate) return updated;
+  return { ...updated, duration: Math.max(MIN_RETIMED_DURATION, (original.duration * oldRate) / newRate) };
+};
@@ -0,0 +1,139 @@
+/**
+ * Time Stretching
+ *
+ * Changes the length of audio without changing its pitch, used by the export
+ * mixdown for sped up / slowed down clips with "preserve pitch" on (the
+ * preview gets this from the browser's `preservesPitch`).
+ *
+ * WSOLA (waveform similarity overlap-add): windowed frames are read from the
+ * input at `rate` times the output hop, and each frame's read position is
+ * nudged within a small window to line up with the previous frame's waveform,
+ * which avoids the phasing of plain overlap-add.
+ *
+ * Speed ramps pass a position map instead of a fixed rate: the input sample
+ * to read at every output sample.
+ */
+
+// Input sample position (fractional) that plays at `outputSample`
+export type PositionMap = (outputSample: number) => number;
+
+// ==================== WSOLA ====================
+
+const FRAME_SIZE = 2048; // ~43ms at 48kHz
+const OUTPUT_HOP = FRAME_SIZE / 2;
+const SEARCH_RADIUS = 512; // How far a frame may move to match the waveform
+const SEARCH_STEP = 4; // Subsampling of the similarity search
+
+const hannWindow = (() => {
+  const window = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+  }
+  return window;
+})();
+
+/**
+ * Offset within ±SEARCH_RADIUS of `position` whose waveform best continues
+ * the one at `natural`
+ */
+const findBestOffset = (mono: Float32Array, natural: number, position: number): number => {
+  let bestOffset = 0;
+  let bestScore = -Infinity;
+  const length = OUTPUT_HOP; // Compare the overlapping half of the frames
+  for (let offset = -SEARCH_RADIUS; offset <= SEARCH_RADIUS; offset += SEARCH_STEP) {
+    const start = position + offset;
+    if (start < 0 || start + length > mono.length) continue;
+    let score = 0;
+    for (let i = 0; i < length; i += SEARCH_STEP) {
+      score += mono[natural + i] * mono[start + i];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestOffset = offset;
+    }
+  }
+  return bestOffset;
+};
+
+/**
+ * Read `channels` along `positionAt` without keeping the pitch (like a tape
+ * changing speed), interpolating between input samples
+ */
+export const resample = (channels: Float32Array[], outputLength: number, positionAt: PositionMap): Float32Array[] => {
+  const inputLength = channels[0]?.length ?? 0;
+  return channels.map(input => {
+    const output = new Float32Array(outputLength);
+    for (let i = 0; i < outputLength; i++) {
+      const position = Math.min(Math.max(0, positionAt(i)), inputLength - 1);
+      const index = Math.floor(position);
+      const next = input[Math.min(inputLength - 1, index + 1)] ?? 0;
+      output[i] = (input[index] ?? 0) + (next - (input[index] ?? 0)) * (position - index);
+    }
+    return output;
+  });
+};
+
+/**
+ * Stretch `channels` (same length) so they play `rate` times faster
+ * (rate > 1 shortens), keeping the pitch
+ */
+export const timeStretch = (channels: Float32Array[], rate: number): Float32Array[] => {
+  const inputLength = channels[0]?.length ?? 0;
+  const outputLength = Math.max(1, Math.round(inputLength / rate));
+  return timeStretchTo(channels, outputLength, i => i * rate);
+};
+
+/**
+ * Stretch `channels` to `outputLength` samples following `positionAt`,
+ * keeping the pitch
+ */
+export const timeStretchTo = (channels: Float32Array[], outputLength: number, positionAt: PositionMap): Float32Array[] => {
+  const inputLength = channels[0]?.length ?? 0;
+  if (inputLength < FRAME_SIZE * 2) {
+    // Too short to overlap frames: plain resampling
+    return resample(channels, outputLength, positionAt);
+  }
+
+  // Similarity search runs on a mono mix
+  const mono = new Float32Array(inputLength);
+  channels.forEach(input => {
+    for (let i = 0; i < inputLength; i++) mono[i] += input[i] / channels.length;
+  });
+
+  const outputs = channels.map(() => new Float32Array(outputLength + FRAME_SIZE));
+  const weights = new Float32Array(outputLength + FRAME_SIZE);
+  let previous = 0;
+
+  for (let frame = 0; ; frame++) {
+    const outStart = frame * OUTPUT_HOP;
+    if (outStart >= outputLength) break;
+
+    let inStart = Math.round(positionAt(outStart));
+    if (frame > 0) {
+      const natural = previous + OUTPUT_HOP;
+      if (natural + OUTPUT_HOP <= inputLength) {
+        inStart += findBestOffset(mono, natural, inStart);
+      }
+    }
+    inStart = Math.min(Math.max(0, inStart), inputLength - 1);
+    previous = inStart;
+
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const source = inStart + i;
+      if (source >= inputLength) break;
+      const w = hannWindow[i];
+      weights[outStart + i] += w;
+      for (let c = 0; c < channels.length; c++) {
+        outputs[c][outStart + i] += channels[c][source] * w;
+      }
+    }
+  }
+
+  return outputs.map(output => {
+    const trimmed = output.subarray(0, outputLength);
+    for (let i = 0; i < outputLength; i++) {
+      if (weights[i] > 1e-3) trimmed[i] /= weights[i];
+    }
+    return trimmed;
+  });
+};
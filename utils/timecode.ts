@@ -0,0 +1,36 @@
+/**
+ * Frame based time helpers for the project frame rate
+ */
+
+/**
+ * Round a time in seconds to the nearest whole frame
+ */
+export const snapTimeToFrame = (time: number, fps: number): number => {
+  if (fps <= 0) return time;
+  return Math.round(time * fps) / fps;
+};
+
+/**
+ * Format seconds as HH:MM:SS:FF, offset by the project's timecode start
+ */
+export const formatTimecode = (time: number, fps: number, timecodeStart: number = 0): string => {
+  const frameRate = Math.round(fps); // Non-drop-frame: 29.97 counts 30 frames per second
+  const totalFrames = Math.max(0, Math.round((time + timecodeStart) * fps));
+  const frames = totalFrames % frameRate;
+  const totalSeconds = Math.floor(totalFrames / frameRate);
+  const s = totalSeconds % 60;
+  const m = Math.floor(totalSeconds / 60) % 60;
+  const h = Math.floor(totalSeconds / 3600);
+  return [h, m, s, frames].map(v => v.toString().padStart(2, '0')).join(':');
+};
+
+/**
+ * Parse HH:MM:SS:FF (fewer fields are read from the right) back to seconds.
+ * Returns null for malformed input.
+ */
+export const parseTimecode = (value: string, fps: number): number | null => {
+  const parts = value.trim().split(':');
+  if (parts.length === 0 || parts.length > 4 || parts.some(p => !/^\d+$/.test(p))) return null;
+  const [frames = 0, s = 0, m = 0, h = 0] = parts.map(Number).reverse();
+  return h * 3600 + m * 60 + s + frames / Math.round(fps);
+};
@@ -0,0 +1,334 @@
+/**
+ * Timeline Edits
+ *
+ * Ripple editing: with ripple edit mode on, a change in a clip's length moves
+ * every later clip (and marker) by the same amount, so no gap or overlap is
+ * left behind. Clips on locked tracks never move, and edits on a locked track
+ * don't ripple. The clips to move are collected once before an edit, which lets
+ * edge drags re-apply the shift from the original positions on every mouse move.
+ *
+ * Trim tools: roll, slip and slide edits computed from the clips as they were
+ * when the drag started.
+ */
+
+import { EditorElement, ElementType, Marker, Track } from "../types";
+import { getHeadRoom, getTailRoom, getOffsetForStartTrim, getOffsetForEndTrim, getPlaybackRate, getSourceSpan, getSourceTimeAt } from "./timeRemap";
+import { trimKeyframesStart } from "./keyframes";
+import { trimMaskKeyframesStart } from "./masks";
+
+// ==================== TYPES ====================
+
+// Which clips follow an edit: the edited clip's track, or every unlocked track
+export type RippleScope = 'track' | 'all';
+
+export const DEFAULT_RIPPLE_SCOPE: RippleScope = 'track';
+
+export interface RippleTargets {
+  elementStarts: Record<string, number>; // Original start time of each clip that moves
+  markerTimes: Record<string, number>; // Original time of each marker that moves
+}
+
+export interface RippleResult {
+  elements: EditorElement[];
+  markers: Marker[];
+}
+
+// Clips starting this close to the edit point still count as after it
+const RIPPLE_EPSILON = 1e-6;
+
+// ==================== TARGETS ====================
+
+/**
+ * Clips and markers at or after `fromTime` that follow an edit on `trackId`;
+ * nothing when that track is locked
+ */
+export const collectRippleTargets = (
+  elements: EditorElement[],
+  tracks: Track[],
+  markers: Marker[],
+  trackId: number,
+  fromTime: number,
+  scope: RippleScope,
+  excludeId?: string
+): RippleTargets => {
+  const lockedTrackIds = new Set(tracks.filter(t => t.isLocked).map(t => t.id));
+  const elementStarts: Record<string, number> = {};
+  const markerTimes: Record<string, number> = {};
+  if (lockedTrackIds.has(trackId)) return { elementStarts, markerTimes };
+
+  elements.forEach(el => {
+    if (el.id === excludeId || lockedTrackIds.has(el.trackId)) return;
+    if (scope === 'track' && el.trackId !== trackId) return;
+    if (el.startTime >= fromTime - RIPPLE_EPSILON) {
+      elementStarts[el.id] = el.startTime;
+    }
+  });
+
+  markers.forEach(m => {
+    if (m.time >= fromTime - RIPPLE_EPSILON) {
+      markerTimes[m.id] = m.time;
+    }
+  });
+
+  return { elementStarts, markerTimes };
+};
+
+/**
+ * Limit a leftward shift so moved clips stop at the clips that stay put.
+ * `ignoreId` is the clip being edited, whose end travels with the shift.
+ */
+export const clampRippleDelta = (elements: EditorElement[], targets: RippleTargets, delta: number, ignoreId?: string): number => {
+  if (delta >= 0) return delta;
+
+  let clamped = delta;
+  elements.forEach(target => {
+    const originalStart = targets.elementStarts[target.id];
+    if (originalStart === undefined) return;
+
+    // Room between this clip and the nearest fixed clip before it on its track
+    clamped = Math.max(clamped, -originalStart);
+    elements.forEach(el => {
+      if (el.id === ignoreId || el.trackId !== target.trackId || el.id in targets.elementStarts) return;
+      if (el.startTime < originalStart) {
+        const room = originalStart - (el.startTime + el.duration);
+        clamped = Math.max(clamped, -Math.max(0, room));
+      }
+    });
+  });
+  return clamped;
+};
+
+/**
+ * Move every target by `delta` seconds from its original position
+ */
+export const applyRipple = (elements: EditorElement[], markers: Marker[], targets: RippleTargets, delta: number): RippleResult => {
+  return {
+    elements: elements.map(el => {
+      const originalStart = targets.elementStarts[el.id];
+      return originalStart === undefined ? el : { ...el, startTime: Math.max(0, originalStart + delta) };
+    }),
+    markers: markers
+      .map(m => {
+        const originalTime = targets.markerTimes[m.id];
+        return originalTime === undefined ? m : { ...m, time: Math.max(0, originalTime + delta) };
+      })
+      .sort((a, b) => a.time - b.time)
+  };
+};
+
+// ==================== EDITS ====================
+
+/**
+ * Clip whose start moves by `delta` seconds while its end stays put. Keyframes
+ * and mask keyframes move with it, so they stay on the same frames.
+ */
+export const trimStart = (el: EditorElement, delta: number): EditorElement => ({
+  ...el,
+  startTime: el.startTime + delta,
+  duration: el.duration - delta,
+  mediaOffset: getOffsetForStartTrim(el, delta),
+  keyframes: trimKeyframesStart(el.keyframes, delta),
+  masks: trimMaskKeyframesStart(el.masks, delta)
+});
+
+// Clip whose end moves by `delta` seconds
+const trimEnd = (el: EditorElement, delta: number): EditorElement => ({
+  ...el,
+  duration: el.duration + delta,
+  mediaOffset: getOffsetForEndTrim(el, delta)
+});
+
+/**
+ * The two halves of a clip cut at timeline `time`, which must fall inside it.
+ * The right half gets `rightId` and keeps the animation continuous across the cut.
+ */
+export const splitClip = (el: EditorElement, time: number, rightId: string): [EditorElement, EditorElement] => {
+  const leftDuration = time - el.startTime;
+  return [
+    trimEnd(el, -(el.duration - leftDuration)),
+    { ...trimStart(el, leftDuration), id: rightId, name: el.name + " (Copy)" }
+  ];
+};
+
+/**
+ * Remove a clip and pull everything after it back by its duration
+ */
+export const rippleDelete = (elements: EditorElement[], tracks: Track[], markers: Marker[], id: string, scope: RippleScope): RippleResult => {
+  const deleted = elements.find(el => el.id === id);
+  const remaining = elements.filter(el => el.id !== id);
+  if (!deleted) return { elements: remaining, markers };
+
+  const targets = collectRippleTargets(remaining, tracks, markers, deleted.trackId, deleted.startTime + deleted.duration, scope);
+  const delta = clampRippleDelta(remaining, targets, -deleted.duration);
+  return applyRipple(remaining, markers, targets, delta);
+};
+
+/**
+ * Add a clip and push everything at or after its start later by its duration.
+ * Clips that span the insert point on the moving tracks are split there, and
+ * their second half moves with the rest.
+ */
+export const rippleInsert = (elements: EditorElement[], tracks: Track[], markers: Marker[], inserted: EditorElement, scope: RippleScope): RippleResult => {
+  const time = inserted.startTime;
+  const lockedTrackIds = new Set(tracks.filter(t => t.isLocked).map(t => t.id));
+  const ripples = !lockedTrackIds.has(inserted.trackId);
+  const cut = elements.flatMap(el => {
+    const spans = el.startTime < time - RIPPLE_EPSILON && el.startTime + el.duration > time + RIPPLE_EPSILON;
+    const moves = scope === 'track' ? el.trackId === inserted.trackId : !lockedTrackIds.has(el.trackId);
+    return ripples && spans && moves ? splitClip(el, time, Math.random().toString(36).substr(2, 9)) : [el];
+  });
+
+  const targets = collectRippleTargets(cut, tracks, markers, inserted.trackId, time, scope);
+  const rippled = applyRipple(cut, markers, targets, inserted.duration);
+  return { elements: [...rippled.elements, inserted], markers: rippled.markers };
+};
+
+// ==================== TRIM TOOLS ====================
+
+// Timeline tool used when dragging clips
+export type EditTool = 'select' | 'roll' | 'slip' | 'slide';
+
+export const EDIT_TOOLS: { id: EditTool; label: string; shortcut: string; description: string }[] = [
+  { id: 'select', label: 'Select', shortcut: 'V', description: 'Move clips and trim their edges' },
+  { id: 'roll', label: 'Roll', shortcut: 'N', description: 'Move the cut between two adjacent clips' },
+  { id: 'slip', label: 'Slip', shortcut: 'Y', description: 'Change which part of the media a clip shows' },
+  { id: 'slide', label: 'Slide', shortcut: 'U', description: 'Move a clip while its neighbours trim to compensate' },
+];
+
+export interface ElementUpdate {
+  id: string;
+  updates: Partial<EditorElement>;
+}
+
+// A source frame shown in the preview while trimming
+export interface TrimFrame {
+  element: EditorElement;
+  sourceTime: number; // Seconds into the source media
+  edge: 'in' | 'out'; // First or last frame of the clip
+}
+
+// Frames either side of the cut being rolled, or the in/out frames of a slipped clip
+export interface TrimPreview {
+  before: TrimFrame;
+  after: TrimFrame;
+}
+
+export interface TrimResult {
+  updates: ElementUpdate[];
+  preview: TrimPreview | null;
+}
+
+const MIN_CLIP_DURATION = 0.5;
+
+// Clips closer than this are treated as touching
+const CUT_EPSILON = 0.01;
+
+const isMediaClip = (el: EditorElement) => el.type === ElementType.VIDEO || el.type === ElementType.AUDIO;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const inFrame = (el: EditorElement): TrimFrame => ({ element: el, sourceTime: getSourceTimeAt(el, 0), edge: 'in' });
+const outFrame = (el: EditorElement): TrimFrame => ({ element: el, sourceTime: getSourceTimeAt(el, el.duration), edge: 'out' });
+
+
+/**
+ * Clips on the same track that end where `clip` starts / start where it ends
+ */
+export const findAdjacentClips = (elements: EditorElement[], clip: EditorElement): { before?: EditorElement; after?: EditorElement } => {
+  const clipEnd = clip.startTime + clip.duration;
+  const sameTrack = elements.filter(el => el.id !== clip.id && el.trackId === clip.trackId);
+  return {
+    before: sameTrack.find(el => Math.abs(el.startTime + el.duration - clip.startTime) < CUT_EPSILON),
+    after: sameTrack.find(el => Math.abs(el.startTime - clipEnd) < CUT_EPSILON)
+  };
+};
+
+/**
+ * Roll the cut at one edge of `clip` by `delta` seconds: the clip on one side
+ * gets longer by as much as the other gets shorter. Returns null when nothing
+ * touches that edge. `elements` and `clip` are the state when the drag started.
+ */
+export const rollEdit = (elements: EditorElement[], clip: EditorElement, edge: 'start' | 'end', delta: number): TrimResult | null => {
+  const adjacent = findAdjacentClips(elements, clip);
+  const left = edge === 'start' ? adjacent.before : clip;
+  const right = edge === 'start' ? clip : adjacent.after;
+  if (!left || !right) return null;
+
+  const d = clamp(
+    delta,
+    Math.max(-(left.duration - MIN_CLIP_DURATION), -getHeadRoom(right)),
+    Math.min(right.duration - MIN_CLIP_DURATION, getTailRoom(left))
+  );
+  const newLeft = trimEnd(left, d);
+  const newRight = trimStart(right, d);
+
+  return {
+    updates: [
+      { id: left.id, updates: { duration: newLeft.duration, mediaOffset: newLeft.mediaOffset } },
+      { id: right.id, updates: { startTime: newRight.startTime, duration: newRight.duration, mediaOffset: newRight.mediaOffset, keyframes: newRight.keyframes, masks: newRight.masks } }
+    ],
+    preview: { before: outFrame(newLeft), after: inFrame(newRight) }
+  };
+};
+
+/**
+ * Slip the media inside `clip`: dragging right reveals earlier media,
+ * while the clip keeps its place and length
+ */
+export const slipEdit = (clip: EditorElement, delta: number): TrimResult => {
+  if (!isMediaClip(clip) || clip.props.isFreezeFrame) return { updates: [], preview: null };
+
+  const maxOffset = clip.sourceDuration !== undefined ? Math.max(0, clip.sourceDuration - getSourceSpan(clip)) : Infinity;
+  // Reversed clips show the source backwards, so the media moves the other way
+  const sourceDelta = delta * getPlaybackRate(clip) * (clip.props.isReversed ? -1 : 1);
+  const mediaOffset = clamp(clip.mediaOffset - sourceDelta, 0, maxOffset);
+  const slipped = { ...clip, mediaOffset };
+
+  return {
+    updates: [{ id: clip.id, updates: { mediaOffset } }],
+    preview: { before: inFrame(slipped), after: outFrame(slipped) }
+  };
+};
+
+/**
+ * Slide `clip` by `delta` seconds; the clip before it extends or shortens its
+ * tail and the clip after it its head, so the overall edit keeps its length.
+ * Without a neighbour on a side, the clip can only slide into empty space.
+ */
+export const slideEdit = (elements: EditorElement[], clip: EditorElement, delta: number): TrimResult => {
+  const { before, after } = findAdjacentClips(elements, clip);
+  const clipEnd = clip.startTime + clip.duration;
+  const sameTrack = elements.filter(el => el.id !== clip.id && el.trackId === clip.trackId);
+
+  let min = -clip.startTime;
+  let max = Infinity;
+  if (before) {
+    min = Math.max(min, -(before.duration - MIN_CLIP_DURATION));
+    max = Math.min(max, getTailRoom(before));
+  } else {
+    sameTrack.forEach(el => {
+      const end = el.startTime + el.duration;
+      if (end <= clip.startTime + CUT_EPSILON) min = Math.max(min, end - clip.startTime);
+    });
+  }
+  if (after) {
+    max = Math.min(max, after.duration - MIN_CLIP_DURATION);
+    min = Math.max(min, -getHeadRoom(after));
+  } else {
+    sameTrack.forEach(el => {
+      if (el.startTime >= clipEnd - CUT_EPSILON) max = Math.min(max, el.startTime - clipEnd);
+    });
+  }
+
+  const d = clamp(delta, Math.min(0, min), Math.max(0, max));
+  const updates: ElementUpdate[] = [{ id: clip.id, updates: { startTime: clip.startTime + d } }];
+  if (before) {
+    const newBefore = trimEnd(before, d);
+    updates.push({ id: before.id, updates: { duration: newBefore.duration, mediaOffset: newBefore.mediaOffset } });
+  }
+  if (after) {
+    const newAfter = trimStart(after, d);
+    updates.push({ id: after.id, updates: { startTime: newAfter.startTime, duration: newAfter.duration, mediaOffset: newAfter.mediaOffset, keyframes: newAfter.keyframes, masks: newAfter.masks } });
+  }
+  return { updates, preview: null };
+};
@@ -0,0 +1,106 @@
+import { EditorElement } from "../types";
+
+/**
+ * Resolved transition state of an element at a point in time.
+ * Translations are expressed as a percentage of the element's own size so the
+ * same values drive both the CSS preview and the canvas renderer.
+ */
+export interface TransitionState {
+  opacity: number;
+  scale: number;
+  translateX: number; // percent of element width
+  translateY: number; // percent of element height
+}
+
+const IDENTITY: TransitionState = { opacity: 1, scale: 1, translateX: 0, translateY: 0 };
+
+/**
+ * Compute the combined transition-in / transition-out state of an element.
+ * Transition out overrides the transform of transition in, while opacity
+ * takes the minimum of both.
+ */
+export const getTransitionState = (el: EditorElement, time: number): TransitionState => {
+  const elapsedTime = time - el.startTime;
+  const remainingTime = (el.startTime + el.duration) - time;
+  const state: TransitionState = { ...IDENTITY };
+
+  // Transition In
+  if (el.transitionIn && el.transitionIn.type !== 'none' && elapsedTime < el.transitionIn.duration) {
+    const progress = elapsedTime / el.transitionIn.duration;
+    switch (el.transitionIn.type) {
+      case 'fade':
+      case 'dissolve':
+        state.opacity = progress;
+        break;
+      case 'zoom-in':
+        state.opacity = progress;
+        state.scale = 0.5 + 0.5 * progress;
+        break;
+      case 'zoom-out':
+        state.opacity = progress;
+        state.scale = 1.5 - 0.5 * progress;
+        break;
+      case 'wipe-left':
+        state.translateX = (1 - progress) * 100;
+        break;
+      case 'wipe-right':
+        state.translateX = (progress - 1) * 100;
+        break;
+      case 'wipe-up':
+        state.translateY = (1 - progress) * 100;
+        break;
+      case 'wipe-down':
+        state.translateY = (progress - 1) * 100;
+        break;
+    }
+  }
+
+  // Transition Out
+  if (el.transitionOut && el.transitionOut.type !== 'none' && remainingTime < el.transitionOut.duration) {
+    const progress = remainingTime / el.transitionOut.duration;
+    const setTransform = (scale: number, translateX: number, translateY: number) => {
+      state.scale = scale;
+      state.translateX = translateX;
+      state.translateY = translateY;
+    };
+    switch (el.transitionOut.type) {
+      case 'fade':
+      case 'dissolve':
+        state.opacity = Math.min(state.opacity, progress);
+        break;
+      case 'zoom-in':
+        state.opacity = Math.min(state.opacity, progress);
+        setTransform(1.5 - 0.5 * progress, 0, 0);
+        break;
+      case 'zoom-out':
+        state.opacity = Math.min(state.opacity, progress);
+        setTransform(0.5 + 0.5 * progress, 0, 0);
+        break;
+      case 'wipe-left':
+        setTransform(1, (progress - 1) * 100, 0);
+        break;
+      case 'wipe-right':
+        setTransform(1, (1 - progress) * 100, 0);
+        break;
+      case 'wipe-up':
+        setTransform(1, 0, (progress - 1) * 100);
+        break;
+      case 'wipe-down':
+        setTransform(1, 0, (1 - progress) * 100);
+        break;
+    }
+  }
+
+  return state;
+};
+
+/**
+ * CSS transform fragment for a transition state (empty when at rest)
+ */
+export const transitionToCss = (state: TransitionState): string => {
+  return [
+    state.translateX !== 0 ? `translateX(${state.translateX}%)` : '',
+    state.translateY !== 0 ? `translateY(${state.translateY}%)` : '',
+    state.scale !== 1 ? `scale(${state.scale})` : ''
+  ].filter(Boolean).join(' ');
+};
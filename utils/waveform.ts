@@ -0,0 +1,121 @@
+/**
+ * Audio Waveforms
+ *
+ * Media assets are decoded once to a pyramid of peak levels: the finest level
+ * holds the loudest sample of every 1/PEAK_RATE seconds of source, and each
+ * level above it halves the resolution. The timeline reads whichever level
+ * matches its zoom, so drawing costs the same at any zoom. Peaks are stored
+ * on the media asset, so they are only computed once per asset.
+ *
+ * Peaks are indexed by source time, so they stay valid however the clip is
+ * trimmed, retimed or reversed.
+ */
+
+import { EditorElement } from "../types";
+import { updateAssetWaveform } from "./db";
+
+// ==================== TYPES ====================
+
+export interface WaveformData {
+  peakRate: number; // Peaks per second of source at the finest level
+  levels: Float32Array[]; // Absolute peaks (0-1), finest first; each level halves the one before
+}
+
+// Sample rate the source is decoded at; plenty for peak display
+const DECODE_SAMPLE_RATE = 22050;
+const PEAK_RATE = 200;
+
+// ==================== LIBRARY ====================
+
+// Peaks by asset id, or by source URL for media outside the library
+const waveforms = new Map<string, WaveformData | null>();
+const pendingWaveforms = new Map<string, Promise<WaveformData | null>>();
+
+const getWaveformKey = (el: EditorElement): string | undefined => el.assetId ?? el.props.src;
+
+export const registerWaveform = (assetId: string, data: WaveformData) => {
+  waveforms.set(assetId, data);
+};
+
+/**
+ * Peaks of a clip's media when they are loaded (null when it has no audio)
+ */
+export const getWaveform = (el: EditorElement): WaveformData | null | undefined => {
+  const key = getWaveformKey(el);
+  return key ? waveforms.get(key) : undefined;
+};
+
+// ==================== ANALYSIS ====================
+
+const computeWaveform = async (src: string): Promise<WaveformData | null> => {
+  try {
+    const data = await (await fetch(src)).arrayBuffer();
+    const buffer = await new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE).decodeAudioData(data);
+    const windowSize = Math.max(1, Math.round(buffer.sampleRate / PEAK_RATE));
+    const finest = new Float32Array(Math.ceil(buffer.length / windowSize));
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const samples = buffer.getChannelData(c);
+      for (let i = 0; i < samples.length; i++) {
+        const peak = Math.abs(samples[i]);
+        const w = Math.floor(i / windowSize);
+        if (peak > finest[w]) finest[w] = peak;
+      }
+    }
+
+    const levels = [finest];
+    while (levels[levels.length - 1].length > 1) {
+      const previous = levels[levels.length - 1];
+      const level = new Float32Array(Math.ceil(previous.length / 2));
+      for (let i = 0; i < level.length; i++) {
+        level[i] = Math.max(previous[i * 2], previous[i * 2 + 1] ?? 0);
+      }
+      levels.push(level);
+    }
+    return { peakRate: buffer.sampleRate / windowSize, levels };
+  } catch {
+    return null; // e.g. video without an audio track
+  }
+};
+
+/**
+ * Peaks of a clip's media, decoding it the first time it is asked for and
+ * storing the result on its media asset
+ */
+export const loadWaveform = (el: EditorElement): Promise<WaveformData | null> => {
+  const key = getWaveformKey(el);
+  if (!key || !el.props.src) return Promise.resolve(null);
+  if (waveforms.has(key)) return Promise.resolve(waveforms.get(key)!);
+
+  if (!pendingWaveforms.has(key)) {
+    pendingWaveforms.set(key, computeWaveform(el.props.src).then(data => {
+      waveforms.set(key, data);
+      pendingWaveforms.delete(key);
+      if (data && el.assetId) {
+        updateAssetWaveform(el.assetId, data).catch(e => console.error('Failed to store waveform:', e));
+      }
+      return data;
+    }));
+  }
+  return pendingWaveforms.get(key)!;
+};
+
+// ==================== LOOKUP ====================
+
+/**
+ * Loudest peak between two source times, read from the coarsest level that
+ * still has at least one peak in the range
+ */
+export const getPeak = (waveform: WaveformData, from: number, to: number): number => {
+  const start = Math.min(from, to);
+  const span = Math.abs(to - from) * waveform.peakRate;
+  const level = Math.min(waveform.levels.length - 1, Math.max(0, Math.floor(Math.log2(Math.max(1, span)))));
+  const peaks = waveform.levels[level];
+  const scale = waveform.peakRate / Math.pow(2, level);
+  const first = Math.floor(start * scale);
+  const last = Math.max(first, Math.ceil((start + Math.abs(to - from)) * scale) - 1);
+  let peak = 0;
+  for (let i = Math.max(0, first); i <= Math.min(peaks.length - 1, last); i++) {
+    if (peaks[i] > peak) peak = peaks[i];
+  }
+  return peak;
+};
@@ -0,0 +1,110 @@
+/**
+ * WebGL Image Passes
+ *
+ * Shared setup for the per-clip GPU passes (LUTs, chroma key). Each pass draws
+ * one full-screen quad on its own offscreen WebGL2 canvas through a fragment
+ * shader that reads the frame from `uSource` (texture unit 0) at `vUv`.
+ */
+
+// ==================== SHADERS ====================
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 aPosition;
+out vec2 vUv;
+void main() {
+  vUv = aPosition * 0.5 + 0.5;
+  gl_Position = vec4(aPosition, 0.0, 1.0);
+}`;
+
+// ==================== SETUP ====================
+
+/**
+ * WebGL2 context of a pass canvas, or null (with a warning naming what won't
+ * be applied) when the browser has none
+ */
+export const getPassContext = (canvas: HTMLCanvasElement, feature: string): WebGL2RenderingContext | null => {
+  const gl = canvas.getContext('webgl2', { premultipliedAlpha: false, preserveDrawingBuffer: true });
+  if (!gl) console.warn(`WebGL2 is not available, ${feature} will not be applied`);
+  return gl;
+};
+
+/**
+ * Link `fragmentShader` with the full-screen vertex shader, make it the
+ * current program and feed it the quad. `name` labels errors.
+ */
+export const createPassProgram = (gl: WebGL2RenderingContext, fragmentShader: string, name: string): WebGLProgram | null => {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.error(`${name} shader failed to compile:`, gl.getShaderInfoLog(shader));
+    }
+    return shader;
+  };
+
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compile(gl.FRAGMENT_SHADER, fragmentShader));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error(`${name} shader failed to link:`, gl.getProgramInfoLog(program));
+    return null;
+  }
+  gl.useProgram(program);
+
+  // Two triangles covering the viewport
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, 'aPosition');
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  gl.uniform1i(gl.getUniformLocation(program, 'uSource'), 0);
+  return program;
+};
+
+/**
+ * Texture the frame is uploaded to, on texture unit 0
+ */
+export const createSourceTexture = (gl: WebGL2RenderingContext): WebGLTexture | null => {
+  const texture = gl.createTexture();
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+// ==================== DRAWING ====================
+
+/**
+ * Size the pass canvas and its viewport to the frame
+ */
+export const resizePass = (gl: WebGL2RenderingContext, canvas: HTMLCanvasElement, width: number, height: number) => {
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  gl.viewport(0, 0, width, height);
+};
+
+/**
+ * Upload `source` to the source texture. Returns false when the frame can't be
+ * read (e.g. a video that isn't ready yet).
+ */
+export const uploadSource = (gl: WebGL2RenderingContext, texture: WebGLTexture | null, source: TexImageSource, name: string): boolean => {
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true); // Texture rows run bottom-up
+  try {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    return true;
+  } catch (e) {
+    console.warn(`Failed to upload frame for ${name}:`, e);
+    return false;
+  }
+};